@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "EmailSuppressionReason" AS ENUM ('UNSUBSCRIBE');
+
+-- CreateTable
+CREATE TABLE "EmailSuppression" (
+    "id" SERIAL NOT NULL,
+    "email" TEXT NOT NULL,
+    "reason" "EmailSuppressionReason" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmailSuppression_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailSuppression_email_key" ON "EmailSuppression"("email");
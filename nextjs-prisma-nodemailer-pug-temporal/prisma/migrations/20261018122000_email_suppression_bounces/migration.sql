@@ -0,0 +1,14 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "EmailSuppressionReason" ADD VALUE 'HARD_BOUNCE';
+ALTER TYPE "EmailSuppressionReason" ADD VALUE 'COMPLAINT';
+ALTER TYPE "EmailSuppressionReason" ADD VALUE 'MANUAL';
+
+-- AlterTable
+ALTER TABLE "EmailSuppression" ADD COLUMN     "details" TEXT;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN     "deadLetteredAt" TIMESTAMP(3),
+ADD COLUMN     "lastError" TEXT,
+ADD COLUMN     "lastErrorRetryable" BOOLEAN,
+ADD COLUMN     "sendAttempts" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Notification_deadLetteredAt_idx" ON "Notification"("deadLetteredAt");
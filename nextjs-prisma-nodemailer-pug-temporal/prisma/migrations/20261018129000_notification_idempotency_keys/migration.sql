@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN     "idempotencyKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Notification_idempotencyKey_key" ON "Notification"("idempotencyKey");
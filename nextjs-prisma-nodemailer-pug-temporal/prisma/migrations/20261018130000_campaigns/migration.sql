@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "CampaignStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "CampaignRowStatus" AS ENUM ('PENDING', 'CREATED', 'INVALID', 'DUPLICATE', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "Campaign" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "notificationType" "NotificationType" NOT NULL,
+    "status" "CampaignStatus" NOT NULL DEFAULT 'PENDING',
+    "createdById" INTEGER NOT NULL,
+    "totalRows" INTEGER NOT NULL,
+    "processedRows" INTEGER NOT NULL DEFAULT 0,
+    "createdCount" INTEGER NOT NULL DEFAULT 0,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "skippedCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Campaign_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CampaignRow" (
+    "id" SERIAL NOT NULL,
+    "campaignId" INTEGER NOT NULL,
+    "rowNumber" INTEGER NOT NULL,
+    "emailOrPhone" TEXT NOT NULL,
+    "firstName" TEXT NOT NULL,
+    "lastName" TEXT NOT NULL,
+    "contextParameters" JSONB NOT NULL DEFAULT '{}',
+    "status" "CampaignRowStatus" NOT NULL DEFAULT 'PENDING',
+    "error" TEXT,
+    "notificationId" INTEGER,
+
+    CONSTRAINT "CampaignRow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Campaign_createdById_idx" ON "Campaign"("createdById");
+
+-- CreateIndex
+CREATE INDEX "CampaignRow_campaignId_status_idx" ON "CampaignRow"("campaignId", "status");
+
+-- AddForeignKey
+ALTER TABLE "Campaign" ADD CONSTRAINT "Campaign_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignRow" ADD CONSTRAINT "CampaignRow_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "EmailTemplateVersionStatus" AS ENUM ('DRAFT', 'PUBLISHED', 'ARCHIVED');
+
+-- CreateTable
+CREATE TABLE "EmailTemplate" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT NOT NULL,
+    "tenant" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmailTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EmailTemplateVersion" (
+    "id" SERIAL NOT NULL,
+    "templateId" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL,
+    "status" "EmailTemplateVersionStatus" NOT NULL DEFAULT 'DRAFT',
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "publishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "EmailTemplateVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailTemplate_key_tenant_key" ON "EmailTemplate"("key", "tenant");
+
+-- CreateIndex
+CREATE INDEX "EmailTemplateVersion_templateId_status_idx" ON "EmailTemplateVersion"("templateId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailTemplateVersion_templateId_version_key" ON "EmailTemplateVersion"("templateId", "version");
+
+-- AddForeignKey
+ALTER TABLE "EmailTemplateVersion" ADD CONSTRAINT "EmailTemplateVersion_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "EmailTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EmailTemplateVersion" ADD CONSTRAINT "EmailTemplateVersion_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
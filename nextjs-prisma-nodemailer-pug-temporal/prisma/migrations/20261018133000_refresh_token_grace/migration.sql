@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Token" ADD COLUMN     "previousToken" TEXT,
+ADD COLUMN     "rotatedAt" TIMESTAMP(3);
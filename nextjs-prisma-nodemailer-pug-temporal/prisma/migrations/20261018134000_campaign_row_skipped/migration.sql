@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "CampaignRowStatus" ADD VALUE 'SKIPPED';
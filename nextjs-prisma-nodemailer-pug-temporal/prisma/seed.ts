@@ -0,0 +1,37 @@
+/**
+ * Creates the permissions the API routes check and the default roles that group them.
+ * Safe to run again: existing rows are updated and role permissions reset to the defaults.
+ *
+ *   npm run db:seed
+ */
+import { logger } from '../src/lib/logger';
+import { DEFAULT_ROLES, PERMISSIONS } from '../src/lib/permissions';
+import { prisma } from '../src/lib/prisma';
+
+async function main() {
+  for (const { name, description } of PERMISSIONS) {
+    await prisma.permission.upsert({
+      where: { name },
+      create: { name, description },
+      update: { description },
+    });
+  }
+
+  for (const { name, description, permissions } of DEFAULT_ROLES) {
+    const rolePermissions = permissions.map((permission) => ({ name: permission }));
+    await prisma.role.upsert({
+      where: { name },
+      create: { name, description, permissions: { connect: rolePermissions } },
+      update: { description, permissions: { set: rolePermissions } },
+    });
+  }
+
+  logger.info(`Seeded ${PERMISSIONS.length} permissions and ${DEFAULT_ROLES.length} roles`);
+}
+
+main()
+  .catch((err) => {
+    logger.error(String(err));
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,23 @@
+// Service worker for Web Push notifications, registered from the notification settings page.
+// Payloads are sent by src/lib/notification-adapters/web-push-notification-adapter.ts.
+
+self.addEventListener('push', (event) => {
+  const data = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'New notification', {
+      body: data.body,
+      tag: data.notificationId ? `notification-${data.notificationId}` : undefined,
+      data: { url: data.url },
+    }),
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const url = event.notification.data?.url;
+  if (url) {
+    event.waitUntil(self.clients.openWindow(url));
+  }
+});
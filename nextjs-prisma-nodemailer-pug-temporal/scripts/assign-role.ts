@@ -0,0 +1,37 @@
+/**
+ * Gives a user one of the roles created by `npm run db:seed`:
+ *
+ *   npm run roles:assign -- user@example.com admin
+ */
+import { logger } from '../src/lib/logger';
+import { prisma } from '../src/lib/prisma';
+
+async function main() {
+  const [email, roleName] = process.argv.slice(2);
+  if (!email || !roleName) {
+    throw new Error('Usage: npm run roles:assign -- <user email> <role name>');
+  }
+
+  const user = await prisma.user.findUnique({ where: { email } });
+  if (!user) {
+    throw new Error(`No user with email ${email}`);
+  }
+
+  const role = await prisma.role.findUnique({ where: { name: roleName } });
+  if (!role) {
+    throw new Error(`No role named ${roleName}, did you run npm run db:seed?`);
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { roles: { connect: { id: role.id } } },
+  });
+  logger.info(`Assigned role ${roleName} to ${email}`);
+}
+
+main()
+  .catch((err) => {
+    logger.error(String(err));
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,48 @@
+/**
+ * Subscribes a user to the local mock push service (src/app/api/dev/push-service), so Web Push
+ * delivery can be tried without a browser:
+ *
+ *   npm run push:mock-subscription -- user@example.com
+ *   npm run push:mock-subscription -- user@example.com --expired
+ *
+ * `--expired` creates a subscription the mock answers with 410 Gone, which the worker prunes.
+ */
+import { createECDH, randomBytes, randomUUID } from 'node:crypto';
+import { logger } from '../src/lib/logger';
+import { prisma } from '../src/lib/prisma';
+
+async function main() {
+  const [email, flag] = process.argv.slice(2);
+  if (!email) {
+    throw new Error('Usage: npm run push:mock-subscription -- <user email> [--expired]');
+  }
+
+  const user = await prisma.user.findUnique({ where: { email } });
+  if (!user) {
+    throw new Error(`No user with email ${email}`);
+  }
+
+  // Real browsers generate these; the payload is encrypted with them even for the mock
+  const keys = createECDH('prime256v1');
+  keys.generateKeys();
+  const subscriptionId = `${flag === '--expired' ? 'expired-' : ''}${randomUUID()}`;
+  const endpoint = `${process.env.APP_DOMAIN || 'http://localhost:3000'}/api/dev/push-service/${subscriptionId}`;
+
+  await prisma.pushSubscription.create({
+    data: {
+      userId: user.id,
+      endpoint,
+      p256dh: keys.getPublicKey().toString('base64url'),
+      auth: randomBytes(16).toString('base64url'),
+      userAgent: 'mock-push-subscription',
+    },
+  });
+  logger.info(`Created push subscription ${endpoint} for ${email}`);
+}
+
+main()
+  .catch((err) => {
+    logger.error(String(err));
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
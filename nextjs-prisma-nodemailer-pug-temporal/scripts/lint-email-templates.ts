@@ -0,0 +1,52 @@
+/**
+ * Fails when an HTML email template doesn't extend the shared layout, directly or through
+ * another template:
+ *
+ *   npm run lint:templates
+ */
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { logger } from '../src/lib/logger';
+
+const EMAIL_TEMPLATES_DIR = path.resolve('src/email-templates');
+const LAYOUT = path.join(EMAIL_TEMPLATES_DIR, 'layouts/email.pug');
+const HTML_BODY_TEMPLATE = /-body(\.[\w-]+)?\.html\.pug$/;
+
+// The template's `extends` target, which Pug only allows as the first statement
+function getExtendedTemplate(file: string): string | null {
+  const firstStatement = readFileSync(file, 'utf-8')
+    .split('\n')
+    .map((line) => line.trim())
+    .find((line) => line && !line.startsWith('//'));
+  const match = firstStatement?.match(/^extends\s+(\S+)$/);
+  if (!match) {
+    return null;
+  }
+
+  const extended = path.resolve(path.dirname(file), match[1]);
+  return extended.endsWith('.pug') ? extended : `${extended}.pug`;
+}
+
+function extendsLayout(file: string, seen = new Set<string>()): boolean {
+  const extended = getExtendedTemplate(file);
+  if (!extended || seen.has(extended) || !existsSync(extended)) {
+    return false;
+  }
+  return extended === LAYOUT || extendsLayout(extended, seen.add(extended));
+}
+
+const templates = readdirSync(EMAIL_TEMPLATES_DIR, { recursive: true })
+  .map((file) => path.join(EMAIL_TEMPLATES_DIR, file.toString()))
+  .filter((file) => HTML_BODY_TEMPLATE.test(file))
+  .sort();
+const failing = templates.filter((file) => !extendsLayout(file));
+
+if (failing.length) {
+  logger.error(
+    `These templates don't extend ${path.relative(process.cwd(), LAYOUT)}: ` +
+      failing.map((file) => path.relative(process.cwd(), file)).join(', '),
+  );
+  process.exitCode = 1;
+} else {
+  logger.info(`${templates.length} HTML email templates extend the layout`);
+}
@@ -0,0 +1,269 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, AlertDescription } from '../../../../components/ui/alert';
+import { Button } from '../../../../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../../../../components/ui/card';
+import { Label } from '../../../../components/ui/label';
+import { campaignsApi } from '../../../../lib/api-clients/campaigns';
+import type { CampaignProgress, CampaignRowItem } from '../../../../lib/services/campaigns';
+
+const ROW_STATUSES = ['PENDING', 'CREATED', 'INVALID', 'DUPLICATE', 'SKIPPED', 'FAILED'];
+// How often the progress is reloaded while the campaign runs
+const POLL_INTERVAL_MS = 3000;
+
+const selectClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : '-';
+}
+
+function isRunning(campaign: CampaignProgress | null) {
+  return campaign?.status === 'PENDING' || campaign?.status === 'RUNNING';
+}
+
+export default function CampaignDetailPage() {
+  const params = useParams();
+  const campaignId = Number(params.id);
+  const [campaign, setCampaign] = useState<CampaignProgress | null>(null);
+  const [rows, setRows] = useState<CampaignRowItem[]>([]);
+  const [rowStatus, setRowStatus] = useState('');
+  const [page, setPage] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [pageSize, setPageSize] = useState(50);
+  const [error, setError] = useState('');
+
+  const loadCampaign = useCallback(async () => {
+    const response = await campaignsApi.get(campaignId);
+    if (response.success) {
+      setCampaign(response.data.campaign);
+    } else {
+      setError(response.error);
+    }
+  }, [campaignId]);
+
+  const loadRows = useCallback(async () => {
+    const response = await campaignsApi.rows(campaignId, page, rowStatus);
+    if (response.success && 'data' in response) {
+      setRows(response.data.rows);
+      setTotal(response.data.total);
+      setPageSize(response.data.pageSize);
+    } else if (!response.success) {
+      setError(response.error || 'Could not load the rows');
+    }
+  }, [campaignId, page, rowStatus]);
+
+  useEffect(() => {
+    loadCampaign();
+  }, [loadCampaign]);
+
+  useEffect(() => {
+    loadRows();
+  }, [loadRows]);
+
+  const running = isRunning(campaign);
+  useEffect(() => {
+    if (!running) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      loadCampaign();
+      loadRows();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [running, loadCampaign, loadRows]);
+
+  async function handleDownloadErrorReport() {
+    setError('');
+    const report = await campaignsApi.errorReport(campaignId);
+    if (!report) {
+      setError('Could not download the error report');
+      return;
+    }
+
+    const url = URL.createObjectURL(report);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `campaign-${campaignId}-errors.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  if (!campaign) {
+    return (
+      <div className="container mx-auto py-10 px-4">
+        <div className="max-w-4xl mx-auto">
+          {error ? (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          ) : (
+            <p className="text-muted-foreground">Loading...</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const percentDone =
+    campaign.totalRows === 0
+      ? 100
+      : Math.round((campaign.processedRows / campaign.totalRows) * 100);
+  const fields: [string, string | number][] = [
+    ['Status', campaign.status],
+    ['Channel', campaign.notificationType],
+    ['Rows', campaign.totalRows],
+    ['Notifications created', campaign.createdCount],
+    ['Failed', campaign.failedCount],
+    ['Skipped (invalid, duplicate or blocked)', campaign.skippedCount],
+    ['Created', formatDate(campaign.createdAt)],
+    ['Completed', formatDate(campaign.completedAt)],
+  ];
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <div className="container mx-auto py-10 px-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold tracking-tight">{campaign.name}</h1>
+          <Link href="/admin/campaigns" className="text-sm text-blue-600 hover:underline">
+            Back to campaigns
+          </Link>
+        </header>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Progress</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-1">
+              <div className="h-2 w-full rounded-full bg-muted">
+                <div className="h-2 rounded-full bg-primary" style={{ width: `${percentDone}%` }} />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {campaign.processedRows} of {campaign.totalRows} rows processed ({percentDone}%)
+              </p>
+            </div>
+            <dl className="grid grid-cols-[max-content_1fr] gap-x-6 gap-y-2 text-sm">
+              {fields.map(([label, value]) => (
+                <div key={label} className="contents">
+                  <dt className="font-medium">{label}</dt>
+                  <dd>{value}</dd>
+                </div>
+              ))}
+            </dl>
+            <Button
+              variant="outline"
+              onClick={handleDownloadErrorReport}
+              disabled={campaign.failedCount + campaign.skippedCount === 0}
+            >
+              Download error report
+            </Button>
+          </CardContent>
+        </Card>
+
+        <div className="w-48 space-y-2">
+          <Label htmlFor="rowStatus">Row status</Label>
+          <select
+            id="rowStatus"
+            value={rowStatus}
+            onChange={(e) => {
+              setRowStatus(e.target.value);
+              setPage(0);
+            }}
+            className={selectClassName}
+          >
+            <option value="">Any</option>
+            {ROW_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="overflow-x-auto rounded-md border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted text-left">
+              <tr>
+                <th className="px-3 py-2">Row</th>
+                <th className="px-3 py-2">Recipient</th>
+                <th className="px-3 py-2">Name</th>
+                <th className="px-3 py-2">Status</th>
+                <th className="px-3 py-2">Notification</th>
+                <th className="px-3 py-2">Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.id} className="border-t">
+                  <td className="px-3 py-2">{row.rowNumber}</td>
+                  <td className="px-3 py-2">{row.emailOrPhone || '-'}</td>
+                  <td className="px-3 py-2">
+                    {row.firstName} {row.lastName}
+                  </td>
+                  <td className="px-3 py-2">{row.status}</td>
+                  <td className="px-3 py-2">
+                    {row.notificationId ? (
+                      <Link
+                        href={`/admin/notifications/${row.notificationId}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {row.notificationId}
+                      </Link>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                  <td className="px-3 py-2">{row.error ?? '-'}</td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-3 py-6 text-center text-muted-foreground">
+                    No rows with this status
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">{total} rows</span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page === 0}
+              onClick={() => setPage(page - 1)}
+            >
+              Previous
+            </Button>
+            <span>
+              Page {page + 1} of {pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page + 1 >= pageCount}
+              onClick={() => setPage(page + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { CampaignUploadForm } from '../../../components/CampaignUploadForm';
+import { Alert, AlertDescription } from '../../../components/ui/alert';
+import { Button } from '../../../components/ui/button';
+import { campaignsApi } from '../../../lib/api-clients/campaigns';
+import type { CampaignProgress } from '../../../lib/services/campaigns';
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : '-';
+}
+
+export default function CampaignsPage() {
+  const [page, setPage] = useState(0);
+  const [campaigns, setCampaigns] = useState<CampaignProgress[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pageSize, setPageSize] = useState(20);
+  const [error, setError] = useState('');
+
+  const loadCampaigns = useCallback(async (newPage: number) => {
+    setError('');
+    const response = await campaignsApi.list(newPage);
+    if (response.success) {
+      setCampaigns(response.data.campaigns);
+      setTotal(response.data.total);
+      setPageSize(response.data.pageSize);
+    } else {
+      setError(response.error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCampaigns(0);
+  }, [loadCampaigns]);
+
+  function handlePageChange(newPage: number) {
+    setPage(newPage);
+    loadCampaigns(newPage);
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <div className="container mx-auto py-10 px-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold tracking-tight">Campaigns</h1>
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+            Back to dashboard
+          </Link>
+        </header>
+
+        <CampaignUploadForm />
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="overflow-x-auto rounded-md border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted text-left">
+              <tr>
+                <th className="px-3 py-2">ID</th>
+                <th className="px-3 py-2">Name</th>
+                <th className="px-3 py-2">Status</th>
+                <th className="px-3 py-2">Channel</th>
+                <th className="px-3 py-2">Progress</th>
+                <th className="px-3 py-2">Created</th>
+              </tr>
+            </thead>
+            <tbody>
+              {campaigns.map((campaign) => (
+                <tr key={campaign.id} className="border-t">
+                  <td className="px-3 py-2">
+                    <Link
+                      href={`/admin/campaigns/${campaign.id}`}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {campaign.id}
+                    </Link>
+                  </td>
+                  <td className="px-3 py-2">{campaign.name}</td>
+                  <td className="px-3 py-2">{campaign.status}</td>
+                  <td className="px-3 py-2">{campaign.notificationType}</td>
+                  <td className="px-3 py-2">
+                    {campaign.processedRows} / {campaign.totalRows}
+                  </td>
+                  <td className="px-3 py-2">{formatDate(campaign.createdAt)}</td>
+                </tr>
+              ))}
+              {campaigns.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-3 py-6 text-center text-muted-foreground">
+                    No campaigns yet
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">{total} campaigns</span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page === 0}
+              onClick={() => handlePageChange(page - 1)}
+            >
+              Previous
+            </Button>
+            <span>
+              Page {page + 1} of {pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page + 1 >= pageCount}
+              onClick={() => handlePageChange(page + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
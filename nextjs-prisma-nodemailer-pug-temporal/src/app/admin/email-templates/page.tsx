@@ -0,0 +1,157 @@
+'use client';
+
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { EmailTemplateEditor } from '../../../components/EmailTemplateEditor';
+import { Alert, AlertDescription } from '../../../components/ui/alert';
+import { Button } from '../../../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Input } from '../../../components/ui/input';
+import { Label } from '../../../components/ui/label';
+import { emailTemplatesApi } from '../../../lib/api-clients/email-templates';
+import type { EmailTemplateListItem } from '../../../lib/services/email-templates';
+
+const selectClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+type Selection = { key: string; tenant: string };
+
+function formatVersion(version: number | null) {
+  return version === null ? '-' : `v${version}`;
+}
+
+export default function EmailTemplatesPage() {
+  const [templates, setTemplates] = useState<EmailTemplateListItem[]>([]);
+  const [key, setKey] = useState('');
+  const [tenant, setTenant] = useState('');
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [error, setError] = useState('');
+
+  const loadTemplates = useCallback(async () => {
+    const response = await emailTemplatesApi.list();
+    if (response.success) {
+      setTemplates(response.data.templates);
+    } else {
+      setError(response.error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  function handleOpen(e: React.FormEvent) {
+    e.preventDefault();
+    setSelection({ key, tenant: tenant.trim() });
+  }
+
+  const overrides = templates.flatMap((template) =>
+    template.overrides.map((override) => ({ key: template.name, ...override })),
+  );
+
+  return (
+    <div className="container mx-auto py-10 px-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold tracking-tight">Email Template Editor</h1>
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+            Back to dashboard
+          </Link>
+        </header>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Open a template</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <form onSubmit={handleOpen} className="grid grid-cols-[2fr_1fr_auto] items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="key">Template</Label>
+                <select
+                  id="key"
+                  value={key}
+                  onChange={(e) => setKey(e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Choose a template</option>
+                  {templates.map((template) => (
+                    <option key={template.name} value={template.name}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tenant">Tenant</Label>
+                <Input
+                  id="tenant"
+                  value={tenant}
+                  onChange={(e) => setTenant(e.target.value)}
+                  placeholder="Every tenant"
+                />
+              </div>
+              <Button type="submit" disabled={!key}>
+                Open
+              </Button>
+            </form>
+
+            <div className="overflow-x-auto rounded-md border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted text-left">
+                  <tr>
+                    <th className="px-3 py-2">Template</th>
+                    <th className="px-3 py-2">Tenant</th>
+                    <th className="px-3 py-2">Published</th>
+                    <th className="px-3 py-2">Draft</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {overrides.map((override) => (
+                    <tr key={`${override.key}:${override.tenant}`} className="border-t">
+                      <td className="px-3 py-2">
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setSelection({ key: override.key, tenant: override.tenant })
+                          }
+                          className="text-blue-600 hover:underline"
+                        >
+                          {override.key}
+                        </button>
+                      </td>
+                      <td className="px-3 py-2">{override.tenant || 'Every tenant'}</td>
+                      <td className="px-3 py-2">{formatVersion(override.publishedVersion)}</td>
+                      <td className="px-3 py-2">{formatVersion(override.draftVersion)}</td>
+                    </tr>
+                  ))}
+                  {overrides.length === 0 && (
+                    <tr>
+                      <td colSpan={4} className="px-3 py-6 text-center text-muted-foreground">
+                        Every template is rendered from its files
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+
+        {selection && (
+          <EmailTemplateEditor
+            key={`${selection.key}:${selection.tenant}`}
+            templateKey={selection.key}
+            tenant={selection.tenant}
+            onChange={loadTemplates}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, AlertDescription } from '../../../../components/ui/alert';
+import { Button } from '../../../../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../../../../components/ui/card';
+import { Input } from '../../../../components/ui/input';
+import { Label } from '../../../../components/ui/label';
+import { adminNotificationsApi } from '../../../../lib/api-clients/admin-notifications';
+import { notificationsApi } from '../../../../lib/api-clients/notifications';
+import type { DuplicateNotificationValues } from '../../../../lib/schemas/admin-notifications';
+import type { AdminNotificationDetail } from '../../../../lib/services/notification-admin';
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : '-';
+}
+
+export default function AdminNotificationDetailPage() {
+  const params = useParams();
+  const router = useRouter();
+  const notificationId = Number(params.id);
+  const [notification, setNotification] = useState<AdminNotificationDetail | null>(null);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [recipient, setRecipient] = useState('');
+  const [sendAfter, setSendAfter] = useState('');
+
+  const loadNotification = useCallback(async () => {
+    const response = await adminNotificationsApi.get(notificationId);
+    if (response.success) {
+      setNotification(response.data.notification);
+    } else {
+      setError(response.error);
+    }
+  }, [notificationId]);
+
+  useEffect(() => {
+    loadNotification();
+  }, [loadNotification]);
+
+  async function handleResend() {
+    setError('');
+    const response = await adminNotificationsApi.resend(notificationId);
+    if (response.success && 'data' in response) {
+      router.push(`/admin/notifications/${response.data.notificationId}`);
+    } else if (!response.success) {
+      setError(response.error || 'Could not resend the notification');
+    }
+  }
+
+  async function handleCancel() {
+    setError('');
+    const response = await notificationsApi.cancel(notificationId);
+    if (response.success) {
+      setMessage('Notification cancelled');
+      await loadNotification();
+    } else {
+      setError(response.error || 'Could not cancel the notification');
+    }
+  }
+
+  async function handleDuplicate(e: React.FormEvent) {
+    e.preventDefault();
+    if (!notification) {
+      return;
+    }
+
+    setError('');
+    const data: DuplicateNotificationValues = {};
+    if (recipient) {
+      if (notification.userId === null) {
+        data.emailOrPhone = recipient;
+      } else {
+        data.userId = Number.parseInt(recipient, 10);
+      }
+    }
+    if (sendAfter) {
+      data.sendAfter = new Date(sendAfter);
+    }
+
+    const response = await adminNotificationsApi.duplicate(notificationId, data);
+    if (response.success && 'data' in response) {
+      router.push(`/admin/notifications/${response.data.notificationId}`);
+    } else if (!response.success) {
+      setError(response.error || 'Invalid duplicate options');
+    }
+  }
+
+  if (!notification) {
+    return (
+      <div className="container mx-auto py-10 px-4">
+        <div className="max-w-4xl mx-auto">
+          {error ? (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          ) : (
+            <p className="text-muted-foreground">Loading...</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const fields: [string, string | number | null][] = [
+    ['Status', notification.status],
+    ['Channel', notification.notificationType],
+    ['Context', notification.contextName],
+    ['Recipient', notification.recipient],
+    ['User ID', notification.userId],
+    ['Tenant', notification.tenant],
+    ['Adapter', notification.adapterUsed],
+    ['Body template', notification.bodyTemplate],
+    ['Subject template', notification.subjectTemplate],
+    ['Git commit', notification.gitCommitSha],
+    ['Created', formatDate(notification.createdAt)],
+    ['Send after', formatDate(notification.sendAfter)],
+    ['Sent', formatDate(notification.sentAt)],
+    ['Send attempts', notification.sendAttempts],
+    ['Last error', notification.lastError],
+    ['Dead-lettered', formatDate(notification.deadLetteredAt)],
+    ['Cancellation reason', notification.cancellationReason],
+  ];
+
+  return (
+    <div className="container mx-auto py-10 px-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold tracking-tight">Notification {notification.id}</h1>
+          <Link href="/admin/notifications" className="text-sm text-blue-600 hover:underline">
+            Back to notifications
+          </Link>
+        </header>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {message && (
+          <Alert>
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex gap-2">
+          <Button onClick={handleResend}>Resend</Button>
+          {notification.status === 'PENDING_SEND' && (
+            <Button variant="destructive" onClick={handleCancel}>
+              Cancel
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Details</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-[max-content_1fr] gap-x-6 gap-y-2 text-sm">
+              {fields.map(([label, value]) => (
+                <div key={label} className="contents">
+                  <dt className="font-medium">{label}</dt>
+                  <dd className="break-all">{value ?? '-'}</dd>
+                </div>
+              ))}
+            </dl>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Rendered</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {notification.renderError && (
+              <Alert variant="destructive">
+                <AlertDescription>{notification.renderError}</AlertDescription>
+              </Alert>
+            )}
+            {notification.rendered?.subject && (
+              <p className="font-medium">{notification.rendered.subject}</p>
+            )}
+            {notification.rendered?.format === 'html' && (
+              <iframe
+                title="Rendered notification"
+                sandbox=""
+                srcDoc={notification.rendered.body}
+                className="h-96 w-full rounded-md border"
+              />
+            )}
+            {notification.rendered?.format === 'text' && (
+              <pre className="whitespace-pre-wrap rounded-md border p-3 text-sm">
+                {notification.rendered.body}
+              </pre>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Context</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            <div>
+              <p className="font-medium">Parameters</p>
+              <pre className="overflow-x-auto rounded-md bg-muted p-3">
+                {JSON.stringify(notification.contextParameters, null, 2)}
+              </pre>
+            </div>
+            <div>
+              <p className="font-medium">Used when sending</p>
+              <pre className="overflow-x-auto rounded-md bg-muted p-3">
+                {JSON.stringify(notification.contextUsed, null, 2)}
+              </pre>
+            </div>
+            {notification.extraParams && (
+              <div>
+                <p className="font-medium">Extra parameters</p>
+                <pre className="overflow-x-auto rounded-md bg-muted p-3">
+                  {JSON.stringify(notification.extraParams, null, 2)}
+                </pre>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {notification.attachments.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Attachments</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-1 text-sm">
+                {notification.attachments.map((attachment) => (
+                  <li key={attachment.id}>
+                    {attachment.filename} ({attachment.contentType}, {attachment.size} bytes)
+                    {attachment.description && ` - ${attachment.description}`}
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Duplicate</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleDuplicate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="recipient">
+                  {notification.userId === null ? 'Email or phone' : 'User ID'}
+                </Label>
+                <Input
+                  id="recipient"
+                  type={notification.userId === null ? 'text' : 'number'}
+                  placeholder="Same recipient"
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sendAfter">Send after</Label>
+                <Input
+                  id="sendAfter"
+                  type="datetime-local"
+                  value={sendAfter}
+                  onChange={(e) => setSendAfter(e.target.value)}
+                />
+              </div>
+              <Button type="submit">Duplicate</Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
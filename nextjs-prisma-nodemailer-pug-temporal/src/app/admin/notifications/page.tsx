@@ -0,0 +1,223 @@
+'use client';
+
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, AlertDescription } from '../../../components/ui/alert';
+import { Button } from '../../../components/ui/button';
+import { Card, CardContent } from '../../../components/ui/card';
+import { Input } from '../../../components/ui/input';
+import { Label } from '../../../components/ui/label';
+import {
+  adminNotificationsApi,
+  type NotificationSearchParams,
+} from '../../../lib/api-clients/admin-notifications';
+import type { AdminNotificationItem } from '../../../lib/services/notification-admin';
+
+const STATUSES = ['PENDING_SEND', 'SENT', 'FAILED', 'READ', 'CANCELLED'];
+const NOTIFICATION_TYPES = ['EMAIL', 'PUSH', 'SMS', 'IN_APP'];
+
+const textFilters: { name: keyof NotificationSearchParams; label: string; type?: string }[] = [
+  { name: 'contextName', label: 'Context' },
+  { name: 'tenant', label: 'Tenant' },
+  { name: 'userId', label: 'User ID', type: 'number' },
+  { name: 'emailOrPhone', label: 'Email or phone' },
+  { name: 'gitCommitSha', label: 'Git commit' },
+  { name: 'createdFrom', label: 'Created from', type: 'date' },
+  { name: 'createdTo', label: 'Created to', type: 'date' },
+  { name: 'sentFrom', label: 'Sent from', type: 'date' },
+  { name: 'sentTo', label: 'Sent to', type: 'date' },
+];
+
+const selectClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : '-';
+}
+
+export default function AdminNotificationsPage() {
+  const [filters, setFilters] = useState<NotificationSearchParams>({});
+  const [page, setPage] = useState(0);
+  const [notifications, setNotifications] = useState<AdminNotificationItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pageSize, setPageSize] = useState(50);
+  const [error, setError] = useState('');
+
+  const loadNotifications = useCallback(async (search: NotificationSearchParams) => {
+    setError('');
+    const response = await adminNotificationsApi.list(search);
+    if (response.success && 'data' in response) {
+      setNotifications(response.data.notifications);
+      setTotal(response.data.total);
+      setPageSize(response.data.pageSize);
+    } else if (!response.success) {
+      setError(response.error || 'Invalid filters');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotifications({ page: '0' });
+  }, [loadNotifications]);
+
+  function handleChange(e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) {
+    setFilters({ ...filters, [e.target.name]: e.target.value });
+  }
+
+  function handleSearch(e: React.FormEvent) {
+    e.preventDefault();
+    setPage(0);
+    loadNotifications({ ...filters, page: '0' });
+  }
+
+  function handlePageChange(newPage: number) {
+    setPage(newPage);
+    loadNotifications({ ...filters, page: String(newPage) });
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <div className="container mx-auto py-10 px-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold tracking-tight">Notifications</h1>
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+            Back to dashboard
+          </Link>
+        </header>
+
+        <Card>
+          <CardContent className="pt-6">
+            <form onSubmit={handleSearch} className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              <div className="space-y-2">
+                <Label htmlFor="status">Status</Label>
+                <select
+                  id="status"
+                  name="status"
+                  value={filters.status ?? ''}
+                  onChange={handleChange}
+                  className={selectClassName}
+                >
+                  <option value="">Any</option>
+                  {STATUSES.map((status) => (
+                    <option key={status} value={status}>
+                      {status}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="notificationType">Channel</Label>
+                <select
+                  id="notificationType"
+                  name="notificationType"
+                  value={filters.notificationType ?? ''}
+                  onChange={handleChange}
+                  className={selectClassName}
+                >
+                  <option value="">Any</option>
+                  {NOTIFICATION_TYPES.map((notificationType) => (
+                    <option key={notificationType} value={notificationType}>
+                      {notificationType}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {textFilters.map((filter) => (
+                <div key={filter.name} className="space-y-2">
+                  <Label htmlFor={filter.name}>{filter.label}</Label>
+                  <Input
+                    id={filter.name}
+                    name={filter.name}
+                    type={filter.type ?? 'text'}
+                    value={filters[filter.name] ?? ''}
+                    onChange={handleChange}
+                  />
+                </div>
+              ))}
+              <div className="flex items-end">
+                <Button type="submit" className="w-full">
+                  Search
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="overflow-x-auto rounded-md border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted text-left">
+              <tr>
+                <th className="px-3 py-2">ID</th>
+                <th className="px-3 py-2">Status</th>
+                <th className="px-3 py-2">Channel</th>
+                <th className="px-3 py-2">Context</th>
+                <th className="px-3 py-2">Recipient</th>
+                <th className="px-3 py-2">Created</th>
+                <th className="px-3 py-2">Sent</th>
+              </tr>
+            </thead>
+            <tbody>
+              {notifications.map((notification) => (
+                <tr key={notification.id} className="border-t">
+                  <td className="px-3 py-2">
+                    <Link
+                      href={`/admin/notifications/${notification.id}`}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {notification.id}
+                    </Link>
+                  </td>
+                  <td className="px-3 py-2">{notification.status}</td>
+                  <td className="px-3 py-2">{notification.notificationType}</td>
+                  <td className="px-3 py-2">{notification.contextName}</td>
+                  <td className="px-3 py-2">{notification.recipient ?? '-'}</td>
+                  <td className="px-3 py-2">{formatDate(notification.createdAt)}</td>
+                  <td className="px-3 py-2">{formatDate(notification.sentAt)}</td>
+                </tr>
+              ))}
+              {notifications.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-3 py-6 text-center text-muted-foreground">
+                    No notifications match these filters
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">{total} notifications</span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page === 0}
+              onClick={() => handlePageChange(page - 1)}
+            >
+              Previous
+            </Button>
+            <span>
+              Page {page + 1} of {pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page + 1 >= pageCount}
+              onClick={() => handlePageChange(page + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
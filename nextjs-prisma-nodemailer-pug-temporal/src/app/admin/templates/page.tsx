@@ -0,0 +1,283 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { Alert, AlertDescription } from '../../../components/ui/alert';
+import { Button } from '../../../components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '../../../components/ui/card';
+import { Label } from '../../../components/ui/label';
+import { Textarea } from '../../../components/ui/textarea';
+import { templatesApi } from '../../../lib/api-clients/templates';
+import type { TemplatePreviewValues } from '../../../lib/schemas/templates';
+import type { EmailTemplateOption } from '../../../lib/services/email-templates';
+import type { TemplatePreview } from '../../../lib/services/template-preview';
+
+// Filled in when a context is chosen. Token contexts need a token that exists in the database.
+const SAMPLE_CONTEXT_PARAMETERS: Record<string, object> = {
+  forgotPassword: { token: '' },
+  emailVerification: { token: '' },
+  magicLink: { token: '' },
+  firstDay: { userId: 1 },
+  emailVerified: { userId: 1 },
+  passwordChanged: { userId: 1, changedAt: '2026-01-01T12:00:00Z' },
+  newLogin: {
+    userId: 1,
+    userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) Firefox/130.0',
+    ipAddress: '127.0.0.1',
+    loggedInAt: '2026-01-01T12:00:00Z',
+  },
+  welcomeProspect: {
+    companyName: 'VintaSend Demo',
+    email: 'prospect@example.com',
+    locale: 'en',
+  },
+  welcomeProspectSms: { companyName: 'VintaSend Demo', firstName: 'Ada', locale: 'en' },
+  pushTest: {},
+};
+
+// Common email client widths
+const PREVIEW_WIDTHS = [
+  { label: 'Desktop', width: 600 },
+  { label: 'Mobile', width: 375 },
+];
+
+const selectClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+function formatParameters(contextName: string) {
+  return JSON.stringify(SAMPLE_CONTEXT_PARAMETERS[contextName] ?? {}, null, 2);
+}
+
+export default function TemplatesPage() {
+  const [templates, setTemplates] = useState<EmailTemplateOption[]>([]);
+  const [contextNames, setContextNames] = useState<string[]>([]);
+  const [templateName, setTemplateName] = useState('');
+  const [contextName, setContextName] = useState('');
+  const [parameters, setParameters] = useState('{}');
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    templatesApi.list().then((response) => {
+      if (response.success) {
+        setTemplates(response.data.templates);
+        setContextNames(response.data.contextNames);
+      } else {
+        setError(response.error);
+      }
+    });
+  }, []);
+
+  function getValues(): TemplatePreviewValues | null {
+    const template = templates.find((option) => option.name === templateName);
+    if (!template) {
+      setError('Choose a template');
+      return null;
+    }
+
+    let contextParameters: TemplatePreviewValues['contextParameters'];
+    try {
+      contextParameters = JSON.parse(parameters);
+    } catch {
+      setError('The parameters must be valid JSON');
+      return null;
+    }
+
+    return {
+      bodyTemplate: template.bodyTemplate,
+      subjectTemplate: template.subjectTemplate,
+      contextName,
+      contextParameters,
+    };
+  }
+
+  async function handlePreview() {
+    setError('');
+    setMessage('');
+    const values = getValues();
+    if (!values) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await templatesApi.preview(values);
+      if (response.success && 'data' in response) {
+        setPreview(response.data.preview);
+        setError(response.data.renderError ?? '');
+      } else if (!response.success) {
+        setPreview(null);
+        setError(response.error || 'Could not render the template');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleTestSend() {
+    setError('');
+    setMessage('');
+    const values = getValues();
+    if (!values) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await templatesApi.testSend(values);
+      if (response.success && 'data' in response) {
+        setMessage(`Test sent to ${response.data.sentTo}. Open Mailpit to see it.`);
+      } else if (!response.success) {
+        setError(response.error || 'Could not send the test');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <div className="container mx-auto py-10 px-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold tracking-tight">Email Templates</h1>
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+            Back to dashboard
+          </Link>
+        </header>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Preview</CardTitle>
+            <CardDescription>
+              Render a template with the context a notification would get. Without a context name,
+              the parameters are used as the template context.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template">Template</Label>
+                <select
+                  id="template"
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                  className={selectClassName}
+                  disabled={isLoading}
+                >
+                  <option value="">Choose a template</option>
+                  {templates.map((template) => (
+                    <option key={template.name} value={template.name}>
+                      {template.name} ({template.format})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contextName">Context</Label>
+                <select
+                  id="contextName"
+                  value={contextName}
+                  onChange={(e) => {
+                    setContextName(e.target.value);
+                    setParameters(formatParameters(e.target.value));
+                  }}
+                  className={selectClassName}
+                  disabled={isLoading}
+                >
+                  <option value="">None (parameters are the context)</option>
+                  {contextNames.map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="parameters">Parameters (JSON)</Label>
+              <Textarea
+                id="parameters"
+                value={parameters}
+                onChange={(e) => setParameters(e.target.value)}
+                className="min-h-32 font-mono text-sm"
+                disabled={isLoading}
+              />
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription className="whitespace-pre-wrap">{error}</AlertDescription>
+              </Alert>
+            )}
+            {message && (
+              <Alert>
+                <AlertDescription>{message}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handlePreview} disabled={isLoading || !templateName}>
+                {isLoading ? 'Working...' : 'Preview'}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleTestSend}
+                disabled={isLoading || !templateName}
+              >
+                Send test to me
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {preview && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{preview.subject ?? 'No subject'}</CardTitle>
+              <CardDescription>
+                {preview.publishedVersion
+                  ? `Published version ${preview.publishedVersion}`
+                  : 'Template files'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {preview.html !== null && (
+                <div className="flex flex-wrap items-start gap-6">
+                  {PREVIEW_WIDTHS.map(({ label, width }) => (
+                    <div key={label} className="space-y-2">
+                      <p className="text-sm font-medium">
+                        {label} ({width}px)
+                      </p>
+                      <iframe
+                        title={`${label} preview`}
+                        sandbox=""
+                        srcDoc={preview.html as string}
+                        style={{ width }}
+                        className="h-[32rem] rounded-md border"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Plain text</p>
+                <pre className="whitespace-pre-wrap rounded-md bg-muted p-3 text-sm">
+                  {preview.text}
+                </pre>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
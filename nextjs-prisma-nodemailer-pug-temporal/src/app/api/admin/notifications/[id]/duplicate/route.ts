@@ -0,0 +1,90 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import type { WriteApiResponse } from '../../../../../../lib/api-clients/core';
+import { logger } from '../../../../../../lib/logger';
+import { MANAGE_NOTIFICATIONS_PERMISSION } from '../../../../../../lib/permissions';
+import {
+  type DuplicateNotificationValues,
+  duplicateNotificationSchema,
+} from '../../../../../../lib/schemas/admin-notifications';
+import { duplicateNotification } from '../../../../../../lib/services/notification-admin';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../../../lib/with-auth';
+
+type DuplicateNotificationSuccess = { notificationId: number };
+type DuplicateNotificationValidationError = z.ZodFlattenedError<DuplicateNotificationValues>;
+export type DuplicateNotificationApiResponse = WriteApiResponse<
+  DuplicateNotificationSuccess,
+  DuplicateNotificationValidationError
+>;
+type DuplicateNotificationNextResponse = NextResponse<DuplicateNotificationApiResponse>;
+
+async function duplicateNotificationHandler(
+  req: NextRequest,
+  { params }: AuthenticatedRouteContext<{ id: string }>,
+): Promise<DuplicateNotificationNextResponse> {
+  try {
+    const body = await req.json();
+    const overrides = duplicateNotificationSchema.parse(body);
+
+    const { id } = await params;
+    const notificationId = Number.parseInt(id, 10);
+    const result = Number.isNaN(notificationId)
+      ? 'not_found'
+      : await duplicateNotification(notificationId, overrides);
+
+    if (result === 'not_found') {
+      return NextResponse.json(
+        { success: false, error: 'Notification not found' },
+        { status: 404 },
+      );
+    }
+    if (result === 'recipient_mismatch') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Regular notifications take a userId and one-off notifications an emailOrPhone',
+        },
+        { status: 400 },
+      );
+    }
+    if (result === 'recipient_bound') {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            "This notification has a link to its recipient's account and can't be sent to anyone else",
+        },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = error as z.ZodError<DuplicateNotificationValues>;
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: validationError.flatten(),
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Duplicate notification error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const POST = withAuth(duplicateNotificationHandler, {
+  permissions: [MANAGE_NOTIFICATIONS_PERMISSION],
+});
@@ -0,0 +1,47 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import type { WriteApiResponse } from '../../../../../../lib/api-clients/core';
+import { logger } from '../../../../../../lib/logger';
+import { MANAGE_NOTIFICATIONS_PERMISSION } from '../../../../../../lib/permissions';
+import { duplicateNotification } from '../../../../../../lib/services/notification-admin';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../../../lib/with-auth';
+
+type ResendNotificationSuccess = { notificationId: number };
+export type ResendNotificationApiResponse = WriteApiResponse<ResendNotificationSuccess>;
+type ResendNotificationNextResponse = NextResponse<ResendNotificationApiResponse>;
+
+async function resendNotificationHandler(
+  _req: NextRequest,
+  { params }: AuthenticatedRouteContext<{ id: string }>,
+): Promise<ResendNotificationNextResponse> {
+  try {
+    const { id } = await params;
+    const notificationId = Number.parseInt(id, 10);
+    const result = Number.isNaN(notificationId)
+      ? 'not_found'
+      : await duplicateNotification(notificationId);
+
+    if (typeof result === 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Notification not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Resend notification error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const POST = withAuth(resendNotificationHandler, {
+  permissions: [MANAGE_NOTIFICATIONS_PERMISSION],
+});
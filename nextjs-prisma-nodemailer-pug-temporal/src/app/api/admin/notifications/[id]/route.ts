@@ -0,0 +1,50 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import type { ReadApiResponse } from '../../../../../lib/api-clients/core';
+import { logger } from '../../../../../lib/logger';
+import { VIEW_NOTIFICATIONS_PERMISSION } from '../../../../../lib/permissions';
+import {
+  type AdminNotificationDetail,
+  getNotificationDetail,
+} from '../../../../../lib/services/notification-admin';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../../lib/with-auth';
+
+type AdminNotificationSuccess = { notification: AdminNotificationDetail };
+export type AdminNotificationApiResponse = ReadApiResponse<AdminNotificationSuccess>;
+type AdminNotificationNextResponse = NextResponse<AdminNotificationApiResponse>;
+
+async function adminNotificationHandler(
+  _req: NextRequest,
+  { params }: AuthenticatedRouteContext<{ id: string }>,
+): Promise<AdminNotificationNextResponse> {
+  try {
+    const { id } = await params;
+    const notificationId = Number.parseInt(id, 10);
+    const notification = Number.isNaN(notificationId)
+      ? null
+      : await getNotificationDetail(notificationId);
+
+    if (!notification) {
+      return NextResponse.json(
+        { success: false, error: 'Notification not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ success: true, data: { notification } });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Admin notification detail error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = withAuth(adminNotificationHandler, {
+  permissions: [VIEW_NOTIFICATIONS_PERMISSION],
+});
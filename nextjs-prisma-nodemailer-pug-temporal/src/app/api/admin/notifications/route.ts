@@ -0,0 +1,72 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import type { WriteApiResponse } from '../../../../lib/api-clients/core';
+import { logger } from '../../../../lib/logger';
+import { VIEW_NOTIFICATIONS_PERMISSION } from '../../../../lib/permissions';
+import {
+  type NotificationSearchValues,
+  notificationSearchSchema,
+} from '../../../../lib/schemas/admin-notifications';
+import {
+  ADMIN_NOTIFICATIONS_PAGE_SIZE,
+  type AdminNotificationItem,
+  searchNotifications,
+} from '../../../../lib/services/notification-admin';
+import { withAuth } from '../../../../lib/with-auth';
+
+type AdminNotificationsSuccess = {
+  notifications: AdminNotificationItem[];
+  total: number;
+  pageSize: number;
+};
+type AdminNotificationsValidationError = z.ZodFlattenedError<NotificationSearchValues>;
+// A read endpoint, but filters are validated like a form
+export type AdminNotificationsApiResponse = WriteApiResponse<
+  AdminNotificationsSuccess,
+  AdminNotificationsValidationError
+>;
+type AdminNotificationsNextResponse = NextResponse<AdminNotificationsApiResponse>;
+
+async function adminNotificationsHandler(
+  req: NextRequest,
+): Promise<AdminNotificationsNextResponse> {
+  try {
+    const searchParams = Object.fromEntries(
+      [...req.nextUrl.searchParams].filter(([, value]) => value !== ''),
+    );
+    const filters = notificationSearchSchema.parse(searchParams);
+    const { notifications, total } = await searchNotifications(filters);
+
+    return NextResponse.json({
+      success: true,
+      data: { notifications, total, pageSize: ADMIN_NOTIFICATIONS_PAGE_SIZE },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = error as z.ZodError<NotificationSearchValues>;
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: validationError.flatten(),
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Admin notifications error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = withAuth(adminNotificationsHandler, {
+  permissions: [VIEW_NOTIFICATIONS_PERMISSION],
+});
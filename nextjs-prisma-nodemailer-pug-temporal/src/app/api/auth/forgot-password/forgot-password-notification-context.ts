@@ -5,6 +5,7 @@ import type { ContextGenerator } from 'vintasend';
 export class ForgotPasswordContextGenerator implements ContextGenerator {
   async generate(params: { token: string }): Promise<{
     firstName: string | null;
+    locale: string;
     resetPasswordLink: string;
   }> {
     const adapter = new PrismaPg({
@@ -25,6 +26,7 @@ export class ForgotPasswordContextGenerator implements ContextGenerator {
 
     return {
       firstName: token.user.firstName,
+      locale: token.user.locale,
       resetPasswordLink: `${APP_DOMAIN}/auth/reset-password/${params.token}/`,
     };
   }
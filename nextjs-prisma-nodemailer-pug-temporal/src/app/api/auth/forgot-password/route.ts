@@ -2,6 +2,8 @@ import { PrismaClient } from '@prisma/client';
 import { NextResponse } from 'next/server';
 import * as z from 'zod';
 import type { WriteApiResponse } from '../../../../lib/api-clients/core';
+import { getClientIp } from '../../../../lib/client-info';
+import { checkRateLimits, tooManyRequestsResponse } from '../../../../lib/rate-limit';
 import type { ForgotPasswordValues } from '../../../../lib/schemas/auth';
 import { forgotPasswordSchema } from '../../../../lib/schemas/auth';
 import { generateToken } from '../../../../lib/services/auth';
@@ -21,6 +23,14 @@ export async function POST(req: Request): Promise<ForgotPasswordNextResponse> {
   try {
     const body = await req.json();
     const { email } = forgotPasswordSchema.parse(body);
+    const rateLimit = await checkRateLimits([
+      { key: `forgot-password:ip:${getClientIp(req)}`, limit: 10, windowSeconds: 60 * 60 },
+      { key: `forgot-password:email:${email.toLowerCase()}`, limit: 3, windowSeconds: 60 * 60 },
+    ]);
+    if (!rateLimit.allowed) {
+      return tooManyRequestsResponse(rateLimit.retryAfterSeconds);
+    }
+
     const adapter = new PrismaPg({
       connectionString: process.env.DATABASE_URL!,
     });
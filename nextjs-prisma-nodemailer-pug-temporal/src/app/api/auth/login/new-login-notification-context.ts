@@ -0,0 +1,36 @@
+import type { ContextGenerator } from 'vintasend';
+import { formatDate } from '../../../../lib/i18n';
+import { prisma } from '../../../../lib/prisma';
+
+export class NewLoginNotificationContextGenerator implements ContextGenerator {
+  async generate(params: {
+    userId: number;
+    userAgent: string;
+    ipAddress: string;
+    loggedInAt: string;
+  }): Promise<{
+    firstName: string | null;
+    locale: string;
+    userAgent: string;
+    ipAddress: string;
+    loggedInAt: string;
+    resetPasswordLink: string;
+  }> {
+    const user = await prisma.user.findUnique({
+      where: { id: params.userId },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return {
+      firstName: user.firstName,
+      locale: user.locale,
+      userAgent: params.userAgent,
+      ipAddress: params.ipAddress,
+      loggedInAt: formatDate(user.locale, params.loggedInAt),
+      resetPasswordLink: `${process.env.APP_DOMAIN}/auth/forgot-password`,
+    };
+  }
+}
@@ -3,11 +3,15 @@ import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
 import { NextResponse } from 'next/server';
 import * as z from 'zod';
 import type { WriteApiResponse } from '../../../../lib/api-clients/core';
+import { getClientIp, getUserAgent } from '../../../../lib/client-info';
 import { type LoginValues, loginSchema } from '../../../../lib/schemas/auth';
-import { generateToken, verifyPassword } from '../../../../lib/services/auth';
+import { verifyPassword } from '../../../../lib/services/auth';
+import { alertOnNewLoginDevice } from '../../../../lib/services/login-devices';
+import { createSession } from '../../../../lib/services/sessions';
+import { setSessionCookies } from '../../../../lib/session-cookies';
 import { PrismaPg } from '@prisma/adapter-pg';
 
-type LoginSuccess = { token: string };
+type LoginSuccess = null;
 type LoginValidationError = z.ZodFlattenedError<LoginValues>;
 export type LoginApiResponse = WriteApiResponse<LoginSuccess, LoginValidationError>;
 type LoginNextResponse = NextResponse<LoginApiResponse>;
@@ -37,9 +41,17 @@ export async function POST(req: Request): Promise<LoginNextResponse> {
       );
     }
 
-    const token = generateToken({ userId: user.id });
+    await alertOnNewLoginDevice(user.id, {
+      userAgent: getUserAgent(req),
+      ipAddress: getClientIp(req),
+    });
 
-    return NextResponse.json({ success: true, data: { token } });
+    const response: LoginNextResponse = NextResponse.json({
+      success: true,
+      message: 'Logged in successfully',
+    });
+    setSessionCookies(response, await createSession(user.id));
+    return response;
   } catch (error) {
     if (error instanceof z.ZodError) {
       const validationError = error as z.ZodError<LoginValues>;
@@ -0,0 +1,35 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import type { WriteApiResponse } from '../../../../lib/api-clients/core';
+import { logger } from '../../../../lib/logger';
+import { REFRESH_TOKEN_COOKIE, revokeSession } from '../../../../lib/services/sessions';
+import { clearSessionCookies } from '../../../../lib/session-cookies';
+
+export type LogoutApiResponse = WriteApiResponse;
+type LogoutNextResponse = NextResponse<LogoutApiResponse>;
+
+export async function POST(req: NextRequest): Promise<LogoutNextResponse> {
+  try {
+    const refreshToken = req.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+    if (refreshToken) {
+      await revokeSession(refreshToken);
+    }
+
+    const response: LogoutNextResponse = NextResponse.json({
+      success: true,
+      message: 'Logged out successfully',
+    });
+    clearSessionCookies(response);
+    return response;
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Logout error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import type { ContextGenerator } from 'vintasend';
+import { formatDate } from '../../../../lib/i18n';
+import { prisma } from '../../../../lib/prisma';
+
+export class MagicLinkNotificationContextGenerator implements ContextGenerator {
+  async generate(params: { token: string }): Promise<{
+    firstName: string | null;
+    locale: string;
+    magicLink: string;
+    expiresAt: string;
+  }> {
+    const token = await prisma.token.findUnique({
+      where: { token: params.token },
+      select: { user: true, expiresAt: true },
+    });
+
+    if (!token || !token.user) {
+      throw new Error('Token not found');
+    }
+
+    return {
+      firstName: token.user.firstName,
+      locale: token.user.locale,
+      magicLink: `${process.env.APP_DOMAIN}/auth/magic/${params.token}/`,
+      expiresAt: formatDate(token.user.locale, token.expiresAt),
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { NextResponse } from 'next/server';
+import * as z from 'zod';
+import type { WriteApiResponse } from '../../../../lib/api-clients/core';
+import { getClientIp } from '../../../../lib/client-info';
+import { logger } from '../../../../lib/logger';
+import { prisma } from '../../../../lib/prisma';
+import { checkRateLimits, tooManyRequestsResponse } from '../../../../lib/rate-limit';
+import { type MagicLinkValues, magicLinkSchema } from '../../../../lib/schemas/auth';
+import { sendMagicLink } from '../../../../lib/services/magic-links';
+
+type MagicLinkSuccess = null;
+type MagicLinkValidationError = z.ZodFlattenedError<MagicLinkValues>;
+export type MagicLinkApiResponse = WriteApiResponse<MagicLinkSuccess, MagicLinkValidationError>;
+type MagicLinkNextResponse = NextResponse<MagicLinkApiResponse>;
+
+export async function POST(req: Request): Promise<MagicLinkNextResponse> {
+  try {
+    const body = await req.json();
+    const { email } = magicLinkSchema.parse(body);
+    const rateLimit = await checkRateLimits([
+      { key: `magic-link:ip:${getClientIp(req)}`, limit: 10, windowSeconds: 60 * 60 },
+      { key: `magic-link:email:${email.toLowerCase()}`, limit: 5, windowSeconds: 60 * 60 },
+    ]);
+    if (!rateLimit.allowed) {
+      return tooManyRequestsResponse(rateLimit.retryAfterSeconds);
+    }
+
+    const user = await prisma.user.findUnique({ where: { email } });
+
+    // Unverified accounts have to log in with their password after verifying, like they do today
+    if (user?.isEmailVerified) {
+      await sendMagicLink(user.id);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'If an account exists, a login link has been sent',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = error as z.ZodError<MagicLinkValues>;
+      return NextResponse.json(
+        { success: false, error: 'Validation error', details: validationError.flatten() },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Magic link error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
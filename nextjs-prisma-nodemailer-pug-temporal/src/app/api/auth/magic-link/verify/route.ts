@@ -0,0 +1,64 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { NextResponse } from 'next/server';
+import * as z from 'zod';
+import type { WriteApiResponse } from '../../../../../lib/api-clients/core';
+import { getClientIp, getUserAgent } from '../../../../../lib/client-info';
+import { logger } from '../../../../../lib/logger';
+import { type MagicLinkLoginValues, magicLinkLoginSchema } from '../../../../../lib/schemas/auth';
+import { alertOnNewLoginDevice } from '../../../../../lib/services/login-devices';
+import { consumeMagicLink } from '../../../../../lib/services/magic-links';
+import { createSession } from '../../../../../lib/services/sessions';
+import { setSessionCookies } from '../../../../../lib/session-cookies';
+
+type MagicLinkLoginSuccess = null;
+type MagicLinkLoginValidationError = z.ZodFlattenedError<MagicLinkLoginValues>;
+export type MagicLinkLoginApiResponse = WriteApiResponse<
+  MagicLinkLoginSuccess,
+  MagicLinkLoginValidationError
+>;
+type MagicLinkLoginNextResponse = NextResponse<MagicLinkLoginApiResponse>;
+
+export async function POST(req: Request): Promise<MagicLinkLoginNextResponse> {
+  try {
+    const body = await req.json();
+    const { token } = magicLinkLoginSchema.parse(body);
+
+    const userId = await consumeMagicLink(token);
+    if (userId === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid or expired login link' },
+        { status: 400 },
+      );
+    }
+
+    await alertOnNewLoginDevice(userId, {
+      userAgent: getUserAgent(req),
+      ipAddress: getClientIp(req),
+    });
+
+    const response: MagicLinkLoginNextResponse = NextResponse.json({
+      success: true,
+      message: 'Logged in successfully',
+    });
+    setSessionCookies(response, await createSession(userId));
+    return response;
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = error as z.ZodError<MagicLinkLoginValues>;
+      return NextResponse.json(
+        { success: false, error: 'Validation error', details: validationError.flatten() },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Magic link login error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
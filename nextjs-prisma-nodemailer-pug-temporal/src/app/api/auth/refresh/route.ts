@@ -0,0 +1,42 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import type { WriteApiResponse } from '../../../../lib/api-clients/core';
+import { logger } from '../../../../lib/logger';
+import { REFRESH_TOKEN_COOKIE, rotateSession } from '../../../../lib/services/sessions';
+import { clearSessionCookies, setSessionCookies } from '../../../../lib/session-cookies';
+
+export type RefreshSessionApiResponse = WriteApiResponse;
+type RefreshSessionNextResponse = NextResponse<RefreshSessionApiResponse>;
+
+export async function POST(req: NextRequest): Promise<RefreshSessionNextResponse> {
+  try {
+    const refreshToken = req.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+    const tokens = refreshToken ? await rotateSession(refreshToken) : null;
+
+    if (!tokens) {
+      const response: RefreshSessionNextResponse = NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 },
+      );
+      clearSessionCookies(response);
+      return response;
+    }
+
+    const response: RefreshSessionNextResponse = NextResponse.json({
+      success: true,
+      message: 'Session refreshed',
+    });
+    setSessionCookies(response, tokens);
+    return response;
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Refresh session error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { NextResponse } from 'next/server';
+import * as z from 'zod';
+import type { WriteApiResponse } from '../../../../lib/api-clients/core';
+import { logger } from '../../../../lib/logger';
+import { prisma } from '../../../../lib/prisma';
+import {
+  type ResendVerificationValues,
+  resendVerificationSchema,
+} from '../../../../lib/schemas/auth';
+import {
+  getResendVerificationWait,
+  sendEmailVerification,
+} from '../../../../lib/services/email-verification';
+
+type ResendVerificationSuccess = null;
+type ResendVerificationValidationError = z.ZodFlattenedError<ResendVerificationValues>;
+export type ResendVerificationApiResponse = WriteApiResponse<
+  ResendVerificationSuccess,
+  ResendVerificationValidationError
+>;
+type ResendVerificationNextResponse = NextResponse<ResendVerificationApiResponse>;
+
+export async function POST(req: Request): Promise<ResendVerificationNextResponse> {
+  try {
+    const body = await req.json();
+    const { email } = resendVerificationSchema.parse(body);
+    const user = await prisma.user.findUnique({ where: { email } });
+
+    // Unknown and already verified emails get the same answer, so this can't be used to find accounts
+    if (user && !user.isEmailVerified) {
+      const waitSeconds = await getResendVerificationWait(user.id);
+      if (waitSeconds > 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Please wait ${waitSeconds} seconds before requesting another email`,
+          },
+          { status: 429, headers: { 'Retry-After': String(waitSeconds) } },
+        );
+      }
+
+      logger.info('Resending email verification notification', { userId: user.id });
+      await sendEmailVerification(user.id);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'If the account still needs verification, a new email has been sent',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = error as z.ZodError<ResendVerificationValues>;
+      return NextResponse.json(
+        { success: false, error: 'Validation error', details: validationError.flatten() },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Resend verification error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import type { ContextGenerator } from 'vintasend';
+import { formatDate } from '../../../../lib/i18n';
+import { prisma } from '../../../../lib/prisma';
+
+export class PasswordChangedNotificationContextGenerator implements ContextGenerator {
+  async generate(params: { userId: number; changedAt: string }): Promise<{
+    firstName: string | null;
+    locale: string;
+    changedAt: string;
+    resetPasswordLink: string;
+    contactEmail: string;
+  }> {
+    const user = await prisma.user.findUnique({
+      where: { id: params.userId },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return {
+      firstName: user.firstName,
+      locale: user.locale,
+      changedAt: formatDate(user.locale, params.changedAt),
+      resetPasswordLink: `${process.env.APP_DOMAIN}/auth/forgot-password`,
+      contactEmail: process.env.CONTACT_EMAIL || 'hello@example.com',
+    };
+  }
+}
@@ -5,6 +5,8 @@ import * as z from 'zod';
 import type { WriteApiResponse } from '../../../../lib/api-clients/core';
 import { type PasswordResetValues, passwordResetSchema } from '../../../../lib/schemas/auth';
 import { hashPassword, verifyToken } from '../../../../lib/services/auth';
+import { getNotificationServiceWithQueue } from '../../../../lib/services/notifications-with-queue';
+import { revokeAllSessions } from '../../../../lib/services/sessions';
 import { PrismaPg } from '@prisma/adapter-pg';
 
 type PasswordResetSuccess = null;
@@ -41,13 +43,30 @@ export async function POST(req: Request): Promise<PasswordResetNextResponse> {
       );
     }
 
+    const userId = Number.parseInt(decoded.userId);
     const hashedPassword = await hashPassword(password);
     await prisma.user.update({
-      where: { id: Number.parseInt(decoded.userId) },
+      where: { id: userId },
       data: { password: hashedPassword },
     });
 
     await prisma.token.delete({ where: { id: tokenRecord.id } });
+    // Whoever knew the old password may still be logged in somewhere
+    await revokeAllSessions(userId);
+
+    const notificationService = await getNotificationServiceWithQueue();
+    await notificationService.createNotification({
+      userId,
+      notificationType: 'EMAIL',
+      title: 'Your password was changed',
+      contextName: 'passwordChanged',
+      contextParameters: { userId, changedAt: new Date().toISOString() },
+      sendAfter: new Date(),
+      bodyTemplate: './src/email-templates/auth/password-changed/password-changed-body.html.pug',
+      subjectTemplate:
+        './src/email-templates/auth/password-changed/password-changed-subject.txt.pug',
+      extraParams: {},
+    });
 
     return NextResponse.json({ success: true, message: 'Password updated successfully' });
   } catch (error) {
@@ -5,6 +5,7 @@ import type { ContextGenerator } from 'vintasend';
 export class EmailVerificationNotificationContextGenerator implements ContextGenerator {
   async generate(params: { token: string }): Promise<{
     firstName: string | null;
+    locale: string;
     verificationLink: string;
   }> {
     const adapter = new PrismaPg({
@@ -25,6 +26,7 @@ export class EmailVerificationNotificationContextGenerator implements ContextGen
 
     return {
       firstName: token.user.firstName,
+      locale: token.user.locale,
       verificationLink: `${APP_DOMAIN}/auth/verify-email/${params.token}/`,
     };
   }
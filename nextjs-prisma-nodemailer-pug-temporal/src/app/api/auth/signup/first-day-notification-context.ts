@@ -3,7 +3,9 @@ import { PrismaClient } from '@prisma/client';
 import type { ContextGenerator } from 'vintasend';
 
 export class FirstDayotificationContextGenerator implements ContextGenerator {
-  async generate(params: { userId: number }): Promise<{ firstName: string | null }> {
+  async generate(params: {
+    userId: number;
+  }): Promise<{ firstName: string | null; locale: string; dashboardLink: string }> {
     const adapter = new PrismaPg({
       connectionString: process.env.DATABASE_URL!,
     });
@@ -19,6 +21,8 @@ export class FirstDayotificationContextGenerator implements ContextGenerator {
 
     return {
       firstName: user.firstName,
+      locale: user.locale,
+      dashboardLink: `${process.env.APP_DOMAIN}/dashboard`,
     };
   }
 }
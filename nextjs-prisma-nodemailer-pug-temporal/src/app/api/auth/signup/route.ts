@@ -3,11 +3,18 @@ import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
 import { NextResponse } from 'next/server';
 import * as z from 'zod';
 import type { WriteApiResponse } from '../../../../lib/api-clients/core';
+import { getClientIp } from '../../../../lib/client-info';
+import { resolveLocale } from '../../../../lib/i18n';
+import { getIdempotencyKey } from '../../../../lib/idempotency';
 import { logger } from '../../../../lib/logger';
+import { checkRateLimits, tooManyRequestsResponse } from '../../../../lib/rate-limit';
 import { type SignupValues, signupSchema } from '../../../../lib/schemas/auth';
 import { hashPassword } from '../../../../lib/services/auth';
-import { generateToken } from '../../../../lib/services/auth';
-import { getNotificationServiceWithQueue } from '../../../../lib/services/notifications-with-queue';
+import { addEmailVerificationToOutbox } from '../../../../lib/services/email-verification';
+import {
+  addToOutbox,
+  relayOutboxNotifications,
+} from '../../../../lib/services/notification-outbox';
 import { PrismaPg } from '@prisma/adapter-pg';
 
 type SignupSuccess = { message: string };
@@ -15,73 +22,119 @@ type SignupValidationError = z.ZodFlattenedError<SignupValues>;
 export type SignupApiResponse = WriteApiResponse<SignupSuccess, SignupValidationError>;
 type SignupNextResponse = NextResponse<SignupApiResponse>;
 
+/**
+ * Whether a signup with this idempotency key already went through. Its verification email
+ * carries the key.
+ */
+async function isReplayedSignup(prisma: PrismaClient, idempotencyKey: string | undefined) {
+  if (!idempotencyKey) {
+    return false;
+  }
+  const previousSignup = await prisma.notification.findUnique({
+    where: { idempotencyKey },
+    select: { id: true },
+  });
+  return previousSignup !== null;
+}
+
+function signupCreatedResponse(): SignupNextResponse {
+  return NextResponse.json(
+    { success: true, message: 'User created successfully' },
+    { status: 201 },
+  );
+}
+
 export async function POST(req: Request): Promise<SignupNextResponse> {
   try {
     const body = await req.json();
-    const { email, password, firstName, lastName } = signupSchema.parse(body);
+    const { email, password, firstName, lastName, locale } = signupSchema.parse(body);
+    const idempotencyKey = getIdempotencyKey(req, `signup:${email.toLowerCase()}`);
+
     const adapter = new PrismaPg({
       connectionString: process.env.DATABASE_URL!,
     });
     const prisma = new PrismaClient({ adapter });
+    // A retry of a signup that went through gets the same answer instead of 'Email already
+    // exists', before the rate limits so retries don't use them up
+    if (await isReplayedSignup(prisma, idempotencyKey)) {
+      return signupCreatedResponse();
+    }
+
+    const rateLimit = await checkRateLimits([
+      { key: `signup:ip:${getClientIp(req)}`, limit: 10, windowSeconds: 60 * 60 },
+      { key: `signup:email:${email.toLowerCase()}`, limit: 3, windowSeconds: 60 * 60 },
+    ]);
+    if (!rateLimit.allowed) {
+      return tooManyRequestsResponse(rateLimit.retryAfterSeconds);
+    }
+
     const existingUser = await prisma.user.findUnique({ where: { email } });
     if (existingUser) {
       return NextResponse.json({ success: false, error: 'Email already exists' }, { status: 400 });
     }
 
     const hashedPassword = await hashPassword(password);
-    const user = await prisma.user.create({
-      data: {
-        email,
-        password: hashedPassword,
-        firstName,
-        lastName,
-      },
-    });
-
-    const verificationToken = generateToken({ userId: user.id }, '24h');
-    await prisma.token.create({
-      data: {
-        token: verificationToken,
-        type: 'EMAIL_VERIFICATION',
-        userId: user.id,
-        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
-      },
-    });
-
-    const notificationService = await getNotificationServiceWithQueue();
-    logger.info('Sending email verification notification', { userId: user.id });
-    await notificationService.createNotification({
-      userId: user.id,
-      notificationType: 'EMAIL',
-      title: 'Email Verification',
-      contextName: 'emailVerification',
-      contextParameters: { token: verificationToken },
-      sendAfter: new Date(),
-      bodyTemplate: './src/email-templates/auth/verify-email/verify-email-body.html.pug',
-      subjectTemplate: './src/email-templates/auth/verify-email/verify-email-subject.txt.pug',
-      extraParams: {},
-    });
-
     const tomorrowAtNine = new Date();
     tomorrowAtNine.setDate(tomorrowAtNine.getDate() + 1);
     tomorrowAtNine.setHours(9, 0, 0, 0);
-    logger.info('Sending first day notification', { userId: user.id });
-    await notificationService.createNotification({
-      userId: user.id,
-      notificationType: 'EMAIL',
-      title: 'First day using the App',
-      contextName: 'firstDay',
-      contextParameters: { userId: user.id },
-      sendAfter: tomorrowAtNine,
-      bodyTemplate: './src/email-templates/auth/verify-email/verify-email-body.html.pug',
-      subjectTemplate: './src/email-templates/auth/verify-email/verify-email-subject.txt.pug',
-      extraParams: {},
-    });
 
-    return NextResponse.json(
-      { success: true, message: 'User created successfully' },
-      { status: 201 },
-    );
+    // The user and their notifications are stored together, so no user is left without them
+    const signup = await prisma
+      .$transaction(async (tx) => {
+        const user = await tx.user.create({
+          data: {
+            email,
+            password: hashedPassword,
+            firstName,
+            lastName,
+            locale: resolveLocale(locale),
+          },
+        });
+
+        const notificationIds = [
+          await addEmailVerificationToOutbox(tx, user.id, idempotencyKey),
+          await addToOutbox(tx, {
+            userId: user.id,
+            notificationType: 'EMAIL',
+            title: 'First day using the App',
+            contextName: 'firstDay',
+            contextParameters: { userId: user.id },
+            sendAfter: tomorrowAtNine,
+            bodyTemplate: './src/email-templates/onboarding/first-day/first-day-body.html.pug',
+            subjectTemplate: './src/email-templates/onboarding/first-day/first-day-subject.txt.pug',
+          }),
+          await addToOutbox(tx, {
+            userId: user.id,
+            notificationType: 'IN_APP',
+            title: 'Welcome',
+            contextName: 'firstDay',
+            contextParameters: { userId: user.id },
+            sendAfter: new Date(),
+            bodyTemplate: './src/email-templates/in-app/welcome/welcome-body.txt.pug',
+            subjectTemplate: './src/email-templates/in-app/welcome/welcome-subject.txt.pug',
+          }),
+        ];
+        return { user, notificationIds };
+      })
+      .catch((error: unknown) => {
+        // A concurrent signup with the same email, or the same idempotency key, committed first
+        if (error instanceof PrismaClientKnownRequestError && error.code === 'P2002') {
+          return null;
+        }
+        throw error;
+      });
+    if (!signup) {
+      if (await isReplayedSignup(prisma, idempotencyKey)) {
+        return signupCreatedResponse();
+      }
+      return NextResponse.json({ success: false, error: 'Email already exists' }, { status: 400 });
+    }
+
+    const { user, notificationIds } = signup;
+    logger.info('Sending signup notifications', { userId: user.id, notificationIds });
+    await relayOutboxNotifications(notificationIds);
+
+    return signupCreatedResponse();
   } catch (error) {
     if (error instanceof z.ZodError) {
       const validationError = error as z.ZodError<SignupValues>;
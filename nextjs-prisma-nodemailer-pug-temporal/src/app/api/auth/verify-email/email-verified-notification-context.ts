@@ -0,0 +1,26 @@
+import type { ContextGenerator } from 'vintasend';
+import { prisma } from '../../../../lib/prisma';
+
+export class EmailVerifiedNotificationContextGenerator implements ContextGenerator {
+  async generate(params: { userId: number }): Promise<{
+    firstName: string | null;
+    locale: string;
+    email: string;
+    loginLink: string;
+  }> {
+    const user = await prisma.user.findUnique({
+      where: { id: params.userId },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return {
+      firstName: user.firstName,
+      locale: user.locale,
+      email: user.email,
+      loginLink: `${process.env.APP_DOMAIN}/auth/login`,
+    };
+  }
+}
@@ -5,6 +5,7 @@ import * as z from 'zod';
 import type { WriteApiResponse } from '../../../../lib/api-clients/core';
 import { type VerifyEmailValues, verifyEmailSchema } from '../../../../lib/schemas/auth';
 import { verifyToken } from '../../../../lib/services/auth';
+import { getNotificationServiceWithQueue } from '../../../../lib/services/notifications-with-queue';
 
 type VerifyEmailSuccess = null;
 type VerifyEmailValidationError = z.ZodFlattenedError<VerifyEmailValues>;
@@ -36,13 +37,27 @@ export async function POST(req: Request): Promise<VerifyEmailNextResponse> {
       );
     }
 
+    const userId = Number.parseInt(decoded.userId);
     await prisma.user.update({
-      where: { id: Number.parseInt(decoded.userId) },
+      where: { id: userId },
       data: { isEmailVerified: true },
     });
 
     await prisma.token.delete({ where: { id: tokenRecord.id } });
 
+    const notificationService = await getNotificationServiceWithQueue();
+    await notificationService.createNotification({
+      userId,
+      notificationType: 'EMAIL',
+      title: 'Your email is verified',
+      contextName: 'emailVerified',
+      contextParameters: { userId },
+      sendAfter: new Date(),
+      bodyTemplate: './src/email-templates/auth/email-verified/email-verified-body.html.pug',
+      subjectTemplate: './src/email-templates/auth/email-verified/email-verified-subject.txt.pug',
+      extraParams: {},
+    });
+
     return NextResponse.json({ success: true, message: 'Email verified successfully' });
   } catch (error) {
     if (error instanceof z.ZodError) {
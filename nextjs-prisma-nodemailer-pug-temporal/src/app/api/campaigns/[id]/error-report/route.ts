@@ -0,0 +1,44 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import type { GenericErrorApiResponse } from '../../../../../lib/api-clients/core';
+import { logger } from '../../../../../lib/logger';
+import { SEND_CAMPAIGNS_PERMISSION } from '../../../../../lib/permissions';
+import { getCampaignErrorReport } from '../../../../../lib/services/campaigns';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../../lib/with-auth';
+
+// Answers with the CSV itself, errors keep the JSON shape of the other routes
+async function campaignErrorReportHandler(
+  _req: NextRequest,
+  { params }: AuthenticatedRouteContext<{ id: string }>,
+): Promise<NextResponse | NextResponse<GenericErrorApiResponse>> {
+  try {
+    const { id } = await params;
+    const campaignId = Number.parseInt(id, 10);
+    const report = Number.isNaN(campaignId) ? null : await getCampaignErrorReport(campaignId);
+
+    if (report === null) {
+      return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 });
+    }
+
+    return new NextResponse(report, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="campaign-${campaignId}-errors.csv"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Campaign error report error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = withAuth(campaignErrorReportHandler, {
+  permissions: [SEND_CAMPAIGNS_PERMISSION],
+});
@@ -0,0 +1,42 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import type { ReadApiResponse } from '../../../../lib/api-clients/core';
+import { logger } from '../../../../lib/logger';
+import { SEND_CAMPAIGNS_PERMISSION } from '../../../../lib/permissions';
+import { type CampaignProgress, getCampaign } from '../../../../lib/services/campaigns';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../lib/with-auth';
+
+type CampaignSuccess = { campaign: CampaignProgress };
+export type CampaignApiResponse = ReadApiResponse<CampaignSuccess>;
+type CampaignNextResponse = NextResponse<CampaignApiResponse>;
+
+async function campaignHandler(
+  _req: NextRequest,
+  { params }: AuthenticatedRouteContext<{ id: string }>,
+): Promise<CampaignNextResponse> {
+  try {
+    const { id } = await params;
+    const campaignId = Number.parseInt(id, 10);
+    const campaign = Number.isNaN(campaignId) ? null : await getCampaign(campaignId);
+
+    if (!campaign) {
+      return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: { campaign } });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Campaign detail error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = withAuth(campaignHandler, {
+  permissions: [SEND_CAMPAIGNS_PERMISSION],
+});
@@ -0,0 +1,72 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import type { WriteApiResponse } from '../../../../../lib/api-clients/core';
+import { logger } from '../../../../../lib/logger';
+import { SEND_CAMPAIGNS_PERMISSION } from '../../../../../lib/permissions';
+import {
+  type CampaignRowsQueryValues,
+  campaignRowsQuerySchema,
+} from '../../../../../lib/schemas/campaigns';
+import {
+  CAMPAIGN_ROWS_PAGE_SIZE,
+  type CampaignRowItem,
+  getCampaignRows,
+} from '../../../../../lib/services/campaigns';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../../lib/with-auth';
+
+type CampaignRowsSuccess = { rows: CampaignRowItem[]; total: number; pageSize: number };
+type CampaignRowsValidationError = z.ZodFlattenedError<CampaignRowsQueryValues>;
+// A read endpoint, but filters are validated like a form
+export type CampaignRowsApiResponse = WriteApiResponse<
+  CampaignRowsSuccess,
+  CampaignRowsValidationError
+>;
+type CampaignRowsNextResponse = NextResponse<CampaignRowsApiResponse>;
+
+// The result of each CSV row, optionally only the ones with `status`
+async function campaignRowsHandler(
+  req: NextRequest,
+  { params }: AuthenticatedRouteContext<{ id: string }>,
+): Promise<CampaignRowsNextResponse> {
+  try {
+    const { id } = await params;
+    const campaignId = Number.parseInt(id, 10);
+    if (Number.isNaN(campaignId)) {
+      return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 });
+    }
+
+    const searchParams = Object.fromEntries(
+      [...req.nextUrl.searchParams].filter(([, value]) => value !== ''),
+    );
+    const query = campaignRowsQuerySchema.parse(searchParams);
+    const { rows, total } = await getCampaignRows(campaignId, query);
+
+    return NextResponse.json({
+      success: true,
+      data: { rows, total, pageSize: CAMPAIGN_ROWS_PAGE_SIZE },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = error as z.ZodError<CampaignRowsQueryValues>;
+      return NextResponse.json(
+        { success: false, error: 'Validation error', details: validationError.flatten() },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Campaign rows error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = withAuth(campaignRowsHandler, {
+  permissions: [SEND_CAMPAIGNS_PERMISSION],
+});
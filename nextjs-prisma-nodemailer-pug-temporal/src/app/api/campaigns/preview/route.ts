@@ -0,0 +1,55 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import type { WriteApiResponse } from '../../../../lib/api-clients/core';
+import { logger } from '../../../../lib/logger';
+import { SEND_CAMPAIGNS_PERMISSION } from '../../../../lib/permissions';
+import {
+  type CampaignPreviewValues,
+  campaignPreviewSchema,
+} from '../../../../lib/schemas/campaigns';
+import {
+  type CampaignCsvPreview,
+  getCampaignCsvPreview,
+  parseCampaignCsv,
+} from '../../../../lib/services/campaigns';
+import { withAuth } from '../../../../lib/with-auth';
+
+type CampaignPreviewSuccess = { preview: CampaignCsvPreview };
+type CampaignPreviewValidationError = z.ZodFlattenedError<CampaignPreviewValues>;
+export type CampaignPreviewApiResponse = WriteApiResponse<
+  CampaignPreviewSuccess,
+  CampaignPreviewValidationError
+>;
+type CampaignPreviewNextResponse = NextResponse<CampaignPreviewApiResponse>;
+
+// Validates the CSV with the column mapping without storing anything
+async function campaignPreviewHandler(req: NextRequest): Promise<CampaignPreviewNextResponse> {
+  try {
+    const body = await req.json();
+    const values = campaignPreviewSchema.parse(body);
+    const parsed = parseCampaignCsv(values);
+    if ('error' in parsed) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { preview: getCampaignCsvPreview(parsed.rows) },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = error as z.ZodError<CampaignPreviewValues>;
+      return NextResponse.json(
+        { success: false, error: 'Validation error', details: validationError.flatten() },
+        { status: 400 },
+      );
+    }
+
+    logger.error('Campaign preview error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const POST = withAuth(campaignPreviewHandler, {
+  permissions: [SEND_CAMPAIGNS_PERMISSION],
+});
@@ -0,0 +1,94 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import type { ReadApiResponse, WriteApiResponse } from '../../../lib/api-clients/core';
+import { logger } from '../../../lib/logger';
+import { SEND_CAMPAIGNS_PERMISSION } from '../../../lib/permissions';
+import { type CreateCampaignValues, createCampaignSchema } from '../../../lib/schemas/campaigns';
+import {
+  CAMPAIGNS_PAGE_SIZE,
+  type CampaignProgress,
+  createCampaign,
+  getCampaigns,
+  parseCampaignCsv,
+} from '../../../lib/services/campaigns';
+import { type AuthenticatedRouteContext, withAuth } from '../../../lib/with-auth';
+
+type CampaignsSuccess = { campaigns: CampaignProgress[]; total: number; pageSize: number };
+export type CampaignsApiResponse = ReadApiResponse<CampaignsSuccess>;
+type CampaignsNextResponse = NextResponse<CampaignsApiResponse>;
+
+type CreateCampaignSuccess = { campaign: CampaignProgress };
+type CreateCampaignValidationError = z.ZodFlattenedError<CreateCampaignValues>;
+export type CreateCampaignApiResponse = WriteApiResponse<
+  CreateCampaignSuccess,
+  CreateCampaignValidationError
+>;
+type CreateCampaignNextResponse = NextResponse<CreateCampaignApiResponse>;
+
+async function campaignsHandler(req: NextRequest): Promise<CampaignsNextResponse> {
+  try {
+    const page = Number.parseInt(req.nextUrl.searchParams.get('page') ?? '0', 10) || 0;
+    const { campaigns, total } = await getCampaigns(page);
+
+    return NextResponse.json({
+      success: true,
+      data: { campaigns, total, pageSize: CAMPAIGNS_PAGE_SIZE },
+    });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Campaigns error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function createCampaignHandler(
+  req: NextRequest,
+  { user }: AuthenticatedRouteContext,
+): Promise<CreateCampaignNextResponse> {
+  try {
+    const body = await req.json();
+    const values = createCampaignSchema.parse(body);
+    const parsed = parseCampaignCsv(values);
+    if ('error' in parsed) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+    }
+
+    const campaign = await createCampaign(user.id, values, parsed.rows);
+    logger.info('Campaign started', { campaignId: campaign.id, userId: user.id });
+
+    return NextResponse.json({ success: true, data: { campaign } }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = error as z.ZodError<CreateCampaignValues>;
+      return NextResponse.json(
+        { success: false, error: 'Validation error', details: validationError.flatten() },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Create campaign error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = withAuth(campaignsHandler, {
+  permissions: [SEND_CAMPAIGNS_PERMISSION],
+});
+
+export const POST = withAuth(createCampaignHandler, {
+  permissions: [SEND_CAMPAIGNS_PERMISSION],
+});
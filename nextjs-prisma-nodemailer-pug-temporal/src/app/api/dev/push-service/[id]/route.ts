@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { logger } from '../../../../../lib/logger';
+
+/**
+ * Local stand-in for a browser push service, used by subscriptions created with
+ * `npm run push:mock-subscription`. It accepts every message (201) except for subscription ids
+ * starting with `expired`, which answer 410 Gone like a push service does for an unsubscribed
+ * browser. Not available in production.
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const { id } = await params;
+  if (id.startsWith('expired')) {
+    return new NextResponse(null, { status: 410 });
+  }
+
+  const body = await req.arrayBuffer();
+  logger.info('Mock push service accepted a message', {
+    subscription: id,
+    encoding: req.headers.get('content-encoding'),
+    ttl: req.headers.get('ttl'),
+    bytes: body.byteLength,
+  });
+  return new NextResponse(null, { status: 201 });
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import * as z from 'zod';
+import { logger } from '../../../../lib/logger';
+import { isE164PhoneNumber } from '../../../../lib/sms';
+import { DEFAULT_SMS_OUTBOX_FILE, FileSmsProvider } from '../../../../lib/sms-providers';
+
+const smsGatewayRequestSchema = z.object({
+  from: z.string().optional(),
+  to: z.string().refine(isE164PhoneNumber, 'Invalid phone number'),
+  body: z.string().min(1),
+});
+
+/**
+ * Local stand-in for an SMS gateway, so the HTTP provider can be tried end to end with
+ * `SMS_GATEWAY_URL=http://localhost:3000/api/dev/sms-gateway`. Messages are written to the
+ * SMS outbox file. Not available in production.
+ */
+export async function POST(req: Request) {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const result = smsGatewayRequestSchema.safeParse(await req.json());
+  if (!result.success) {
+    return NextResponse.json({ error: result.error.flatten() }, { status: 400 });
+  }
+
+  // Always write to the outbox file, createSmsProvider would call this route again
+  const outbox = new FileSmsProvider(process.env.SMS_OUTBOX_FILE || DEFAULT_SMS_OUTBOX_FILE);
+  await outbox.send({ to: result.data.to, body: result.data.body });
+  logger.info('Fake SMS gateway accepted a message', { to: result.data.to });
+
+  return NextResponse.json({ status: 'queued' }, { status: 202 });
+}
@@ -0,0 +1,34 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import type { ReadApiResponse } from '../../../lib/api-clients/core';
+import { logger } from '../../../lib/logger';
+import { MANAGE_TEMPLATES_PERMISSION } from '../../../lib/permissions';
+import {
+  type EmailTemplateListItem,
+  getEmailTemplates,
+} from '../../../lib/services/email-templates';
+import { withAuth } from '../../../lib/with-auth';
+
+type EmailTemplatesSuccess = { templates: EmailTemplateListItem[] };
+export type EmailTemplatesApiResponse = ReadApiResponse<EmailTemplatesSuccess>;
+type EmailTemplatesNextResponse = NextResponse<EmailTemplatesApiResponse>;
+
+async function emailTemplatesHandler(_req: NextRequest): Promise<EmailTemplatesNextResponse> {
+  try {
+    const templates = await getEmailTemplates();
+
+    return NextResponse.json({ success: true, data: { templates } });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Email templates error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = withAuth(emailTemplatesHandler, { permissions: [MANAGE_TEMPLATES_PERMISSION] });
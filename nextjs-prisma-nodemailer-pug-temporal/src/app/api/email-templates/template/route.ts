@@ -0,0 +1,102 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import type { ReadApiResponse, WriteApiResponse } from '../../../../lib/api-clients/core';
+import { logger } from '../../../../lib/logger';
+import { MANAGE_TEMPLATES_PERMISSION } from '../../../../lib/permissions';
+import {
+  emailTemplateQuerySchema,
+  type SaveEmailTemplateDraftValues,
+  saveEmailTemplateDraftSchema,
+} from '../../../../lib/schemas/email-templates';
+import {
+  type EmailTemplateDetail,
+  type EmailTemplateVersionItem,
+  getEmailTemplate,
+  saveEmailTemplateDraft,
+} from '../../../../lib/services/email-templates';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../lib/with-auth';
+
+type EmailTemplateSuccess = { template: EmailTemplateDetail };
+export type EmailTemplateApiResponse = ReadApiResponse<EmailTemplateSuccess>;
+type EmailTemplateNextResponse = NextResponse<EmailTemplateApiResponse>;
+
+type SaveEmailTemplateDraftSuccess = { version: EmailTemplateVersionItem };
+type SaveEmailTemplateDraftValidationError = z.ZodFlattenedError<SaveEmailTemplateDraftValues>;
+export type SaveEmailTemplateDraftApiResponse = WriteApiResponse<
+  SaveEmailTemplateDraftSuccess,
+  SaveEmailTemplateDraftValidationError
+>;
+type SaveEmailTemplateDraftNextResponse = NextResponse<SaveEmailTemplateDraftApiResponse>;
+
+// The template files and the versions stored for `?key=` and `?tenant=`
+async function emailTemplateHandler(req: NextRequest): Promise<EmailTemplateNextResponse> {
+  try {
+    const { key, tenant } = emailTemplateQuerySchema.parse(
+      Object.fromEntries(req.nextUrl.searchParams),
+    );
+    const template = await getEmailTemplate(key, tenant);
+    if (!template) {
+      return NextResponse.json({ success: false, error: 'Template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: { template } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Invalid template key' }, { status: 400 });
+    }
+
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Email template error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function saveEmailTemplateDraftHandler(
+  req: NextRequest,
+  { user }: AuthenticatedRouteContext,
+): Promise<SaveEmailTemplateDraftNextResponse> {
+  try {
+    const body = await req.json();
+    const values = saveEmailTemplateDraftSchema.parse(body);
+    const result = await saveEmailTemplateDraft(user.id, values);
+
+    if ('error' in result) {
+      return NextResponse.json({ success: false, error: 'Template not found' }, { status: 404 });
+    }
+    if ('templateError' in result) {
+      return NextResponse.json({ success: false, error: result.templateError }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, data: { version: result.version } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = error as z.ZodError<SaveEmailTemplateDraftValues>;
+      return NextResponse.json(
+        { success: false, error: 'Validation error', details: validationError.flatten() },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Save email template draft error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = withAuth(emailTemplateHandler, { permissions: [MANAGE_TEMPLATES_PERMISSION] });
+export const PUT = withAuth(saveEmailTemplateDraftHandler, {
+  permissions: [MANAGE_TEMPLATES_PERMISSION],
+});
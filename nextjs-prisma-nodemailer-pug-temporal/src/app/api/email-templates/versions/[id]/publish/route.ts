@@ -0,0 +1,57 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import type { WriteApiResponse } from '../../../../../../lib/api-clients/core';
+import { logger } from '../../../../../../lib/logger';
+import { MANAGE_TEMPLATES_PERMISSION } from '../../../../../../lib/permissions';
+import {
+  type EmailTemplateVersionItem,
+  publishEmailTemplateVersion,
+} from '../../../../../../lib/services/email-templates';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../../../lib/with-auth';
+
+type PublishEmailTemplateVersionSuccess = { version: EmailTemplateVersionItem };
+export type PublishEmailTemplateVersionApiResponse =
+  WriteApiResponse<PublishEmailTemplateVersionSuccess>;
+type PublishEmailTemplateVersionNextResponse = NextResponse<PublishEmailTemplateVersionApiResponse>;
+
+// Publishes the draft, archiving the version published before
+async function publishEmailTemplateVersionHandler(
+  _req: NextRequest,
+  { params }: AuthenticatedRouteContext<{ id: string }>,
+): Promise<PublishEmailTemplateVersionNextResponse> {
+  try {
+    const { id } = await params;
+    const versionId = Number.parseInt(id, 10);
+    const result = Number.isNaN(versionId)
+      ? { error: 'not_found' as const }
+      : await publishEmailTemplateVersion(versionId);
+
+    if ('error' in result) {
+      return result.error === 'not_found'
+        ? NextResponse.json({ success: false, error: 'Version not found' }, { status: 404 })
+        : NextResponse.json(
+            { success: false, error: 'Only drafts can be published' },
+            { status: 409 },
+          );
+    }
+    if ('templateError' in result) {
+      return NextResponse.json({ success: false, error: result.templateError }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, data: { version: result.version } });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Publish email template version error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const POST = withAuth(publishEmailTemplateVersionHandler, {
+  permissions: [MANAGE_TEMPLATES_PERMISSION],
+});
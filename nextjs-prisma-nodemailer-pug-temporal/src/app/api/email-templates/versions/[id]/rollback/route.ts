@@ -0,0 +1,58 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import type { WriteApiResponse } from '../../../../../../lib/api-clients/core';
+import { logger } from '../../../../../../lib/logger';
+import { MANAGE_TEMPLATES_PERMISSION } from '../../../../../../lib/permissions';
+import {
+  type EmailTemplateVersionItem,
+  rollbackEmailTemplateVersion,
+} from '../../../../../../lib/services/email-templates';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../../../lib/with-auth';
+
+type RollbackEmailTemplateVersionSuccess = { version: EmailTemplateVersionItem };
+export type RollbackEmailTemplateVersionApiResponse =
+  WriteApiResponse<RollbackEmailTemplateVersionSuccess>;
+type RollbackEmailTemplateVersionNextResponse =
+  NextResponse<RollbackEmailTemplateVersionApiResponse>;
+
+// Publishes a copy of an archived version as the newest version
+async function rollbackEmailTemplateVersionHandler(
+  _req: NextRequest,
+  { params, user }: AuthenticatedRouteContext<{ id: string }>,
+): Promise<RollbackEmailTemplateVersionNextResponse> {
+  try {
+    const { id } = await params;
+    const versionId = Number.parseInt(id, 10);
+    const result = Number.isNaN(versionId)
+      ? { error: 'not_found' as const }
+      : await rollbackEmailTemplateVersion(user.id, versionId);
+
+    if ('error' in result) {
+      return result.error === 'not_found'
+        ? NextResponse.json({ success: false, error: 'Version not found' }, { status: 404 })
+        : NextResponse.json(
+            { success: false, error: 'Only archived versions can be rolled back to' },
+            { status: 409 },
+          );
+    }
+    if ('templateError' in result) {
+      return NextResponse.json({ success: false, error: result.templateError }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, data: { version: result.version } });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Rollback email template version error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const POST = withAuth(rollbackEmailTemplateVersionHandler, {
+  permissions: [MANAGE_TEMPLATES_PERMISSION],
+});
@@ -0,0 +1,58 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import type { WriteApiResponse } from '../../../../../../lib/api-clients/core';
+import { logger } from '../../../../../../lib/logger';
+import { MANAGE_TEMPLATES_PERMISSION } from '../../../../../../lib/permissions';
+import {
+  type EmailTemplateVersionItem,
+  unpublishEmailTemplateVersion,
+} from '../../../../../../lib/services/email-templates';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../../../lib/with-auth';
+
+type UnpublishEmailTemplateVersionSuccess = { version: EmailTemplateVersionItem };
+export type UnpublishEmailTemplateVersionApiResponse =
+  WriteApiResponse<UnpublishEmailTemplateVersionSuccess>;
+type UnpublishEmailTemplateVersionNextResponse =
+  NextResponse<UnpublishEmailTemplateVersionApiResponse>;
+
+// Archives the published version, so notifications use the template files again
+async function unpublishEmailTemplateVersionHandler(
+  _req: NextRequest,
+  { params }: AuthenticatedRouteContext<{ id: string }>,
+): Promise<UnpublishEmailTemplateVersionNextResponse> {
+  try {
+    const { id } = await params;
+    const versionId = Number.parseInt(id, 10);
+    const result = Number.isNaN(versionId)
+      ? { error: 'not_found' as const }
+      : await unpublishEmailTemplateVersion(versionId);
+
+    if ('error' in result) {
+      return result.error === 'not_found'
+        ? NextResponse.json({ success: false, error: 'Version not found' }, { status: 404 })
+        : NextResponse.json(
+            { success: false, error: 'Only the published version can be unpublished' },
+            { status: 409 },
+          );
+    }
+    if ('templateError' in result) {
+      return NextResponse.json({ success: false, error: result.templateError }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, data: { version: result.version } });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Unpublish email template version error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const POST = withAuth(unpublishEmailTemplateVersionHandler, {
+  permissions: [MANAGE_TEMPLATES_PERMISSION],
+});
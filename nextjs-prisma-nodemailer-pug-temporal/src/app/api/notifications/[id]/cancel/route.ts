@@ -0,0 +1,52 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import type { WriteApiResponse } from '../../../../../lib/api-clients/core';
+import { logger } from '../../../../../lib/logger';
+import { MANAGE_NOTIFICATIONS_PERMISSION } from '../../../../../lib/permissions';
+import { cancelPendingNotification } from '../../../../../lib/services/notification-scheduling';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../../lib/with-auth';
+
+export type CancelNotificationApiResponse = WriteApiResponse;
+type CancelNotificationNextResponse = NextResponse<CancelNotificationApiResponse>;
+
+async function cancelNotificationHandler(
+  _req: NextRequest,
+  { params }: AuthenticatedRouteContext<{ id: string }>,
+): Promise<CancelNotificationNextResponse> {
+  try {
+    const { id } = await params;
+    const notificationId = Number.parseInt(id, 10);
+    const result = Number.isNaN(notificationId)
+      ? 'not_found'
+      : await cancelPendingNotification(notificationId);
+
+    if (result === 'not_found') {
+      return NextResponse.json(
+        { success: false, error: 'Notification not found' },
+        { status: 404 },
+      );
+    }
+    if (result === 'not_pending') {
+      return NextResponse.json(
+        { success: false, error: 'Only pending notifications can be cancelled' },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Notification cancelled' });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Cancel notification error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const POST = withAuth(cancelNotificationHandler, {
+  permissions: [MANAGE_NOTIFICATIONS_PERMISSION],
+});
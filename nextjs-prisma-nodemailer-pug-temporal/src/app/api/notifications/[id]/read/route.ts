@@ -0,0 +1,42 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import type { WriteApiResponse } from '../../../../../lib/api-clients/core';
+import { logger } from '../../../../../lib/logger';
+import { markInAppNotificationRead } from '../../../../../lib/services/in-app-notifications';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../../lib/with-auth';
+
+export type MarkNotificationReadApiResponse = WriteApiResponse;
+type MarkNotificationReadNextResponse = NextResponse<MarkNotificationReadApiResponse>;
+
+async function markNotificationReadHandler(
+  _req: NextRequest,
+  { params, user }: AuthenticatedRouteContext<{ id: string }>,
+): Promise<MarkNotificationReadNextResponse> {
+  try {
+    const { id } = await params;
+    const notificationId = Number.parseInt(id, 10);
+    const marked =
+      !Number.isNaN(notificationId) && (await markInAppNotificationRead(user.id, notificationId));
+
+    if (!marked) {
+      return NextResponse.json(
+        { success: false, error: 'Notification not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Notification marked as read' });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Mark notification read error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const POST = withAuth(markNotificationReadHandler);
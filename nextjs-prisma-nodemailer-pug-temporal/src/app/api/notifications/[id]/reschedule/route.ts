@@ -0,0 +1,76 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import type { WriteApiResponse } from '../../../../../lib/api-clients/core';
+import { logger } from '../../../../../lib/logger';
+import { MANAGE_NOTIFICATIONS_PERMISSION } from '../../../../../lib/permissions';
+import {
+  type RescheduleNotificationValues,
+  rescheduleNotificationSchema,
+} from '../../../../../lib/schemas/notification-scheduling';
+import { reschedulePendingNotification } from '../../../../../lib/services/notification-scheduling';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../../lib/with-auth';
+
+type RescheduleNotificationValidationError = z.ZodFlattenedError<RescheduleNotificationValues>;
+export type RescheduleNotificationApiResponse = WriteApiResponse<
+  null,
+  RescheduleNotificationValidationError
+>;
+type RescheduleNotificationNextResponse = NextResponse<RescheduleNotificationApiResponse>;
+
+async function rescheduleNotificationHandler(
+  req: NextRequest,
+  { params }: AuthenticatedRouteContext<{ id: string }>,
+): Promise<RescheduleNotificationNextResponse> {
+  try {
+    const body = await req.json();
+    const { sendAfter } = rescheduleNotificationSchema.parse(body);
+
+    const { id } = await params;
+    const notificationId = Number.parseInt(id, 10);
+    const result = Number.isNaN(notificationId)
+      ? 'not_found'
+      : await reschedulePendingNotification(notificationId, sendAfter);
+
+    if (result === 'not_found') {
+      return NextResponse.json(
+        { success: false, error: 'Notification not found' },
+        { status: 404 },
+      );
+    }
+    if (result === 'not_pending') {
+      return NextResponse.json(
+        { success: false, error: 'Only pending notifications can be rescheduled' },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Notification rescheduled' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = error as z.ZodError<RescheduleNotificationValues>;
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: validationError.flatten(),
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Reschedule notification error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const POST = withAuth(rescheduleNotificationHandler, {
+  permissions: [MANAGE_NOTIFICATIONS_PERMISSION],
+});
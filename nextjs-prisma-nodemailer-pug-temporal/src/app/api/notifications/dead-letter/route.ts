@@ -0,0 +1,39 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import type { ReadApiResponse } from '../../../../lib/api-clients/core';
+import { logger } from '../../../../lib/logger';
+import { VIEW_DEAD_LETTER_PERMISSION } from '../../../../lib/permissions';
+import {
+  type DeadLetterNotificationItem,
+  getDeadLetterNotifications,
+} from '../../../../lib/services/dead-letter-notifications';
+import { withAuth } from '../../../../lib/with-auth';
+
+type DeadLetterNotificationsSuccess = { notifications: DeadLetterNotificationItem[] };
+export type DeadLetterNotificationsApiResponse = ReadApiResponse<DeadLetterNotificationsSuccess>;
+type DeadLetterNotificationsNextResponse = NextResponse<DeadLetterNotificationsApiResponse>;
+
+async function deadLetterNotificationsHandler(
+  req: NextRequest,
+): Promise<DeadLetterNotificationsNextResponse> {
+  try {
+    const page = Number.parseInt(req.nextUrl.searchParams.get('page') ?? '0', 10) || 0;
+    const notifications = await getDeadLetterNotifications(page);
+
+    return NextResponse.json({ success: true, data: { notifications } });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Dead-letter notifications error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = withAuth(deadLetterNotificationsHandler, {
+  permissions: [VIEW_DEAD_LETTER_PERMISSION],
+});
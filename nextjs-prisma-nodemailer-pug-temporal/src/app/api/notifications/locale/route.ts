@@ -0,0 +1,86 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import type { ReadApiResponse, WriteApiResponse } from '../../../../lib/api-clients/core';
+import type { Locale } from '../../../../lib/i18n';
+import { logger } from '../../../../lib/logger';
+import {
+  type UpdateNotificationLocaleValues,
+  updateNotificationLocaleSchema,
+} from '../../../../lib/schemas/notification-preferences';
+import {
+  getNotificationLocale,
+  updateNotificationLocale,
+} from '../../../../lib/services/notification-preferences';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../lib/with-auth';
+
+type NotificationLocaleSuccess = { locale: Locale };
+export type NotificationLocaleApiResponse = ReadApiResponse<NotificationLocaleSuccess>;
+type NotificationLocaleNextResponse = NextResponse<NotificationLocaleApiResponse>;
+
+type UpdateNotificationLocaleValidationError = z.ZodFlattenedError<UpdateNotificationLocaleValues>;
+export type UpdateNotificationLocaleApiResponse = WriteApiResponse<
+  NotificationLocaleSuccess,
+  UpdateNotificationLocaleValidationError
+>;
+type UpdateNotificationLocaleNextResponse = NextResponse<UpdateNotificationLocaleApiResponse>;
+
+async function notificationLocaleHandler(
+  _req: NextRequest,
+  { user }: AuthenticatedRouteContext,
+): Promise<NotificationLocaleNextResponse> {
+  try {
+    const locale = await getNotificationLocale(user.id);
+    return NextResponse.json({ success: true, data: { locale } });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Notification locale error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = withAuth(notificationLocaleHandler);
+
+async function updateNotificationLocaleHandler(
+  req: NextRequest,
+  { user }: AuthenticatedRouteContext,
+): Promise<UpdateNotificationLocaleNextResponse> {
+  try {
+    const body = await req.json();
+    const { locale } = updateNotificationLocaleSchema.parse(body);
+
+    await updateNotificationLocale(user.id, locale);
+
+    return NextResponse.json({ success: true, data: { locale } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = error as z.ZodError<UpdateNotificationLocaleValues>;
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: validationError.flatten(),
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Update notification locale error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const PUT = withAuth(updateNotificationLocaleHandler);
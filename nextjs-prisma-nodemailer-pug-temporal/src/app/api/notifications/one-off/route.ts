@@ -1,20 +1,95 @@
 import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
+import { getClientIp } from '../../../../lib/client-info';
+import { getIdempotencyKey } from '../../../../lib/idempotency';
+import { SEND_ONE_OFF_NOTIFICATIONS_PERMISSION } from '../../../../lib/permissions';
+import { prisma } from '../../../../lib/prisma';
+import { checkRateLimits, tooManyRequestsResponse } from '../../../../lib/rate-limit';
 import { getNotificationService } from '../../../../lib/services/notifications';
+import { isE164PhoneNumber } from '../../../../lib/sms';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../lib/with-auth';
 
-const oneOffNotificationSchema = z.object({
-  emailOrPhone: z.string().email('Invalid email address'),
-  firstName: z.string().min(1, 'First name is required'),
-  lastName: z.string().min(1, 'Last name is required'),
-  companyName: z.string().default('VintaSend Demo'),
-  productName: z.string().optional(),
-});
+const oneOffNotificationSchema = z
+  .object({
+    notificationType: z.enum(['EMAIL', 'SMS']).default('EMAIL'),
+    emailOrPhone: z.string(),
+    firstName: z.string().min(1, 'First name is required'),
+    lastName: z.string().min(1, 'Last name is required'),
+    companyName: z.string().default('VintaSend Demo'),
+    productName: z.string().optional(),
+    // The recipient's locale, e.g. `pt-BR`; unsupported ones get the default locale
+    locale: z.string().optional(),
+  })
+  .refine(
+    (data) => data.notificationType !== 'EMAIL' || z.email().safeParse(data.emailOrPhone).success,
+    { message: 'Invalid email address', path: ['emailOrPhone'] },
+  )
+  .refine((data) => data.notificationType !== 'SMS' || isE164PhoneNumber(data.emailOrPhone), {
+    message: 'Invalid phone number, use the E.164 format (e.g. +5581999999999)',
+    path: ['emailOrPhone'],
+  });
+
+function getTemplateFields(data: z.infer<typeof oneOffNotificationSchema>) {
+  if (data.notificationType === 'SMS') {
+    return {
+      bodyTemplate: './src/email-templates/sms/welcome-prospect-body.txt.pug',
+      subjectTemplate: null,
+      contextName: 'welcomeProspectSms' as const,
+      contextParameters: {
+        companyName: data.companyName,
+        productName: data.productName,
+        firstName: data.firstName,
+        locale: data.locale,
+      },
+    };
+  }
+
+  return {
+    bodyTemplate: './src/email-templates/marketing/welcome-prospect-body.html.pug',
+    subjectTemplate: './src/email-templates/marketing/welcome-prospect-subject.txt.pug',
+    contextName: 'welcomeProspect' as const,
+    contextParameters: {
+      companyName: data.companyName,
+      productName: data.productName,
+      email: data.emailOrPhone,
+      locale: data.locale,
+    },
+  };
+}
 
-export async function POST(request: NextRequest) {
+async function sendOneOffNotificationHandler(
+  request: NextRequest,
+  { user }: AuthenticatedRouteContext,
+) {
   try {
     const body = await request.json();
     const validatedData = oneOffNotificationSchema.parse(body);
+    const idempotencyKey = getIdempotencyKey(request, `one-off:${user.id}`);
+    // A retry gets the notification it already created, before the rate limits so retries
+    // don't use them up
+    const previousNotification = idempotencyKey
+      ? await prisma.notification.findUnique({ where: { idempotencyKey }, select: { id: true } })
+      : null;
+    if (previousNotification) {
+      return NextResponse.json({
+        success: true,
+        message: 'One-off notification created and sent successfully',
+        notificationId: previousNotification.id,
+      });
+    }
+
+    const rateLimit = await checkRateLimits([
+      { key: `one-off:ip:${getClientIp(request)}`, limit: 30, windowSeconds: 60 * 60 },
+      {
+        key: `one-off:recipient:${validatedData.emailOrPhone.toLowerCase()}`,
+        limit: 3,
+        windowSeconds: 60 * 60,
+      },
+    ]);
+    if (!rateLimit.allowed) {
+      return tooManyRequestsResponse(rateLimit.retryAfterSeconds);
+    }
 
     const notificationService = getNotificationService();
 
@@ -25,17 +100,12 @@ export async function POST(request: NextRequest) {
       emailOrPhone: validatedData.emailOrPhone,
       firstName: validatedData.firstName,
       lastName: validatedData.lastName,
-      notificationType: 'EMAIL',
+      notificationType: validatedData.notificationType,
       title: 'Welcome to VintaSend',
-      bodyTemplate: '/src/email-templates/marketing/welcome-prospect-body.html.pug',
-      subjectTemplate: '/src/email-templates/marketing/welcome-prospect-subject.txt.pug',
-      contextName: 'welcomeProspect',
-      contextParameters: {
-        companyName: validatedData.companyName,
-        productName: validatedData.productName,
-      },
+      ...getTemplateFields(validatedData),
       sendAfter: null,
       extraParams: null,
+      idempotencyKey,
     });
 
     return NextResponse.json({
@@ -68,3 +138,7 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const POST = withAuth(sendOneOffNotificationHandler, {
+  permissions: [SEND_ONE_OFF_NOTIFICATIONS_PERMISSION],
+});
@@ -0,0 +1,98 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import type { ReadApiResponse, WriteApiResponse } from '../../../../lib/api-clients/core';
+import { logger } from '../../../../lib/logger';
+import {
+  type UpdateNotificationPreferenceValues,
+  updateNotificationPreferenceSchema,
+} from '../../../../lib/schemas/notification-preferences';
+import {
+  getNotificationPreferences,
+  isOptionalNotification,
+  type NotificationPreferenceItem,
+  updateNotificationPreference,
+} from '../../../../lib/services/notification-preferences';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../lib/with-auth';
+
+type NotificationPreferencesSuccess = { preferences: NotificationPreferenceItem[] };
+export type NotificationPreferencesApiResponse = ReadApiResponse<NotificationPreferencesSuccess>;
+type NotificationPreferencesNextResponse = NextResponse<NotificationPreferencesApiResponse>;
+
+type UpdateNotificationPreferenceValidationError =
+  z.ZodFlattenedError<UpdateNotificationPreferenceValues>;
+export type UpdateNotificationPreferenceApiResponse = WriteApiResponse<
+  NotificationPreferencesSuccess,
+  UpdateNotificationPreferenceValidationError
+>;
+type UpdateNotificationPreferenceNextResponse =
+  NextResponse<UpdateNotificationPreferenceApiResponse>;
+
+async function notificationPreferencesHandler(
+  _req: NextRequest,
+  { user }: AuthenticatedRouteContext,
+): Promise<NotificationPreferencesNextResponse> {
+  try {
+    const preferences = await getNotificationPreferences(user.id);
+    return NextResponse.json({ success: true, data: { preferences } });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Notification preferences error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = withAuth(notificationPreferencesHandler);
+
+async function updateNotificationPreferenceHandler(
+  req: NextRequest,
+  { user }: AuthenticatedRouteContext,
+): Promise<UpdateNotificationPreferenceNextResponse> {
+  try {
+    const body = await req.json();
+    const { contextName, notificationType, enabled } =
+      updateNotificationPreferenceSchema.parse(body);
+
+    if (!isOptionalNotification(contextName, notificationType)) {
+      return NextResponse.json(
+        { success: false, error: 'This notification cannot be disabled' },
+        { status: 400 },
+      );
+    }
+
+    await updateNotificationPreference(user.id, contextName, notificationType, enabled);
+    const preferences = await getNotificationPreferences(user.id);
+
+    return NextResponse.json({ success: true, data: { preferences } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = error as z.ZodError<UpdateNotificationPreferenceValues>;
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: validationError.flatten(),
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Update notification preference error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const PUT = withAuth(updateNotificationPreferenceHandler);
@@ -0,0 +1,103 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import type { WriteApiResponse } from '../../../../lib/api-clients/core';
+import { logger } from '../../../../lib/logger';
+import {
+  type DeletePushSubscriptionValues,
+  deletePushSubscriptionSchema,
+  type PushSubscriptionValues,
+  pushSubscriptionSchema,
+} from '../../../../lib/schemas/push-subscriptions';
+import {
+  deletePushSubscription,
+  savePushSubscription,
+} from '../../../../lib/services/push-subscriptions';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../lib/with-auth';
+
+type SubscribePushValidationError = z.ZodFlattenedError<PushSubscriptionValues>;
+export type SubscribePushApiResponse = WriteApiResponse<null, SubscribePushValidationError>;
+type SubscribePushNextResponse = NextResponse<SubscribePushApiResponse>;
+
+type UnsubscribePushValidationError = z.ZodFlattenedError<DeletePushSubscriptionValues>;
+export type UnsubscribePushApiResponse = WriteApiResponse<null, UnsubscribePushValidationError>;
+type UnsubscribePushNextResponse = NextResponse<UnsubscribePushApiResponse>;
+
+async function subscribePushHandler(
+  req: NextRequest,
+  { user }: AuthenticatedRouteContext,
+): Promise<SubscribePushNextResponse> {
+  try {
+    const body = await req.json();
+    const subscription = pushSubscriptionSchema.parse(body);
+    await savePushSubscription(user.id, subscription, req.headers.get('user-agent'));
+
+    return NextResponse.json({ success: true, message: 'Push notifications enabled' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = error as z.ZodError<PushSubscriptionValues>;
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: validationError.flatten(),
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Push subscription error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const POST = withAuth(subscribePushHandler);
+
+async function unsubscribePushHandler(
+  req: NextRequest,
+  { user }: AuthenticatedRouteContext,
+): Promise<UnsubscribePushNextResponse> {
+  try {
+    const body = await req.json();
+    const { endpoint } = deletePushSubscriptionSchema.parse(body);
+    if (!(await deletePushSubscription(user.id, endpoint))) {
+      return NextResponse.json(
+        { success: false, error: 'Push subscription not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Push notifications disabled' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = error as z.ZodError<DeletePushSubscriptionValues>;
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: validationError.flatten(),
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Push unsubscription error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const DELETE = withAuth(unsubscribePushHandler);
@@ -0,0 +1,43 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import type { WriteApiResponse } from '../../../../../lib/api-clients/core';
+import { logger } from '../../../../../lib/logger';
+import { getNotificationServiceWithQueue } from '../../../../../lib/services/notifications-with-queue';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../../lib/with-auth';
+
+export type SendTestPushApiResponse = WriteApiResponse;
+type SendTestPushNextResponse = NextResponse<SendTestPushApiResponse>;
+
+async function sendTestPushHandler(
+  _req: NextRequest,
+  { user }: AuthenticatedRouteContext,
+): Promise<SendTestPushNextResponse> {
+  try {
+    const notificationService = await getNotificationServiceWithQueue();
+    await notificationService.createNotification({
+      userId: user.id,
+      notificationType: 'PUSH',
+      title: 'Test push notification',
+      contextName: 'pushTest',
+      contextParameters: {},
+      sendAfter: new Date(),
+      bodyTemplate: './src/email-templates/push/test/test-body.txt.pug',
+      subjectTemplate: './src/email-templates/push/test/test-subject.txt.pug',
+      extraParams: {},
+    });
+
+    return NextResponse.json({ success: true, message: 'Test push notification sent' });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Test push notification error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const POST = withAuth(sendTestPushHandler);
@@ -0,0 +1,33 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import type { WriteApiResponse } from '../../../../lib/api-clients/core';
+import { logger } from '../../../../lib/logger';
+import { markAllInAppNotificationsRead } from '../../../../lib/services/in-app-notifications';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../lib/with-auth';
+
+type MarkAllNotificationsReadSuccess = { markedCount: number };
+export type MarkAllNotificationsReadApiResponse = WriteApiResponse<MarkAllNotificationsReadSuccess>;
+type MarkAllNotificationsReadNextResponse = NextResponse<MarkAllNotificationsReadApiResponse>;
+
+async function markAllNotificationsReadHandler(
+  _req: NextRequest,
+  { user }: AuthenticatedRouteContext,
+): Promise<MarkAllNotificationsReadNextResponse> {
+  try {
+    const markedCount = await markAllInAppNotificationsRead(user.id);
+
+    return NextResponse.json({ success: true, data: { markedCount } });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Mark all notifications read error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const POST = withAuth(markAllNotificationsReadHandler);
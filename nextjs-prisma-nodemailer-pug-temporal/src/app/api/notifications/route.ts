@@ -0,0 +1,44 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import type { ReadApiResponse } from '../../../lib/api-clients/core';
+import { logger } from '../../../lib/logger';
+import {
+  countUnreadInAppNotifications,
+  getInAppNotifications,
+  type InAppNotificationItem,
+} from '../../../lib/services/in-app-notifications';
+import { type AuthenticatedRouteContext, withAuth } from '../../../lib/with-auth';
+
+type InAppNotificationsSuccess = {
+  notifications: InAppNotificationItem[];
+  unreadCount: number;
+};
+export type InAppNotificationsApiResponse = ReadApiResponse<InAppNotificationsSuccess>;
+type InAppNotificationsNextResponse = NextResponse<InAppNotificationsApiResponse>;
+
+async function inAppNotificationsHandler(
+  req: NextRequest,
+  { user }: AuthenticatedRouteContext,
+): Promise<InAppNotificationsNextResponse> {
+  try {
+    const page = Number.parseInt(req.nextUrl.searchParams.get('page') ?? '0', 10) || 0;
+    const [notifications, unreadCount] = await Promise.all([
+      getInAppNotifications(user.id, page),
+      countUnreadInAppNotifications(user.id),
+    ]);
+
+    return NextResponse.json({ success: true, data: { notifications, unreadCount } });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('In-app notifications error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = withAuth(inAppNotificationsHandler);
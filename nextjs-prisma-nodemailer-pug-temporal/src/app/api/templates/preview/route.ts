@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import type { WriteApiResponse } from '../../../../lib/api-clients/core';
+import { logger } from '../../../../lib/logger';
+import { PREVIEW_TEMPLATES_PERMISSION } from '../../../../lib/permissions';
+import {
+  type TemplatePreviewValues,
+  templatePreviewSchema,
+} from '../../../../lib/schemas/templates';
+import {
+  renderTemplatePreview,
+  type TemplatePreviewResult,
+} from '../../../../lib/services/template-preview';
+import { withAuth } from '../../../../lib/with-auth';
+
+type TemplatePreviewValidationError = z.ZodFlattenedError<TemplatePreviewValues>;
+export type TemplatePreviewApiResponse = WriteApiResponse<
+  TemplatePreviewResult,
+  TemplatePreviewValidationError
+>;
+type TemplatePreviewNextResponse = NextResponse<TemplatePreviewApiResponse>;
+
+// Errors of the template or the context generator are returned as `renderError`, not a 500
+async function templatePreviewHandler(req: NextRequest): Promise<TemplatePreviewNextResponse> {
+  try {
+    const body = await req.json();
+    const values = templatePreviewSchema.parse(body);
+    const result = await renderTemplatePreview(values);
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: 'Template or context not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = error as z.ZodError<TemplatePreviewValues>;
+      return NextResponse.json(
+        { success: false, error: 'Validation error', details: validationError.flatten() },
+        { status: 400 },
+      );
+    }
+
+    logger.error('Template preview error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const POST = withAuth(templatePreviewHandler, {
+  permissions: [PREVIEW_TEMPLATES_PERMISSION],
+});
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import type { ReadApiResponse } from '../../../lib/api-clients/core';
+import { logger } from '../../../lib/logger';
+import { PREVIEW_TEMPLATES_PERMISSION } from '../../../lib/permissions';
+import {
+  type EmailTemplateOption,
+  listEmailTemplates,
+} from '../../../lib/services/email-templates';
+import { contextNames } from '../../../lib/services/template-preview';
+import { withAuth } from '../../../lib/with-auth';
+
+type TemplatesSuccess = { templates: EmailTemplateOption[]; contextNames: string[] };
+export type TemplatesApiResponse = ReadApiResponse<TemplatesSuccess>;
+type TemplatesNextResponse = NextResponse<TemplatesApiResponse>;
+
+async function templatesHandler(_req: NextRequest): Promise<TemplatesNextResponse> {
+  try {
+    const templates = await listEmailTemplates();
+
+    return NextResponse.json({ success: true, data: { templates, contextNames } });
+  } catch (error) {
+    logger.error('Templates error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = withAuth(templatesHandler, { permissions: [PREVIEW_TEMPLATES_PERMISSION] });
@@ -0,0 +1,60 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import type { WriteApiResponse } from '../../../../lib/api-clients/core';
+import { logger } from '../../../../lib/logger';
+import { PREVIEW_TEMPLATES_PERMISSION } from '../../../../lib/permissions';
+import {
+  type TemplatePreviewValues,
+  templatePreviewSchema,
+} from '../../../../lib/schemas/templates';
+import { renderTemplatePreview, sendTemplateTest } from '../../../../lib/services/template-preview';
+import { type AuthenticatedRouteContext, withAuth } from '../../../../lib/with-auth';
+
+type TemplateTestSendSuccess = { sentTo: string };
+type TemplateTestSendValidationError = z.ZodFlattenedError<TemplatePreviewValues>;
+export type TemplateTestSendApiResponse = WriteApiResponse<
+  TemplateTestSendSuccess,
+  TemplateTestSendValidationError
+>;
+type TemplateTestSendNextResponse = NextResponse<TemplateTestSendApiResponse>;
+
+// Renders the template like `POST /api/templates/preview` and emails it to the current user
+async function templateTestSendHandler(
+  req: NextRequest,
+  { user }: AuthenticatedRouteContext,
+): Promise<TemplateTestSendNextResponse> {
+  try {
+    const body = await req.json();
+    const values = templatePreviewSchema.parse(body);
+    const result = await renderTemplatePreview(values);
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: 'Template or context not found' },
+        { status: 404 },
+      );
+    }
+    if (result.renderError !== null) {
+      return NextResponse.json({ success: false, error: result.renderError }, { status: 400 });
+    }
+
+    await sendTemplateTest(user.email, result.preview);
+    logger.info('Template test sent', { bodyTemplate: values.bodyTemplate, userId: user.id });
+
+    return NextResponse.json({ success: true, data: { sentTo: user.email } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = error as z.ZodError<TemplatePreviewValues>;
+      return NextResponse.json(
+        { success: false, error: 'Validation error', details: validationError.flatten() },
+        { status: 400 },
+      );
+    }
+
+    logger.error('Template test send error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const POST = withAuth(templateTestSendHandler, {
+  permissions: [PREVIEW_TEMPLATES_PERMISSION],
+});
@@ -0,0 +1,46 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { NextResponse } from 'next/server';
+import type { WriteApiResponse } from '../../../../lib/api-clients/core';
+import { logger } from '../../../../lib/logger';
+import {
+  getEmailFromUnsubscribeToken,
+  suppressEmail,
+} from '../../../../lib/services/email-suppressions';
+
+export type UnsubscribeApiResponse = WriteApiResponse;
+type UnsubscribeNextResponse = NextResponse<UnsubscribeApiResponse>;
+
+/**
+ * Used both by the /unsubscribe/[token] page and by mail clients performing a one-click
+ * unsubscribe (RFC 8058), which POST `List-Unsubscribe=One-Click` as a form body.
+ */
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ token: string }> },
+): Promise<UnsubscribeNextResponse> {
+  try {
+    const { token } = await params;
+    const email = getEmailFromUnsubscribeToken(token);
+    if (!email) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid or expired unsubscribe link' },
+        { status: 400 },
+      );
+    }
+
+    await suppressEmail(email, 'UNSUBSCRIBE');
+    logger.info('Email unsubscribed', { email });
+
+    return NextResponse.json({ success: true, message: 'You have been unsubscribed' });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('Unsubscribe error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
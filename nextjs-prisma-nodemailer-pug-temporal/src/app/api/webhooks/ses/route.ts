@@ -0,0 +1,89 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import { type NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import type { WriteApiResponse } from '../../../../lib/api-clients/core';
+import { logger } from '../../../../lib/logger';
+import {
+  confirmSnsSubscription,
+  handleSesEvent,
+  type SnsMessage,
+  snsMessageSchema,
+  verifySnsSignature,
+} from '../../../../lib/services/ses-email-events';
+
+type SesWebhookSuccess = { suppressed: string[] };
+type SesWebhookValidationError = z.ZodFlattenedError<SnsMessage>;
+export type SesWebhookApiResponse = WriteApiResponse<SesWebhookSuccess, SesWebhookValidationError>;
+type SesWebhookNextResponse = NextResponse<SesWebhookApiResponse>;
+
+/**
+ * Receives SES bounce and complaint notifications through an SNS HTTPS subscription.
+ * Subscribe `${APP_DOMAIN}/api/webhooks/ses?secret=${EMAIL_WEBHOOK_SECRET}` to the SNS topic,
+ * or POST the JSON files in `./fixtures` to try it locally: the SNS signature is only verified
+ * in production, since the fixtures aren't signed.
+ */
+export async function POST(req: NextRequest): Promise<SesWebhookNextResponse> {
+  try {
+    const secret = process.env.EMAIL_WEBHOOK_SECRET;
+    if (!secret) {
+      logger.error('EMAIL_WEBHOOK_SECRET is not set, rejecting SES webhook');
+      return NextResponse.json(
+        { success: false, error: 'Webhook is not configured' },
+        { status: 503 },
+      );
+    }
+    if (req.nextUrl.searchParams.get('secret') !== secret) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // SNS sends JSON with a text/plain content type
+    const body = JSON.parse(await req.text());
+    const message = snsMessageSchema.parse(body);
+
+    if (process.env.NODE_ENV === 'production' && !(await verifySnsSignature(message))) {
+      logger.warn('Rejected SES webhook with an invalid SNS signature', {
+        topicArn: message.TopicArn,
+      });
+      return NextResponse.json({ success: false, error: 'Invalid signature' }, { status: 401 });
+    }
+
+    if (message.Type === 'SubscriptionConfirmation') {
+      await confirmSnsSubscription(message.SubscribeURL);
+      logger.info('SNS subscription confirmed', { topicArn: message.TopicArn });
+      return NextResponse.json({ success: true, message: 'Subscription confirmed' });
+    }
+
+    const suppressed = await handleSesEvent(message.Message);
+    if (suppressed.length > 0) {
+      logger.info('Suppressed email addresses from SES event', { suppressed });
+    }
+
+    return NextResponse.json({ success: true, data: { suppressed } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = error as z.ZodError<SnsMessage>;
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: validationError.flatten(),
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON' }, { status: 400 });
+    }
+
+    if (error instanceof PrismaClientKnownRequestError) {
+      return NextResponse.json(
+        { success: false, error: 'Database error occurred' },
+        { status: 500 },
+      );
+    }
+
+    logger.error('SES webhook error', { error: String(error) });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
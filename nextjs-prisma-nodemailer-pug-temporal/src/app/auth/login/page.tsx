@@ -20,6 +20,12 @@ import { Input } from '../../../components/ui/input';
 import { authApi } from '../../../lib/api-clients/auth';
 import { type LoginValues, loginSchema } from '../../../lib/schemas/auth';
 
+// Where the proxy sent the user from; only same-site paths, so the link can't point elsewhere
+function getRedirectPath() {
+  const next = new URLSearchParams(window.location.search).get('next');
+  return next?.startsWith('/') && !next.startsWith('//') ? next : '/dashboard';
+}
+
 export default function LoginPage() {
   const router = useRouter();
   const [error, setError] = useState('');
@@ -44,7 +50,7 @@ export default function LoginPage() {
         throw new Error(response.error || 'Login failed');
       }
 
-      router.push('/dashboard');
+      router.push(getRedirectPath());
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
     } finally {
@@ -97,6 +103,16 @@ export default function LoginPage() {
       </Form>
 
       <p className="mt-4 text-center">
+        <Link href="/auth/forgot-password" className="text-blue-600 hover:underline">
+          Forgot your password?
+        </Link>
+      </p>
+      <p className="mt-2 text-center">
+        <Link href="/auth/magic-link" className="text-blue-600 hover:underline">
+          Email me a login link instead
+        </Link>
+      </p>
+      <p className="mt-2 text-center">
         Don't have an account?{' '}
         <Link href="/auth/signup" className="text-blue-600 hover:underline">
           Sign up
@@ -0,0 +1,97 @@
+'use client';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import Link from 'next/link';
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { AuthLayout } from '../../../components/AuthLayout';
+import { Alert, AlertDescription } from '../../../components/ui/alert';
+import { Button } from '../../../components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '../../../components/ui/form';
+import { Input } from '../../../components/ui/input';
+import { authApi } from '../../../lib/api-clients/auth';
+import { type MagicLinkValues, magicLinkSchema } from '../../../lib/schemas/auth';
+
+export default function MagicLinkPage() {
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const form = useForm<MagicLinkValues>({
+    resolver: zodResolver(magicLinkSchema),
+    defaultValues: {
+      email: '',
+    },
+  });
+
+  async function onSubmit(data: MagicLinkValues) {
+    setError('');
+    setMessage('');
+    setLoading(true);
+
+    try {
+      const response = await authApi.requestMagicLink(data.email);
+
+      if (!response.success) {
+        throw new Error(response.error || 'Could not send a login link');
+      }
+
+      setMessage('If an account exists for this email, a login link is on its way.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not send a login link');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <AuthLayout title="Log In With Email">
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {message && (
+        <Alert className="mb-4">
+          <AlertDescription>{message}</AlertDescription>
+        </Alert>
+      )}
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email</FormLabel>
+                <FormControl>
+                  <Input type="email" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? 'Submitting...' : 'Email me a login link'}
+          </Button>
+        </form>
+      </Form>
+
+      <p className="mt-4 text-center">
+        Prefer your password?{' '}
+        <Link href="/auth/login" className="text-blue-600 hover:underline">
+          Log in
+        </Link>
+      </p>
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { useEffect, useRef, useState } from 'react';
+import { AuthLayout } from '../../../../components/AuthLayout';
+import { Alert, AlertDescription } from '../../../../components/ui/alert';
+import { authApi } from '../../../../lib/api-clients/auth';
+
+export default function MagicLinkLogin() {
+  const [status, setStatus] = useState<'loading' | 'success' | 'error'>('loading');
+  // The token works only once, so don't send it again when the effect re-runs in development
+  const requested = useRef(false);
+  const params = useParams();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (requested.current) {
+      return;
+    }
+    requested.current = true;
+
+    const loginWithMagicLink = async () => {
+      try {
+        const response = await authApi.loginWithMagicLink(params.token as string);
+
+        if (response.success) {
+          setStatus('success');
+          router.push('/dashboard');
+        } else {
+          setStatus('error');
+        }
+      } catch (_error) {
+        setStatus('error');
+      }
+    };
+
+    loginWithMagicLink();
+  }, [params.token, router]);
+
+  return (
+    <AuthLayout title="Log In">
+      {status === 'loading' && (
+        <Alert variant="default">
+          <AlertDescription>Logging you in...</AlertDescription>
+        </Alert>
+      )}
+      {status === 'success' && (
+        <Alert variant="default">
+          <AlertDescription>Logged in! Redirecting to your dashboard...</AlertDescription>
+        </Alert>
+      )}
+      {status === 'error' && (
+        <>
+          <Alert variant="destructive">
+            <AlertDescription>
+              This login link is invalid, expired or was already used.
+            </AlertDescription>
+          </Alert>
+          <p className="mt-4 text-center">
+            <Link href="/auth/magic-link" className="text-blue-600 hover:underline">
+              Get a new link
+            </Link>
+          </p>
+        </>
+      )}
+    </AuthLayout>
+  );
+}
@@ -24,6 +24,8 @@ export default function SignUpPage() {
   const router = useRouter();
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  // Retrying after a network error must not create the user's notifications twice
+  const [idempotencyKey] = useState(() => crypto.randomUUID());
 
   const form = useForm<SignupValues>({
     resolver: zodResolver(signupSchema),
@@ -40,13 +42,16 @@ export default function SignUpPage() {
     setLoading(true);
 
     try {
-      const response = await authApi.signup(data);
+      const response = await authApi.signup(
+        { ...data, locale: navigator.language },
+        idempotencyKey,
+      );
 
       if (!response.success) {
         throw new Error(response.error || 'Registration failed');
       }
 
-      router.push('/auth/verify-email-sent');
+      router.push(`/auth/verify-email-sent?email=${encodeURIComponent(data.email)}`);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Registration failed');
     } finally {
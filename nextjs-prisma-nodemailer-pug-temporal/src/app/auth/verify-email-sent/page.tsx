@@ -1,8 +1,15 @@
 import Link from 'next/link';
 import { AuthLayout } from '../../../components/AuthLayout';
+import { ResendVerificationButton } from '../../../components/ResendVerificationButton';
 import { Alert, AlertDescription } from '../../../components/ui/alert';
 
-export default function VerifyEmailSentPage() {
+export default async function VerifyEmailSentPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ email?: string }>;
+}) {
+  const { email } = await searchParams;
+
   return (
     <AuthLayout title="Check Your Email">
       <Alert>
@@ -11,8 +18,9 @@ export default function VerifyEmailSentPage() {
           your account.
         </AlertDescription>
       </Alert>
+      {email && <ResendVerificationButton email={email} />}
       <p className="text-center text-sm text-gray-600 mt-4">
-        Didn't receive the email?{' '}
+        Used the wrong email address?{' '}
         <Link href="/auth/signup" className="text-blue-600 hover:underline">
           Try signing up again
         </Link>
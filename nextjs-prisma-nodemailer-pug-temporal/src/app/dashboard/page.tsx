@@ -0,0 +1,37 @@
+import Link from 'next/link';
+import { LogoutButton } from '../../components/LogoutButton';
+import { NotificationInbox } from '../../components/NotificationInbox';
+
+export default function DashboardPage() {
+  return (
+    <div className="container mx-auto py-10 px-4">
+      <div className="max-w-4xl mx-auto space-y-8">
+        <header className="flex items-center justify-between">
+          <h1 className="text-4xl font-bold tracking-tight">Dashboard</h1>
+          <div className="flex items-center gap-4">
+            <Link href="/admin/notifications" className="text-sm text-blue-600 hover:underline">
+              Notification admin
+            </Link>
+            <Link href="/admin/campaigns" className="text-sm text-blue-600 hover:underline">
+              Campaigns
+            </Link>
+            <Link href="/admin/templates" className="text-sm text-blue-600 hover:underline">
+              Email templates
+            </Link>
+            <Link href="/admin/email-templates" className="text-sm text-blue-600 hover:underline">
+              Template editor
+            </Link>
+            <Link href="/settings/notifications" className="text-sm text-blue-600 hover:underline">
+              Notification settings
+            </Link>
+            <NotificationInbox />
+            <LogoutButton />
+          </div>
+        </header>
+        <p className="text-lg text-muted-foreground">
+          In-app notifications sent to your account show up in the bell above.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -81,6 +81,10 @@ export default function OneOffNotificationDemo() {
           <p className="text-sm">
             This form calls{' '}
             <code className="bg-background px-2 py-1 rounded">POST /api/notifications/one-off</code>
+            , which requires signing in as a user with the{' '}
+            <code className="bg-background px-2 py-1 rounded">notifications:send_one_off</code>{' '}
+            permission (e.g. the <code className="bg-background px-2 py-1 rounded">marketing</code>{' '}
+            role).
           </p>
           <pre className="bg-background p-4 rounded-lg overflow-x-auto text-xs">
             {`{
@@ -0,0 +1,151 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { PushNotificationsCard } from '../../../components/PushNotificationsCard';
+import { Alert, AlertDescription } from '../../../components/ui/alert';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '../../../components/ui/card';
+import { Checkbox } from '../../../components/ui/checkbox';
+import { Label } from '../../../components/ui/label';
+import { notificationsApi } from '../../../lib/api-clients/notifications';
+import { type Locale, localeLabels, SUPPORTED_LOCALES } from '../../../lib/i18n';
+import type { NotificationPreferenceItem } from '../../../lib/services/notification-preferences';
+
+const notificationTypeLabels: Record<NotificationPreferenceItem['notificationType'], string> = {
+  EMAIL: 'Email',
+  PUSH: 'Push',
+  SMS: 'SMS',
+  IN_APP: 'In-app',
+};
+
+const selectClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+export default function NotificationSettingsPage() {
+  const [preferences, setPreferences] = useState<NotificationPreferenceItem[]>([]);
+  const [locale, setLocale] = useState<Locale | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    notificationsApi.getPreferences().then((response) => {
+      if (response.success) {
+        setPreferences(response.data.preferences);
+      } else {
+        setError(response.error);
+      }
+    });
+    notificationsApi.getLocale().then((response) => {
+      if (response.success) {
+        setLocale(response.data.locale);
+      } else {
+        setError(response.error);
+      }
+    });
+  }, []);
+
+  async function handleLocaleChange(newLocale: Locale) {
+    setError('');
+    const response = await notificationsApi.updateLocale({ locale: newLocale });
+
+    if (response.success && 'data' in response) {
+      setLocale(response.data.locale);
+    } else if (!response.success) {
+      setError(response.error || 'Failed to update language');
+    }
+  }
+
+  async function handleToggle(preference: NotificationPreferenceItem, enabled: boolean) {
+    setError('');
+    const response = await notificationsApi.updatePreference({
+      contextName: preference.contextName,
+      notificationType: preference.notificationType,
+      enabled,
+    });
+
+    if (response.success && 'data' in response) {
+      setPreferences(response.data.preferences);
+    } else if (!response.success) {
+      setError(response.error || 'Failed to update preference');
+    }
+  }
+
+  return (
+    <div className="container mx-auto py-10 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold tracking-tight">Notification settings</h1>
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+            Back to dashboard
+          </Link>
+        </header>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Choose what we send you</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {preferences.map((preference) => {
+              const id = `${preference.contextName}-${preference.notificationType}`;
+              return (
+                <div key={id} className="flex items-start gap-3">
+                  <Checkbox
+                    id={id}
+                    checked={preference.enabled}
+                    disabled={!preference.optional}
+                    onCheckedChange={(checked) => handleToggle(preference, checked === true)}
+                  />
+                  <div className="space-y-1">
+                    <Label htmlFor={id}>
+                      {preference.label} ({notificationTypeLabels[preference.notificationType]})
+                    </Label>
+                    <p className="text-sm text-muted-foreground">
+                      {preference.description}
+                      {!preference.optional && ' Required for your account security.'}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Language</CardTitle>
+            <CardDescription>The language of the emails and messages we send you.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="locale">Language</Label>
+            <select
+              id="locale"
+              value={locale ?? ''}
+              onChange={(e) => handleLocaleChange(e.target.value as Locale)}
+              className={selectClassName}
+              disabled={!locale}
+            >
+              {SUPPORTED_LOCALES.map((supportedLocale) => (
+                <option key={supportedLocale} value={supportedLocale}>
+                  {localeLabels[supportedLocale]}
+                </option>
+              ))}
+            </select>
+          </CardContent>
+        </Card>
+
+        <PushNotificationsCard />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { useState } from 'react';
+import { AuthLayout } from '../../../components/AuthLayout';
+import { Alert, AlertDescription } from '../../../components/ui/alert';
+import { Button } from '../../../components/ui/button';
+import { unsubscribeApi } from '../../../lib/api-clients/unsubscribe';
+
+export default function Unsubscribe() {
+  const [status, setStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
+  const params = useParams();
+
+  // Unsubscribing needs a click: link scanners in mail clients open every link they find
+  async function handleUnsubscribe() {
+    setStatus('loading');
+    try {
+      const response = await unsubscribeApi.unsubscribe(params.token as string);
+      setStatus(response.success ? 'success' : 'error');
+    } catch (_error) {
+      setStatus('error');
+    }
+  }
+
+  return (
+    <AuthLayout title="Unsubscribe">
+      {status === 'success' && (
+        <Alert variant="default">
+          <AlertDescription>
+            You have been unsubscribed and won't get these emails anymore.
+          </AlertDescription>
+        </Alert>
+      )}
+      {status === 'error' && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertDescription>
+            Failed to unsubscribe. The link may be invalid or expired.
+          </AlertDescription>
+        </Alert>
+      )}
+      {status !== 'success' && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Click below to stop receiving marketing emails from us.
+          </p>
+          <Button className="w-full" onClick={handleUnsubscribe} disabled={status === 'loading'}>
+            {status === 'loading' ? 'Unsubscribing...' : 'Unsubscribe'}
+          </Button>
+        </div>
+      )}
+    </AuthLayout>
+  );
+}
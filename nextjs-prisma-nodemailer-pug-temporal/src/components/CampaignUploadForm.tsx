@@ -0,0 +1,284 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+import { campaignsApi } from '../lib/api-clients/campaigns';
+import { parseCsv } from '../lib/csv';
+import type { CampaignColumnMapping, CampaignPreviewValues } from '../lib/schemas/campaigns';
+import type { CampaignCsvPreview } from '../lib/services/campaigns';
+import { Alert, AlertDescription } from './ui/alert';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+type MappedField =
+  | 'emailOrPhone'
+  | 'firstName'
+  | 'lastName'
+  | 'companyName'
+  | 'productName'
+  | 'locale';
+
+const mappedFields: { name: MappedField; label: string; required: boolean }[] = [
+  { name: 'emailOrPhone', label: 'Email or phone *', required: true },
+  { name: 'firstName', label: 'First name *', required: true },
+  { name: 'lastName', label: 'Last name *', required: true },
+  { name: 'companyName', label: 'Company name', required: false },
+  { name: 'productName', label: 'Product name', required: false },
+  { name: 'locale', label: 'Locale', required: false },
+];
+
+const selectClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+function normalizeColumnName(column: string) {
+  return column.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+// Picks the column named like the field, e.g. "First Name" or "first_name" for firstName
+function guessColumn(columns: string[], field: MappedField) {
+  const aliases =
+    field === 'emailOrPhone' ? ['emailorphone', 'email', 'phone'] : [field.toLowerCase()];
+  return columns.find((column) => aliases.includes(normalizeColumnName(column))) ?? '';
+}
+
+function toMapping(columnsByField: Record<MappedField, string>): CampaignColumnMapping {
+  return {
+    emailOrPhone: columnsByField.emailOrPhone,
+    firstName: columnsByField.firstName,
+    lastName: columnsByField.lastName,
+    contextParameters: {
+      companyName: columnsByField.companyName || undefined,
+      productName: columnsByField.productName || undefined,
+      locale: columnsByField.locale || undefined,
+    },
+  };
+}
+
+export function CampaignUploadForm() {
+  const router = useRouter();
+  const [name, setName] = useState('');
+  const [notificationType, setNotificationType] =
+    useState<CampaignPreviewValues['notificationType']>('EMAIL');
+  const [csv, setCsv] = useState('');
+  const [columns, setColumns] = useState<string[]>([]);
+  const [columnsByField, setColumnsByField] = useState<Record<MappedField, string>>({
+    emailOrPhone: '',
+    firstName: '',
+    lastName: '',
+    companyName: '',
+    productName: '',
+    locale: '',
+  });
+  const [preview, setPreview] = useState<CampaignCsvPreview | null>(null);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  async function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    setPreview(null);
+    setError('');
+    if (!file) {
+      setCsv('');
+      setColumns([]);
+      return;
+    }
+
+    const text = await file.text();
+    const header = (parseCsv(text)[0] ?? []).map((column) => column.trim());
+    setCsv(text);
+    setColumns(header);
+    setColumnsByField({
+      emailOrPhone: guessColumn(header, 'emailOrPhone'),
+      firstName: guessColumn(header, 'firstName'),
+      lastName: guessColumn(header, 'lastName'),
+      companyName: guessColumn(header, 'companyName'),
+      productName: guessColumn(header, 'productName'),
+      locale: guessColumn(header, 'locale'),
+    });
+  }
+
+  function handleColumnChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    setColumnsByField({ ...columnsByField, [e.target.name]: e.target.value });
+    setPreview(null);
+  }
+
+  async function handlePreview() {
+    setError('');
+    setIsLoading(true);
+    try {
+      const response = await campaignsApi.preview({
+        csv,
+        notificationType,
+        mapping: toMapping(columnsByField),
+      });
+      if (response.success && 'data' in response) {
+        setPreview(response.data.preview);
+      } else if (!response.success) {
+        setError(response.error || 'Could not validate the CSV');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+    try {
+      const response = await campaignsApi.create({
+        name,
+        csv,
+        notificationType,
+        mapping: toMapping(columnsByField),
+      });
+      if (response.success && 'data' in response) {
+        router.push(`/admin/campaigns/${response.data.campaign.id}`);
+      } else if (!response.success) {
+        setError(response.error || 'Could not start the campaign');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const isMapped = mappedFields.every((field) => !field.required || columnsByField[field.name]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>New Campaign</CardTitle>
+        <CardDescription>
+          Upload a CSV with one recipient per row and choose the column of each field. Preview the
+          rows that will be skipped before starting the campaign.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Campaign name *</Label>
+              <Input
+                id="name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="notificationType">Channel</Label>
+              <select
+                id="notificationType"
+                value={notificationType}
+                onChange={(e) => {
+                  setNotificationType(e.target.value as CampaignPreviewValues['notificationType']);
+                  setPreview(null);
+                }}
+                className={selectClassName}
+                disabled={isLoading}
+              >
+                <option value="EMAIL">Email</option>
+                <option value="SMS">SMS</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="csv">Recipients CSV *</Label>
+            <Input
+              id="csv"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileChange}
+              disabled={isLoading}
+            />
+          </div>
+
+          {columns.length > 0 && (
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-3">
+              {mappedFields.map((field) => (
+                <div key={field.name} className="space-y-2">
+                  <Label htmlFor={field.name}>{field.label}</Label>
+                  <select
+                    id={field.name}
+                    name={field.name}
+                    value={columnsByField[field.name]}
+                    onChange={handleColumnChange}
+                    className={selectClassName}
+                    disabled={isLoading}
+                  >
+                    <option value="">
+                      {field.required ? 'Choose a column' : 'Use the default'}
+                    </option>
+                    {columns.map((column) => (
+                      <option key={column} value={column}>
+                        {column}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {preview && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                {preview.validRows} of {preview.totalRows} rows will get a notification,{' '}
+                {preview.invalidRows} are invalid and {preview.duplicateRows} repeat a recipient.
+              </p>
+              {preview.errors.length > 0 && (
+                <div className="max-h-64 overflow-y-auto rounded-md border">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted text-left">
+                      <tr>
+                        <th className="px-3 py-2">Row</th>
+                        <th className="px-3 py-2">Recipient</th>
+                        <th className="px-3 py-2">Skipped because</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.errors.map((rowError) => (
+                        <tr key={rowError.rowNumber} className="border-t">
+                          <td className="px-3 py-2">{rowError.rowNumber}</td>
+                          <td className="px-3 py-2">{rowError.emailOrPhone || '-'}</td>
+                          <td className="px-3 py-2">{rowError.error}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handlePreview}
+              disabled={isLoading || !csv || !isMapped}
+            >
+              Preview
+            </Button>
+            <Button
+              type="submit"
+              disabled={isLoading || !name || !preview || preview.validRows === 0}
+            >
+              {isLoading ? 'Working...' : 'Start campaign'}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
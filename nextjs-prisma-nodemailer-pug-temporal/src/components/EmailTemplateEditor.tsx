@@ -0,0 +1,310 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { emailTemplatesApi } from '../lib/api-clients/email-templates';
+import type { EmailTemplateDetail } from '../lib/services/email-templates';
+import { diffLines } from '../lib/text-diff';
+import { Alert, AlertDescription } from './ui/alert';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+
+const selectClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+const diffLineClassNames = {
+  same: '',
+  added: 'bg-green-100 text-green-900',
+  removed: 'bg-red-100 text-red-900',
+};
+const diffLinePrefixes = { same: '  ', added: '+ ', removed: '- ' };
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : '-';
+}
+
+function TemplateDiff({ before, after }: { before: string; after: string }) {
+  const lines = diffLines(before, after);
+  if (lines.every((line) => line.type === 'same')) {
+    return <p className="text-sm text-muted-foreground">No changes</p>;
+  }
+
+  return (
+    <pre className="max-h-96 overflow-auto rounded-md border text-xs">
+      {lines.map((line, index) => (
+        // biome-ignore lint/suspicious/noArrayIndexKey: lines have no id and never reorder
+        <div key={index} className={`px-3 ${diffLineClassNames[line.type]}`}>
+          {diffLinePrefixes[line.type]}
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+type EmailTemplateEditorProps = {
+  templateKey: string;
+  // Empty for the template of every tenant
+  tenant: string;
+  // Called after a version is saved or changes status
+  onChange: () => void;
+};
+
+export function EmailTemplateEditor({ templateKey, tenant, onChange }: EmailTemplateEditorProps) {
+  const [template, setTemplate] = useState<EmailTemplateDetail | null>(null);
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  // `file` or the id of the version to compare the editor with
+  const [compareTo, setCompareTo] = useState('file');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadTemplate = useCallback(async () => {
+    const response = await emailTemplatesApi.get(templateKey, tenant);
+    if (!response.success) {
+      setError(response.error);
+      return;
+    }
+
+    const loaded = response.data.template;
+    // Edit the draft, or else start from what notifications get now
+    const current =
+      loaded.versions.find((version) => version.status === 'DRAFT') ??
+      loaded.versions.find((version) => version.status === 'PUBLISHED') ??
+      loaded.file;
+    const published = loaded.versions.find((version) => version.status === 'PUBLISHED');
+    setTemplate(loaded);
+    setSubject(current.subject);
+    setBody(current.body);
+    setCompareTo(published ? String(published.id) : 'file');
+  }, [templateKey, tenant]);
+
+  useEffect(() => {
+    setError('');
+    setMessage('');
+    loadTemplate();
+  }, [loadTemplate]);
+
+  async function saveDraft() {
+    const response = await emailTemplatesApi.saveDraft({ key: templateKey, tenant, subject, body });
+    if (response.success && 'data' in response) {
+      return response.data.version;
+    }
+    if (!response.success) {
+      setError(response.error || 'Could not save the draft');
+    }
+    return null;
+  }
+
+  async function runAction(action: () => Promise<string | null>) {
+    setError('');
+    setMessage('');
+    setIsLoading(true);
+    try {
+      const result = await action();
+      if (result) {
+        setMessage(result);
+        await loadTemplate();
+        onChange();
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function handleSaveDraft() {
+    return runAction(async () => {
+      const draft = await saveDraft();
+      return draft ? `Draft saved as version ${draft.version}` : null;
+    });
+  }
+
+  function handlePublish() {
+    return runAction(async () => {
+      const draft = await saveDraft();
+      if (!draft) {
+        return null;
+      }
+      const response = await emailTemplatesApi.publish(draft.id);
+      if (!response.success) {
+        setError(response.error || 'Could not publish the draft');
+        return null;
+      }
+      return `Version ${draft.version} published`;
+    });
+  }
+
+  function handleUnpublish(versionId: number) {
+    return runAction(async () => {
+      const response = await emailTemplatesApi.unpublish(versionId);
+      if (!response.success) {
+        setError(response.error || 'Could not unpublish the version');
+        return null;
+      }
+      return tenant
+        ? 'Unpublished. Notifications use the template for every tenant again.'
+        : 'Unpublished. Notifications use the template files again.';
+    });
+  }
+
+  function handleRollback(versionId: number, version: number) {
+    return runAction(async () => {
+      const response = await emailTemplatesApi.rollback(versionId);
+      if (response.success && 'data' in response) {
+        return `Version ${version} published again as version ${response.data.version.version}`;
+      }
+      if (!response.success) {
+        setError(response.error || 'Could not roll back');
+      }
+      return null;
+    });
+  }
+
+  if (!template) {
+    return error ? (
+      <Alert variant="destructive">
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    ) : (
+      <p className="text-muted-foreground">Loading...</p>
+    );
+  }
+
+  const published = template.versions.find((version) => version.status === 'PUBLISHED');
+  const compareVersion = template.versions.find((version) => String(version.id) === compareTo);
+  const base = compareVersion ?? template.file;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{template.name}</CardTitle>
+        <CardDescription>
+          {tenant ? `Override for the ${tenant} tenant. ` : 'Template for every tenant. '}
+          {published && `Notifications use version ${published.version}.`}
+          {!published &&
+            (tenant
+              ? 'Until a version is published, the tenant gets the template for every tenant.'
+              : 'Until a version is published, notifications use the template files.')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="subject">Subject (Pug)</Label>
+          <Input
+            id="subject"
+            value={subject}
+            onChange={(e) => setSubject(e.target.value)}
+            className="font-mono"
+            disabled={isLoading}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="body">Body (Pug, {template.format})</Label>
+          <Textarea
+            id="body"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            className="min-h-96 font-mono text-xs"
+            disabled={isLoading}
+          />
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription className="whitespace-pre-wrap">{error}</AlertDescription>
+          </Alert>
+        )}
+        {message && (
+          <Alert>
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleSaveDraft} disabled={isLoading}>
+            Save draft
+          </Button>
+          <Button onClick={handlePublish} disabled={isLoading}>
+            {isLoading ? 'Working...' : 'Publish'}
+          </Button>
+          {published && (
+            <Button
+              variant="outline"
+              onClick={() => handleUnpublish(published.id)}
+              disabled={isLoading}
+            >
+              Unpublish
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <div className="w-64 space-y-2">
+            <Label htmlFor="compareTo">Compare the editor with</Label>
+            <select
+              id="compareTo"
+              value={compareTo}
+              onChange={(e) => setCompareTo(e.target.value)}
+              className={selectClassName}
+            >
+              <option value="file">Template files</option>
+              {template.versions.map((version) => (
+                <option key={version.id} value={version.id}>
+                  Version {version.version} ({version.status.toLowerCase()})
+                </option>
+              ))}
+            </select>
+          </div>
+          <TemplateDiff before={base.subject} after={subject} />
+          <TemplateDiff before={base.body} after={body} />
+        </div>
+
+        <div className="overflow-x-auto rounded-md border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted text-left">
+              <tr>
+                <th className="px-3 py-2">Version</th>
+                <th className="px-3 py-2">Status</th>
+                <th className="px-3 py-2">Created</th>
+                <th className="px-3 py-2">Published</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {template.versions.map((version) => (
+                <tr key={version.id} className="border-t">
+                  <td className="px-3 py-2">{version.version}</td>
+                  <td className="px-3 py-2">{version.status}</td>
+                  <td className="px-3 py-2">{formatDate(version.createdAt)}</td>
+                  <td className="px-3 py-2">{formatDate(version.publishedAt)}</td>
+                  <td className="px-3 py-2 text-right">
+                    {version.status === 'ARCHIVED' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRollback(version.id, version.version)}
+                        disabled={isLoading}
+                      >
+                        Roll back to this version
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {template.versions.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-3 py-6 text-center text-muted-foreground">
+                    No versions saved yet
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
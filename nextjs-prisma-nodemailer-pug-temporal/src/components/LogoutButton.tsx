@@ -0,0 +1,20 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { authApi } from '../lib/api-clients/auth';
+import { Button } from './ui/button';
+
+export function LogoutButton() {
+  const router = useRouter();
+
+  async function handleLogout() {
+    await authApi.logout();
+    router.push('/auth/login');
+  }
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleLogout}>
+      Log out
+    </Button>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { Bell } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { notificationsApi } from '../lib/api-clients/notifications';
+import type { InAppNotificationItem } from '../lib/services/in-app-notifications';
+import { cn } from '../lib/utils';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+
+export function NotificationInbox() {
+  const [notifications, setNotifications] = useState<InAppNotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const loadNotifications = useCallback(async () => {
+    const response = await notificationsApi.list();
+    if (response.success) {
+      setNotifications(response.data.notifications);
+      setUnreadCount(response.data.unreadCount);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+
+  async function handleMarkRead(notification: InAppNotificationItem) {
+    if (notification.readAt) {
+      return;
+    }
+
+    const response = await notificationsApi.markRead(notification.id);
+    if (response.success) {
+      await loadNotifications();
+    }
+  }
+
+  async function handleMarkAllRead() {
+    const response = await notificationsApi.markAllRead();
+    if (response.success) {
+      await loadNotifications();
+    }
+  }
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && loadNotifications()}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-destructive px-1 text-xs text-destructive-foreground">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              className="text-xs font-normal text-blue-600 hover:underline"
+              onClick={handleMarkAllRead}
+            >
+              Mark all as read
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 && (
+          <p className="px-2 py-4 text-center text-sm text-muted-foreground">
+            You have no notifications
+          </p>
+        )}
+        {notifications.map((notification) => (
+          <DropdownMenuItem
+            key={notification.id}
+            className={cn('flex flex-col items-start gap-1', !notification.readAt && 'bg-muted')}
+            onSelect={() => handleMarkRead(notification)}
+          >
+            <span className="font-medium">{notification.title}</span>
+            <span className="text-xs text-muted-foreground">{notification.body}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,21 +1,29 @@
 'use client';
 
 import { useState } from 'react';
+import { fetchWithSession } from '../lib/api-clients/core';
+import { DEFAULT_LOCALE, localeLabels, SUPPORTED_LOCALES } from '../lib/i18n';
+import { IDEMPOTENCY_KEY_HEADER } from '../lib/idempotency';
 import { Alert, AlertDescription } from './ui/alert';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 
 export function OneOffNotificationForm() {
   const [formData, setFormData] = useState({
+    notificationType: 'EMAIL',
     emailOrPhone: '',
     firstName: '',
     lastName: '',
     companyName: 'VintaSend Demo',
     productName: '',
+    locale: DEFAULT_LOCALE,
   });
 
+  // Sent with every attempt of the same submission, so retrying after an error sends it once
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<{
     success: boolean;
@@ -29,25 +37,30 @@ export function OneOffNotificationForm() {
     setResult(null);
 
     try {
-      const response = await fetch('/api/notifications/one-off', {
+      const response = await fetchWithSession('/api/notifications/one-off', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          [IDEMPOTENCY_KEY_HEADER]: idempotencyKey,
         },
         body: JSON.stringify(formData),
       });
 
       const data = await response.json();
-      setResult(data);
+      // Authorization errors only carry `error`, e.g. when signed out or missing the permission
+      setResult({ ...data, message: data.message ?? data.error });
 
       if (data.success) {
+        setIdempotencyKey(crypto.randomUUID());
         // Reset form on success
         setFormData({
+          notificationType: formData.notificationType,
           emailOrPhone: '',
           firstName: '',
           lastName: '',
           companyName: 'VintaSend Demo',
           productName: '',
+          locale: formData.locale,
         });
       }
     } catch (error) {
@@ -67,24 +80,45 @@ export function OneOffNotificationForm() {
     });
   };
 
+  const isSms = formData.notificationType === 'SMS';
+
   return (
     <Card className="w-full max-w-2xl">
       <CardHeader>
         <CardTitle>Send One-Off Notification</CardTitle>
         <CardDescription>
-          Send a welcome email to a prospect without requiring them to have an account in the
-          system.
+          Send a welcome email or text message to a prospect without requiring them to have an
+          account in the system.
         </CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="emailOrPhone">Email Address *</Label>
+            <Label htmlFor="notificationType">Channel</Label>
+            <Select
+              value={formData.notificationType}
+              onValueChange={(notificationType) =>
+                setFormData({ ...formData, notificationType, emailOrPhone: '' })
+              }
+              disabled={isLoading}
+            >
+              <SelectTrigger id="notificationType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="EMAIL">Email</SelectItem>
+                <SelectItem value="SMS">SMS</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="emailOrPhone">{isSms ? 'Phone Number *' : 'Email Address *'}</Label>
             <Input
               id="emailOrPhone"
               name="emailOrPhone"
-              type="email"
-              placeholder="prospect@example.com"
+              type={isSms ? 'tel' : 'email'}
+              placeholder={isSms ? '+5581999999999' : 'prospect@example.com'}
               value={formData.emailOrPhone}
               onChange={handleChange}
               required
@@ -144,8 +178,28 @@ export function OneOffNotificationForm() {
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="locale">Language</Label>
+            <Select
+              value={formData.locale}
+              onValueChange={(locale) => setFormData({ ...formData, locale })}
+              disabled={isLoading}
+            >
+              <SelectTrigger id="locale">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_LOCALES.map((locale) => (
+                  <SelectItem key={locale} value={locale}>
+                    {localeLabels[locale]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <Button type="submit" className="w-full" disabled={isLoading}>
-            {isLoading ? 'Sending...' : 'Send Welcome Email'}
+            {isLoading ? 'Sending...' : isSms ? 'Send Welcome SMS' : 'Send Welcome Email'}
           </Button>
 
           {result && (
@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { notificationsApi } from '../lib/api-clients/notifications';
+import type { PushSubscriptionValues } from '../lib/schemas/push-subscriptions';
+import { Alert, AlertDescription } from './ui/alert';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+
+const SERVICE_WORKER_URL = '/push-sw.js';
+
+// PushManager.subscribe expects the VAPID public key as bytes, not base64url
+function urlBase64ToUint8Array(base64String: string) {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(window.atob(base64), (character) => character.charCodeAt(0));
+}
+
+export function PushNotificationsCard() {
+  const [isSupported, setIsSupported] = useState(false);
+  const [subscription, setSubscription] = useState<PushSubscription | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator) || !('PushManager' in window)) {
+      return;
+    }
+
+    setIsSupported(true);
+    navigator.serviceWorker
+      .register(SERVICE_WORKER_URL)
+      .then((registration) => registration.pushManager.getSubscription())
+      .then(setSubscription);
+  }, []);
+
+  async function handleEnable() {
+    const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+    if (!publicKey) {
+      setResult({ success: false, message: 'Push notifications are not configured' });
+      return;
+    }
+
+    setIsLoading(true);
+    setResult(null);
+    try {
+      if ((await Notification.requestPermission()) !== 'granted') {
+        setResult({ success: false, message: 'Notifications are blocked in this browser' });
+        return;
+      }
+
+      const registration = await navigator.serviceWorker.ready;
+      const newSubscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(publicKey),
+      });
+      const response = await notificationsApi.subscribePush(
+        newSubscription.toJSON() as PushSubscriptionValues,
+      );
+      if (response.success) {
+        setSubscription(newSubscription);
+      } else {
+        await newSubscription.unsubscribe();
+        setResult({ success: false, message: response.error || 'Failed to enable push' });
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleDisable() {
+    if (!subscription) {
+      return;
+    }
+
+    setIsLoading(true);
+    setResult(null);
+    try {
+      await notificationsApi.unsubscribePush({ endpoint: subscription.endpoint });
+      await subscription.unsubscribe();
+      setSubscription(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleSendTest() {
+    setResult(null);
+    const response = await notificationsApi.sendTestPush();
+    setResult({
+      success: response.success,
+      message: response.success
+        ? 'Test notification sent, it should show up in a few seconds'
+        : response.error || 'Failed to send the test notification',
+    });
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Push notifications</CardTitle>
+        <CardDescription>Get notified on this device even when the app is closed.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isSupported && (
+          <p className="text-sm text-muted-foreground">
+            This browser does not support push notifications.
+          </p>
+        )}
+        {isSupported && (
+          <div className="flex gap-2">
+            {subscription ? (
+              <>
+                <Button variant="outline" onClick={handleDisable} disabled={isLoading}>
+                  Disable on this device
+                </Button>
+                <Button variant="secondary" onClick={handleSendTest} disabled={isLoading}>
+                  Send a test notification
+                </Button>
+              </>
+            ) : (
+              <Button onClick={handleEnable} disabled={isLoading}>
+                Enable on this device
+              </Button>
+            )}
+          </div>
+        )}
+        {result && (
+          <Alert variant={result.success ? 'default' : 'destructive'}>
+            <AlertDescription>{result.message}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { useState } from 'react';
+import { authApi } from '../lib/api-clients/auth';
+import { Alert, AlertDescription } from './ui/alert';
+import { Button } from './ui/button';
+
+export function ResendVerificationButton({ email }: { email: string }) {
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  async function handleResend() {
+    setMessage('');
+    setError('');
+    setLoading(true);
+
+    try {
+      const response = await authApi.resendVerification(email);
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to resend the verification email');
+      }
+
+      setMessage('message' in response ? response.message : 'Verification email sent');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resend the verification email');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="mt-4 space-y-4">
+      {message && (
+        <Alert>
+          <AlertDescription>{message}</AlertDescription>
+        </Alert>
+      )}
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      <Button variant="outline" className="w-full" onClick={handleResend} disabled={loading}>
+        {loading ? 'Sending...' : 'Resend verification email'}
+      </Button>
+    </div>
+  );
+}
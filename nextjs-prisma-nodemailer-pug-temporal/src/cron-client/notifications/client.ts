@@ -1,49 +1,106 @@
-import { WorkflowExecutionAlreadyStartedError } from '@temporalio/client';
+import {
+  type Client,
+  ScheduleAlreadyRunning,
+  type ScheduleOptions,
+  ScheduleOverlapPolicy,
+  WorkflowNotFoundError,
+} from '@temporalio/client';
 import { logger } from '../../lib/logger';
 import { getTemporalClient } from '../../lib/temporal';
-import { NOTIFICATIONS_QUEUE } from '../../workers/notifications/constants';
-import { sendAllPendingNotificationsWorkflow } from '../../workers/notifications/workflows';
+import { getSendsPerSecond } from '../../workers/notifications/config';
+import {
+  EXPIRED_RATE_LIMIT_COUNTERS_SCHEDULE_ID,
+  EXPIRED_TOKENS_SCHEDULE_ID,
+  NOTIFICATIONS_QUEUE,
+  PENDING_NOTIFICATIONS_SCHEDULE_ID,
+} from '../../workers/notifications/constants';
+import {
+  deleteExpiredRateLimitCountersWorkflow,
+  deleteExpiredTokensWorkflow,
+  sendAllPendingNotificationsWorkflow,
+} from '../../workers/notifications/workflows';
 
-// Save this to later terminate or cancel this schedule
-const workflowId = 'send-all-pending-notifications-workflow';
+// Cron workflow started by previous versions of this client
+const legacyCronWorkflowId = 'send-all-pending-notifications-workflow';
 
+async function upsertSchedule(
+  client: Client,
+  scheduleId: string,
+  scheduleOptions: Omit<ScheduleOptions, 'scheduleId'>,
+) {
+  try {
+    await client.schedule.create({ scheduleId, ...scheduleOptions });
+    logger.info(`Created schedule ${scheduleId}`);
+  } catch (err) {
+    if (!(err instanceof ScheduleAlreadyRunning)) {
+      throw err;
+    }
+
+    await client.schedule
+      .getHandle(scheduleId)
+      .update((previous) => ({ ...previous, ...scheduleOptions }));
+    logger.info(`Updated schedule ${scheduleId}`);
+  }
+}
+
+/**
+ * Creates (or updates) the Temporal Schedules and exits:
+ * - the pending notifications sweep. Scheduled notifications are sent on time by the durable
+ *   timer in `sendNotificationWorkflow`, so the sweep is only a safety net for notifications
+ *   that never got a workflow.
+ * - the expired tokens cleanup, which deletes verification, password reset and refresh tokens
+ *   nobody can use anymore.
+ * - the expired rate limit counters cleanup.
+ */
 async function run() {
   const client = await getTemporalClient();
 
-  try {
-    const handle = await client.workflow.start(sendAllPendingNotificationsWorkflow, {
+  await upsertSchedule(client, PENDING_NOTIFICATIONS_SCHEDULE_ID, {
+    spec: { intervals: [{ every: '5 minutes' }] },
+    action: {
+      type: 'startWorkflow',
+      workflowType: sendAllPendingNotificationsWorkflow,
+      taskQueue: NOTIFICATIONS_QUEUE,
+      args: [{ sendsPerSecond: getSendsPerSecond() }],
+    },
+    policies: { overlap: ScheduleOverlapPolicy.SKIP },
+  });
+
+  await upsertSchedule(client, EXPIRED_TOKENS_SCHEDULE_ID, {
+    spec: { intervals: [{ every: '1 hour' }] },
+    action: {
+      type: 'startWorkflow',
+      workflowType: deleteExpiredTokensWorkflow,
       taskQueue: NOTIFICATIONS_QUEUE,
-      workflowId,
-      cronSchedule: '*/5 * * * *', // start every 5 minutes
       args: [],
-    });
+    },
+    policies: { overlap: ScheduleOverlapPolicy.SKIP },
+  });
 
-    try {
-      await handle.result(); // await completion of Workflow, which doesn't happen since it's a cron Workflow
-    } catch (err) {
-      logger.error(`${err instanceof Error ? err : 'error'}: ${handle.workflowId}`);
-    }
+  await upsertSchedule(client, EXPIRED_RATE_LIMIT_COUNTERS_SCHEDULE_ID, {
+    spec: { intervals: [{ every: '1 hour' }] },
+    action: {
+      type: 'startWorkflow',
+      workflowType: deleteExpiredRateLimitCountersWorkflow,
+      taskQueue: NOTIFICATIONS_QUEUE,
+      args: [],
+    },
+    policies: { overlap: ScheduleOverlapPolicy.SKIP },
+  });
+
+  try {
+    await client.workflow.getHandle(legacyCronWorkflowId).terminate('Replaced by a schedule');
+    logger.info(`Terminated legacy cron workflow ${legacyCronWorkflowId}`);
   } catch (err) {
-    if (err instanceof WorkflowExecutionAlreadyStartedError) {
-      logger.info('Workflow is already running, skipping start');
-    } else {
+    if (!(err instanceof WorkflowNotFoundError)) {
       throw err;
     }
   }
 }
 
-// just for this demo - cancel the workflow on Ctrl+C
-process.on('SIGINT', async () => {
-  const client = await getTemporalClient();
-
-  const handle = client.workflow.getHandle(workflowId);
-  await handle.cancel();
-  logger.info(`\nCanceled Workflow ${handle.workflowId}`);
-  process.exit(0);
-});
-// you cannot catch SIGKILL
-
-run().catch((err) => {
-  logger.error(err);
-  process.exit(1);
-});
+run()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    logger.error(err);
+    process.exit(1);
+  });
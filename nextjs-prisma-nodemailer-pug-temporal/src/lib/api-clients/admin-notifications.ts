@@ -0,0 +1,60 @@
+import type { DuplicateNotificationApiResponse } from '../../app/api/admin/notifications/[id]/duplicate/route';
+import type { ResendNotificationApiResponse } from '../../app/api/admin/notifications/[id]/resend/route';
+import type { AdminNotificationApiResponse } from '../../app/api/admin/notifications/[id]/route';
+import type { AdminNotificationsApiResponse } from '../../app/api/admin/notifications/route';
+import type {
+  DuplicateNotificationValues,
+  NotificationSearchValues,
+} from '../schemas/admin-notifications';
+import { fetchWithSession } from './core';
+
+// Filters as typed in the admin form; empty ones are left out of the query string
+export type NotificationSearchParams = Partial<Record<keyof NotificationSearchValues, string>>;
+
+export class AdminNotificationsApi {
+  private baseUrl: string;
+
+  constructor(baseUrl = '/api/admin/notifications') {
+    this.baseUrl = baseUrl;
+  }
+
+  async list(filters: NotificationSearchParams): Promise<AdminNotificationsApiResponse> {
+    const query = new URLSearchParams(
+      Object.entries(filters).filter((entry): entry is [string, string] => !!entry[1]),
+    );
+    const response = await fetchWithSession(`${this.baseUrl}?${query}`);
+
+    return response.json();
+  }
+
+  async get(notificationId: number): Promise<AdminNotificationApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/${notificationId}`);
+
+    return response.json();
+  }
+
+  async resend(notificationId: number): Promise<ResendNotificationApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/${notificationId}/resend`, {
+      method: 'POST',
+    });
+
+    return response.json();
+  }
+
+  async duplicate(
+    notificationId: number,
+    data: DuplicateNotificationValues,
+  ): Promise<DuplicateNotificationApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/${notificationId}/duplicate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+
+    return response.json();
+  }
+}
+
+export const adminNotificationsApi = new AdminNotificationsApi();
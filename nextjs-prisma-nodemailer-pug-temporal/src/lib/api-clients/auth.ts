@@ -1,8 +1,13 @@
 import type { ForgotPasswordApiResponse } from '../../app/api/auth/forgot-password/route';
 import type { LoginApiResponse } from '../../app/api/auth/login/route';
+import type { LogoutApiResponse } from '../../app/api/auth/logout/route';
+import type { MagicLinkApiResponse } from '../../app/api/auth/magic-link/route';
+import type { MagicLinkLoginApiResponse } from '../../app/api/auth/magic-link/verify/route';
+import type { ResendVerificationApiResponse } from '../../app/api/auth/resend-verification/route';
 import type { PasswordResetApiResponse } from '../../app/api/auth/reset-password/route';
 import type { SignupApiResponse } from '../../app/api/auth/signup/route';
 import type { VerifyEmailApiResponse } from '../../app/api/auth/verify-email/route';
+import { IDEMPOTENCY_KEY_HEADER } from '../../lib/idempotency';
 import type { LoginValues, PasswordResetValues, SignupValues } from '../../lib/schemas/auth';
 
 export class AuthApi {
@@ -24,11 +29,44 @@ export class AuthApi {
     return response.json();
   }
 
-  async signup(data: SignupValues): Promise<SignupApiResponse> {
+  async requestMagicLink(email: string): Promise<MagicLinkApiResponse> {
+    const response = await fetch(`${this.baseUrl}/magic-link`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ email }),
+    });
+
+    return response.json();
+  }
+
+  async loginWithMagicLink(token: string): Promise<MagicLinkLoginApiResponse> {
+    const response = await fetch(`${this.baseUrl}/magic-link/verify`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ token }),
+    });
+
+    return response.json();
+  }
+
+  async logout(): Promise<LogoutApiResponse> {
+    const response = await fetch(`${this.baseUrl}/logout`, {
+      method: 'POST',
+    });
+
+    return response.json();
+  }
+
+  async signup(data: SignupValues, idempotencyKey?: string): Promise<SignupApiResponse> {
     const response = await fetch(`${this.baseUrl}/signup`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(idempotencyKey && { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey }),
       },
       body: JSON.stringify(data),
     });
@@ -60,6 +98,18 @@ export class AuthApi {
     return response.json();
   }
 
+  async resendVerification(email: string): Promise<ResendVerificationApiResponse> {
+    const response = await fetch(`${this.baseUrl}/resend-verification`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ email }),
+    });
+
+    return response.json();
+  }
+
   async verifyEmail(token: string): Promise<VerifyEmailApiResponse> {
     const response = await fetch(`${this.baseUrl}/verify-email`, {
       method: 'POST',
@@ -0,0 +1,69 @@
+import type { CampaignApiResponse } from '../../app/api/campaigns/[id]/route';
+import type { CampaignRowsApiResponse } from '../../app/api/campaigns/[id]/rows/route';
+import type { CampaignPreviewApiResponse } from '../../app/api/campaigns/preview/route';
+import type {
+  CampaignsApiResponse,
+  CreateCampaignApiResponse,
+} from '../../app/api/campaigns/route';
+import type { CampaignPreviewValues, CreateCampaignValues } from '../schemas/campaigns';
+import { fetchWithSession } from './core';
+
+export class CampaignsApi {
+  private baseUrl: string;
+
+  constructor(baseUrl = '/api/campaigns') {
+    this.baseUrl = baseUrl;
+  }
+
+  async list(page = 0): Promise<CampaignsApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}?page=${page}`);
+
+    return response.json();
+  }
+
+  async preview(data: CampaignPreviewValues): Promise<CampaignPreviewApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/preview`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+
+    return response.json();
+  }
+
+  async create(data: CreateCampaignValues): Promise<CreateCampaignApiResponse> {
+    const response = await fetchWithSession(this.baseUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+
+    return response.json();
+  }
+
+  async get(campaignId: number): Promise<CampaignApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/${campaignId}`);
+
+    return response.json();
+  }
+
+  async rows(campaignId: number, page = 0, status = ''): Promise<CampaignRowsApiResponse> {
+    const query = new URLSearchParams({ page: String(page), status });
+    const response = await fetchWithSession(`${this.baseUrl}/${campaignId}/rows?${query}`);
+
+    return response.json();
+  }
+
+  // Null when the report couldn't be downloaded
+  async errorReport(campaignId: number): Promise<Blob | null> {
+    const response = await fetchWithSession(`${this.baseUrl}/${campaignId}/error-report`);
+
+    return response.ok ? response.blob() : null;
+  }
+}
+
+export const campaignsApi = new CampaignsApi();
@@ -8,7 +8,7 @@ type SuccessDataApiResponse<SuccessSchema> = {
   data: SuccessSchema;
 };
 
-type GenericErrorApiResponse = {
+export type GenericErrorApiResponse = {
   success: false;
   error: string;
 };
@@ -24,3 +24,32 @@ export type WriteApiResponse<SuccessSchema = {}, ValidationErrorSchema = {}> =
   | SuccessDataApiResponse<SuccessSchema>
   | GenericErrorApiResponse
   | ValidationErrorApiResponse<ValidationErrorSchema>;
+
+export type ReadApiResponse<SuccessSchema> =
+  | SuccessDataApiResponse<SuccessSchema>
+  | GenericErrorApiResponse;
+
+let refreshingSession: Promise<boolean> | null = null;
+
+function refreshSession(): Promise<boolean> {
+  // Requests that fail together share one refresh, since each refresh token works only once
+  refreshingSession ??= fetch('/api/auth/refresh', { method: 'POST' })
+    .then((response) => response.ok)
+    .finally(() => {
+      refreshingSession = null;
+    });
+  return refreshingSession;
+}
+
+/**
+ * `fetch` for endpoints that need a session. The session cookies are sent automatically;
+ * when the access token has expired, it is refreshed once and the request retried.
+ */
+export async function fetchWithSession(input: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(input, init);
+  if (response.status !== 401 || !(await refreshSession())) {
+    return response;
+  }
+
+  return fetch(input, init);
+}
@@ -0,0 +1,69 @@
+import type { EmailTemplatesApiResponse } from '../../app/api/email-templates/route';
+import type {
+  EmailTemplateApiResponse,
+  SaveEmailTemplateDraftApiResponse,
+} from '../../app/api/email-templates/template/route';
+import type { PublishEmailTemplateVersionApiResponse } from '../../app/api/email-templates/versions/[id]/publish/route';
+import type { RollbackEmailTemplateVersionApiResponse } from '../../app/api/email-templates/versions/[id]/rollback/route';
+import type { UnpublishEmailTemplateVersionApiResponse } from '../../app/api/email-templates/versions/[id]/unpublish/route';
+import type { SaveEmailTemplateDraftValues } from '../schemas/email-templates';
+import { fetchWithSession } from './core';
+
+export class EmailTemplatesApi {
+  private baseUrl: string;
+
+  constructor(baseUrl = '/api/email-templates') {
+    this.baseUrl = baseUrl;
+  }
+
+  async list(): Promise<EmailTemplatesApiResponse> {
+    const response = await fetchWithSession(this.baseUrl);
+
+    return response.json();
+  }
+
+  async get(key: string, tenant = ''): Promise<EmailTemplateApiResponse> {
+    const query = new URLSearchParams({ key, tenant });
+    const response = await fetchWithSession(`${this.baseUrl}/template?${query}`);
+
+    return response.json();
+  }
+
+  async saveDraft(data: SaveEmailTemplateDraftValues): Promise<SaveEmailTemplateDraftApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/template`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+
+    return response.json();
+  }
+
+  async publish(versionId: number): Promise<PublishEmailTemplateVersionApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/versions/${versionId}/publish`, {
+      method: 'POST',
+    });
+
+    return response.json();
+  }
+
+  async rollback(versionId: number): Promise<RollbackEmailTemplateVersionApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/versions/${versionId}/rollback`, {
+      method: 'POST',
+    });
+
+    return response.json();
+  }
+
+  async unpublish(versionId: number): Promise<UnpublishEmailTemplateVersionApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/versions/${versionId}/unpublish`, {
+      method: 'POST',
+    });
+
+    return response.json();
+  }
+}
+
+export const emailTemplatesApi = new EmailTemplatesApi();
@@ -0,0 +1,155 @@
+import type { CancelNotificationApiResponse } from '../../app/api/notifications/[id]/cancel/route';
+import type { MarkNotificationReadApiResponse } from '../../app/api/notifications/[id]/read/route';
+import type { RescheduleNotificationApiResponse } from '../../app/api/notifications/[id]/reschedule/route';
+import type {
+  NotificationLocaleApiResponse,
+  UpdateNotificationLocaleApiResponse,
+} from '../../app/api/notifications/locale/route';
+import type {
+  NotificationPreferencesApiResponse,
+  UpdateNotificationPreferenceApiResponse,
+} from '../../app/api/notifications/preferences/route';
+import type {
+  SubscribePushApiResponse,
+  UnsubscribePushApiResponse,
+} from '../../app/api/notifications/push-subscriptions/route';
+import type { SendTestPushApiResponse } from '../../app/api/notifications/push-subscriptions/test/route';
+import type { MarkAllNotificationsReadApiResponse } from '../../app/api/notifications/read-all/route';
+import type { InAppNotificationsApiResponse } from '../../app/api/notifications/route';
+import type {
+  UpdateNotificationLocaleValues,
+  UpdateNotificationPreferenceValues,
+} from '../schemas/notification-preferences';
+import type { RescheduleNotificationValues } from '../schemas/notification-scheduling';
+import type {
+  DeletePushSubscriptionValues,
+  PushSubscriptionValues,
+} from '../schemas/push-subscriptions';
+import { fetchWithSession } from './core';
+
+export class NotificationsApi {
+  private baseUrl: string;
+
+  constructor(baseUrl = '/api/notifications') {
+    this.baseUrl = baseUrl;
+  }
+
+  async list(page = 0): Promise<InAppNotificationsApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}?page=${page}`);
+
+    return response.json();
+  }
+
+  async markRead(notificationId: number): Promise<MarkNotificationReadApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/${notificationId}/read`, {
+      method: 'POST',
+    });
+
+    return response.json();
+  }
+
+  async markAllRead(): Promise<MarkAllNotificationsReadApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/read-all`, {
+      method: 'POST',
+    });
+
+    return response.json();
+  }
+
+  async getPreferences(): Promise<NotificationPreferencesApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/preferences`);
+
+    return response.json();
+  }
+
+  async updatePreference(
+    data: UpdateNotificationPreferenceValues,
+  ): Promise<UpdateNotificationPreferenceApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/preferences`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+
+    return response.json();
+  }
+
+  async getLocale(): Promise<NotificationLocaleApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/locale`);
+
+    return response.json();
+  }
+
+  async updateLocale(
+    data: UpdateNotificationLocaleValues,
+  ): Promise<UpdateNotificationLocaleApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/locale`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+
+    return response.json();
+  }
+
+  async cancel(notificationId: number): Promise<CancelNotificationApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/${notificationId}/cancel`, {
+      method: 'POST',
+    });
+
+    return response.json();
+  }
+
+  async reschedule(
+    notificationId: number,
+    data: RescheduleNotificationValues,
+  ): Promise<RescheduleNotificationApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/${notificationId}/reschedule`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+
+    return response.json();
+  }
+
+  async subscribePush(data: PushSubscriptionValues): Promise<SubscribePushApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/push-subscriptions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+
+    return response.json();
+  }
+
+  async unsubscribePush(data: DeletePushSubscriptionValues): Promise<UnsubscribePushApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/push-subscriptions`, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+
+    return response.json();
+  }
+
+  async sendTestPush(): Promise<SendTestPushApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/push-subscriptions/test`, {
+      method: 'POST',
+    });
+
+    return response.json();
+  }
+}
+
+export const notificationsApi = new NotificationsApi();
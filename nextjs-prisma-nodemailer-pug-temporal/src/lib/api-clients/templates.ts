@@ -0,0 +1,45 @@
+import type { TemplatePreviewApiResponse } from '../../app/api/templates/preview/route';
+import type { TemplatesApiResponse } from '../../app/api/templates/route';
+import type { TemplateTestSendApiResponse } from '../../app/api/templates/test-send/route';
+import type { TemplatePreviewValues } from '../schemas/templates';
+import { fetchWithSession } from './core';
+
+export class TemplatesApi {
+  private baseUrl: string;
+
+  constructor(baseUrl = '/api/templates') {
+    this.baseUrl = baseUrl;
+  }
+
+  async list(): Promise<TemplatesApiResponse> {
+    const response = await fetchWithSession(this.baseUrl);
+
+    return response.json();
+  }
+
+  async preview(data: TemplatePreviewValues): Promise<TemplatePreviewApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/preview`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+
+    return response.json();
+  }
+
+  async testSend(data: TemplatePreviewValues): Promise<TemplateTestSendApiResponse> {
+    const response = await fetchWithSession(`${this.baseUrl}/test-send`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+
+    return response.json();
+  }
+}
+
+export const templatesApi = new TemplatesApi();
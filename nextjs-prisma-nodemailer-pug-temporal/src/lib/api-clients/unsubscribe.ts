@@ -0,0 +1,19 @@
+import type { UnsubscribeApiResponse } from '../../app/api/unsubscribe/[token]/route';
+
+export class UnsubscribeApi {
+  private baseUrl: string;
+
+  constructor(baseUrl = '/api/unsubscribe') {
+    this.baseUrl = baseUrl;
+  }
+
+  async unsubscribe(token: string): Promise<UnsubscribeApiResponse> {
+    const response = await fetch(`${this.baseUrl}/${token}`, {
+      method: 'POST',
+    });
+
+    return response.json();
+  }
+}
+
+export const unsubscribeApi = new UnsubscribeApi();
@@ -0,0 +1,24 @@
+// Reverse proxies in front of the app that append to X-Forwarded-For, e.g. 2 for a CDN in
+// front of a load balancer
+const TRUSTED_PROXY_HOPS = Number(process.env.TRUSTED_PROXY_HOPS || 1);
+
+/**
+ * The IP address of whoever sent the request, as seen by the outermost trusted proxy: the
+ * TRUSTED_PROXY_HOPS-th X-Forwarded-For entry from the right. The entries left of it come from
+ * the client and can be anything. Falls back to 'unknown' when the request didn't go through
+ * that many proxies.
+ */
+export function getClientIp(req: Request): string {
+  const forwardedFor = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (TRUSTED_PROXY_HOPS < 1 || forwardedFor.length < TRUSTED_PROXY_HOPS) {
+    return 'unknown';
+  }
+  return forwardedFor[forwardedFor.length - TRUSTED_PROXY_HOPS];
+}
+
+export function getUserAgent(req: Request): string {
+  return req.headers.get('user-agent') ?? 'unknown';
+}
@@ -0,0 +1,7 @@
+import type { ContextGenerator } from 'vintasend';
+
+export class PushTestContextGenerator implements ContextGenerator {
+  async generate(_params: Record<string, never>): Promise<{ url: string }> {
+    return { url: `${process.env.APP_DOMAIN}/dashboard` };
+  }
+}
@@ -1,20 +1,35 @@
 import type { ContextGenerator } from 'vintasend';
+import { resolveLocale } from '../i18n';
+import { generateUnsubscribeToken } from '../services/email-suppressions';
 
 export class WelcomeProspectContextGenerator implements ContextGenerator {
   async generate(params: {
     companyName: string;
     productName?: string;
+    email: string;
+    // One-off recipients have no user, so their locale comes with the notification
+    locale?: string;
   }): Promise<{
+    locale: string;
     companyName: string;
     productName: string;
     contactEmail: string;
     currentYear: number;
+    unsubscribeUrl: string;
+    listUnsubscribeUrl: string;
   }> {
+    const APP_DOMAIN = process.env.APP_DOMAIN;
+    const unsubscribeToken = generateUnsubscribeToken(params.email);
+
     return {
+      locale: resolveLocale(params.locale),
       companyName: params.companyName,
       productName: params.productName || 'VintaSend',
       contactEmail: process.env.CONTACT_EMAIL || 'hello@example.com',
       currentYear: new Date().getFullYear(),
+      unsubscribeUrl: `${APP_DOMAIN}/unsubscribe/${unsubscribeToken}`,
+      // One-click endpoint used by mail clients through the List-Unsubscribe header
+      listUnsubscribeUrl: `${APP_DOMAIN}/api/unsubscribe/${unsubscribeToken}`,
     };
   }
 }
@@ -0,0 +1,23 @@
+import type { ContextGenerator } from 'vintasend';
+import { resolveLocale } from '../i18n';
+
+export class WelcomeProspectSmsContextGenerator implements ContextGenerator {
+  async generate(params: {
+    companyName: string;
+    productName?: string;
+    firstName: string;
+    locale?: string;
+  }): Promise<{
+    locale: string;
+    companyName: string;
+    productName: string;
+    firstName: string;
+  }> {
+    return {
+      locale: resolveLocale(params.locale),
+      companyName: params.companyName,
+      productName: params.productName || 'VintaSend',
+      firstName: params.firstName,
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('toCsv', () => {
+  it.each([
+    ['=HYPERLINK("https://evil.example.com")', `"'=HYPERLINK(""https://evil.example.com"")"`],
+    ['+1+1', "'+1+1"],
+    ['-2', "'-2"],
+    ['@SUM(A1)', "'@SUM(A1)"],
+    ['\t=1', "'\t=1"],
+    ['\r=1', `"'\r=1"`],
+  ])('prefixes the formula %j with a quote', (field, escaped) => {
+    expect(toCsv([[field]])).toBe(escaped);
+  });
+
+  it('keeps phone numbers and email addresses valid for a new upload', () => {
+    const rows = [['+5581999999999', '+ana@example.com', '-ana@example.com']];
+
+    expect(toCsv(rows)).toBe('+5581999999999,+ana@example.com,-ana@example.com');
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it('quotes fields with commas, quotes and line breaks', () => {
+    const rows = [['Silva, Ana', 'say "hi"', 'line\nbreak']];
+
+    expect(toCsv(rows)).toBe('"Silva, Ana","say ""hi""","line\nbreak"');
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,73 @@
+import * as z from 'zod';
+import { isE164PhoneNumber } from './sms';
+
+/**
+ * Parses RFC 4180 CSV: fields may be quoted, and quoted fields may contain commas, line breaks
+ * and doubled quotes. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+// Spreadsheet apps run fields starting with these as formulas
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+// Phone numbers and email addresses can't hold a formula, and must stay valid when re-uploaded
+function isFormula(field: string): boolean {
+  return (
+    FORMULA_PREFIXES.some((prefix) => field.startsWith(prefix)) &&
+    !isE164PhoneNumber(field) &&
+    !z.email().safeParse(field).success
+  );
+}
+
+/**
+ * Quotes the field when needed, and prefixes fields that would be read as a formula with `'`
+ * so opening the CSV in a spreadsheet can't run a formula from a recipient's name.
+ */
+function escapeCsvField(field: string): string {
+  const safeField = isFormula(field) ? `'${field}` : field;
+  return /[",\r\n]/.test(safeField) ? `"${safeField.replaceAll('"', '""')}"` : safeField;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n');
+}
@@ -0,0 +1,42 @@
+import juice from 'juice';
+import { htmlToText } from './html-to-text';
+
+// Whitespace after the preheader, so inbox previews don't continue with the start of the body
+const PREHEADER_PADDING = '&nbsp;&zwnj;'.repeat(60);
+
+/**
+ * Copies the rules of the `<style>` blocks into `style` attributes, for email clients that
+ * strip `<head>` or ignore style blocks.
+ */
+export function inlineCss(html: string): string {
+  return juice(html);
+}
+
+/**
+ * Adds the preheader, the text inbox lists show next to the subject, hidden at the start of
+ * the body.
+ */
+export function addPreheader(html: string, preheader: string): string {
+  const element =
+    '<div style="display:none;max-height:0;max-width:0;overflow:hidden;opacity:0;mso-hide:all">' +
+    `${preheader}${PREHEADER_PADDING}</div>`;
+  return /<body[^>]*>/i.test(html)
+    ? html.replace(/<body[^>]*>/i, (bodyTag) => `${bodyTag}${element}`)
+    : `${element}${html}`;
+}
+
+/**
+ * The HTML and plain-text parts of an email from its rendered HTML body: the CSS inlined, the
+ * preheader added when there is one, and `text` as the plain-text part, or else the text
+ * converted from the HTML.
+ */
+export function buildEmailParts(
+  html: string,
+  { text, preheader }: { text: string | null; preheader: string | null },
+): { html: string; text: string } {
+  const inlined = inlineCss(html);
+  return {
+    html: preheader ? addPreheader(inlined, preheader) : inlined,
+    text: text ?? htmlToText(html),
+  };
+}
@@ -0,0 +1,40 @@
+export type EmailTheme = {
+  companyName: string;
+  // Shown in the header instead of the company name when set
+  logoUrl: string | null;
+  // Buttons and the header rule
+  primaryColor: string;
+  buttonTextColor: string;
+  textColor: string;
+  backgroundColor: string;
+  fontFamily: string;
+  // Postal address in the footer, required by anti-spam laws for marketing email
+  address: string;
+};
+
+export const defaultEmailTheme: EmailTheme = {
+  companyName: process.env.EMAIL_COMPANY_NAME || 'VintaSend',
+  logoUrl: process.env.EMAIL_LOGO_URL || null,
+  primaryColor: '#007BFF',
+  buttonTextColor: '#ffffff',
+  textColor: '#333333',
+  backgroundColor: '#f6f6f6',
+  fontFamily: 'Arial, sans-serif',
+  address: process.env.EMAIL_COMPANY_ADDRESS || '123 Example Street, Springfield, USA',
+};
+
+// Brand of each tenant (see `Notification.tenant`), over the default theme
+export const tenantEmailThemes: Record<string, Partial<EmailTheme>> = {
+  acme: {
+    companyName: 'Acme Corp',
+    primaryColor: '#D7263D',
+    address: '1 Acme Way, Phoenix, USA',
+  },
+};
+
+/**
+ * The `theme` variable of the email layout: the default theme with the tenant's overrides.
+ */
+export function getEmailTheme(tenant: string | null): EmailTheme {
+  return { ...defaultEmailTheme, ...(tenant ? tenantEmailThemes[tenant] : {}) };
+}
@@ -0,0 +1,100 @@
+import { en } from './translations/en';
+import { ptBR } from './translations/pt-BR';
+
+export const DEFAULT_LOCALE = 'en';
+export const SUPPORTED_LOCALES = ['en', 'pt-BR'] as const;
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const localeLabels: Record<Locale, string> = {
+  en: 'English',
+  'pt-BR': 'Português (Brasil)',
+};
+
+const catalogs: Record<string, Record<string, string>> = { en, 'pt-BR': ptBR };
+
+// Dates in notifications show their time zone, since recipients can be anywhere
+const DATE_TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+  timeZone: 'UTC',
+  timeZoneName: 'short',
+};
+
+/**
+ * The supported locale closest to `locale`, e.g. `pt-BR` for `pt-PT` or `pt`. Unknown or
+ * missing locales get DEFAULT_LOCALE.
+ */
+export function resolveLocale(locale: string | null | undefined): Locale {
+  if (!locale) {
+    return DEFAULT_LOCALE;
+  }
+
+  const language = locale.split('-')[0].toLowerCase();
+  return (
+    SUPPORTED_LOCALES.find((supported) => supported.toLowerCase() === locale.toLowerCase()) ??
+    SUPPORTED_LOCALES.find((supported) => supported.split('-')[0].toLowerCase() === language) ??
+    DEFAULT_LOCALE
+  );
+}
+
+/**
+ * Locales to look for translations in, from the most specific, e.g. `pt-BR`, `pt` and `en`.
+ */
+export function getLocaleFallbacks(locale: string): string[] {
+  const fallbacks = [locale];
+  const language = locale.split('-')[0];
+  if (language !== locale) {
+    fallbacks.push(language);
+  }
+  if (!fallbacks.includes(DEFAULT_LOCALE)) {
+    fallbacks.push(DEFAULT_LOCALE);
+  }
+  return fallbacks;
+}
+
+/**
+ * The catalog message for `key` in the first locale of the fallback chain that has it, with
+ * `{name}` placeholders replaced by `params`. Returns the key itself for missing messages.
+ */
+export function translate(
+  locale: string,
+  key: string,
+  params: Record<string, unknown> = {},
+): string {
+  const message =
+    getLocaleFallbacks(locale)
+      .map((fallback) => catalogs[fallback]?.[key])
+      .find((value) => value !== undefined) ?? key;
+
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name] ?? '') : placeholder,
+  );
+}
+
+export function formatDate(
+  locale: string,
+  value: Date | string,
+  options: Intl.DateTimeFormatOptions = DATE_TIME_FORMAT,
+): string {
+  return new Intl.DateTimeFormat(locale, options).format(new Date(value));
+}
+
+/**
+ * Template locals for a notification context: the context, its `locale` and the `t()` and
+ * `formatDate()` helpers bound to it. Context generators only set `locale`, since contexts are
+ * stored as JSON and can't hold functions.
+ */
+export function getTemplateLocals(context: Record<string, unknown>) {
+  const locale = resolveLocale(typeof context.locale === 'string' ? context.locale : null);
+
+  return {
+    ...context,
+    locale,
+    t: (key: string, params?: Record<string, unknown>) => translate(locale, key, params),
+    formatDate: (value: Date | string, options?: Intl.DateTimeFormatOptions) =>
+      formatDate(locale, value, options),
+  };
+}
@@ -0,0 +1,18 @@
+import * as z from 'zod';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const idempotencyKeySchema = z.string().min(1).max(255);
+
+/**
+ * The `Idempotency-Key` header sent by the client, scoped with `scope` so keys from different
+ * routes or users never collide. Returns undefined when the header is missing and throws a
+ * ZodError when it is empty or too long.
+ */
+export function getIdempotencyKey(req: Request, scope: string): string | undefined {
+  const header = req.headers.get(IDEMPOTENCY_KEY_HEADER);
+  if (header === null) {
+    return undefined;
+  }
+  return `${scope}:${idempotencyKeySchema.parse(header)}`;
+}
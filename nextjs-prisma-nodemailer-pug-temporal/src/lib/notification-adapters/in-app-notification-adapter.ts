@@ -0,0 +1,42 @@
+import {
+  type AnyDatabaseNotification,
+  type BaseEmailTemplateRenderer,
+  BaseNotificationAdapter,
+  type BaseNotificationTypeConfig,
+  isOneOffNotification,
+  type JsonObject,
+  type JsonValue,
+} from 'vintasend';
+
+/**
+ * In-app notifications are "delivered" by being stored: the Notification row itself is the
+ * inbox entry, so sending only validates the recipient and the templates. The inbox renders
+ * `subjectTemplate`/`bodyTemplate` with the stored `contextUsed` when the user reads it.
+ */
+export class InAppNotificationAdapter<
+  Config extends BaseNotificationTypeConfig,
+> extends BaseNotificationAdapter<BaseEmailTemplateRenderer<Config>, Config> {
+  key = 'in-app';
+
+  constructor(templateRenderer: BaseEmailTemplateRenderer<Config>) {
+    super(templateRenderer, 'IN_APP', false);
+  }
+
+  async send(notification: AnyDatabaseNotification<Config>, context: JsonValue): Promise<void> {
+    if (isOneOffNotification(notification)) {
+      throw new Error('In-app notifications require a user recipient');
+    }
+
+    // Render once so broken templates mark the notification as FAILED instead of breaking the inbox
+    await this.templateRenderer.render(notification, context as JsonObject);
+    this.logger?.info(
+      `In-app notification ${notification.id} delivered to user ${notification.userId}`,
+    );
+  }
+}
+
+export class InAppNotificationAdapterFactory<Config extends BaseNotificationTypeConfig> {
+  create(templateRenderer: BaseEmailTemplateRenderer<Config>) {
+    return new InAppNotificationAdapter<Config>(templateRenderer);
+  }
+}
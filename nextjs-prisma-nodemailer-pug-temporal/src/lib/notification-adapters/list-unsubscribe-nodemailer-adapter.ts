@@ -0,0 +1,89 @@
+import nodemailer, { type SendMailOptions, type Transporter } from 'nodemailer';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport/index.js';
+import type {
+  AnyDatabaseNotification,
+  BaseEmailTemplateRenderer,
+  BaseNotificationTypeConfig,
+  EmailTemplate,
+  JsonObject,
+  JsonValue,
+} from 'vintasend';
+import { NodemailerNotificationAdapter } from 'vintasend-nodemailer';
+
+function getListUnsubscribeUrl(context: JsonValue): string | null {
+  if (!context || typeof context !== 'object' || Array.isArray(context)) {
+    return null;
+  }
+  const { listUnsubscribeUrl } = context;
+  return typeof listUnsubscribeUrl === 'string' ? listUnsubscribeUrl : null;
+}
+
+/**
+ * Nodemailer adapter that adds RFC 8058 one-click unsubscribe headers to emails whose context
+ * has a `listUnsubscribeUrl` (see `WelcomeProspectContextGenerator`). Every email is sent with
+ * the plain-text part from `DatabaseEmailTemplateRenderer` next to the HTML body, which the
+ * regular Nodemailer adapter leaves out, from the `from` address.
+ */
+export class ListUnsubscribeNodemailerNotificationAdapter<
+  Config extends BaseNotificationTypeConfig,
+> extends NodemailerNotificationAdapter<BaseEmailTemplateRenderer<Config>, Config> {
+  private emailTransporter: Transporter;
+  private from: string;
+
+  constructor(
+    templateRenderer: BaseEmailTemplateRenderer<Config>,
+    enqueueNotifications: boolean,
+    transportOptions: SMTPTransport.Options,
+    from: string,
+  ) {
+    super(templateRenderer, enqueueNotifications, transportOptions);
+    this.emailTransporter = nodemailer.createTransport(transportOptions);
+    this.from = from;
+  }
+
+  async send(notification: AnyDatabaseNotification<Config>, context: JsonValue): Promise<void> {
+    const template: EmailTemplate & { text?: string } = await this.templateRenderer.render(
+      notification,
+      context as JsonObject,
+    );
+    const listUnsubscribeUrl = getListUnsubscribeUrl(context);
+    const mailOptions: SendMailOptions = {
+      from: this.from,
+      to: await this.getRecipientEmail(notification),
+      subject: template.subject,
+      html: template.body,
+      text: template.text,
+    };
+    if (listUnsubscribeUrl) {
+      mailOptions.headers = {
+        'List-Unsubscribe': `<${listUnsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      };
+    }
+    if (notification.attachments?.length) {
+      mailOptions.attachments = (await this.prepareAttachments(
+        notification.attachments,
+      )) as SendMailOptions['attachments'];
+    }
+
+    await this.emailTransporter.sendMail(mailOptions);
+  }
+}
+
+export class ListUnsubscribeNodemailerNotificationAdapterFactory<
+  Config extends BaseNotificationTypeConfig,
+> {
+  create(
+    templateRenderer: BaseEmailTemplateRenderer<Config>,
+    enqueueNotifications: boolean,
+    transportOptions: SMTPTransport.Options,
+    from: string,
+  ) {
+    return new ListUnsubscribeNodemailerNotificationAdapter<Config>(
+      templateRenderer,
+      enqueueNotifications,
+      transportOptions,
+      from,
+    );
+  }
+}
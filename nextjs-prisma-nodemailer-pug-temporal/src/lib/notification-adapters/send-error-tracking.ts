@@ -0,0 +1,70 @@
+import type { AnyDatabaseNotification, JsonValue } from 'vintasend';
+import { prisma } from '../prisma';
+import type { NotificationTypeConfig } from '../services/notifications';
+
+// Nodemailer error codes for problems that go away on their own (network, throttling)
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNECTION',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ESOCKET',
+  'EDNS',
+  'EAUTH',
+]);
+
+/**
+ * Tells whether sending again may succeed. SMTP 4xx replies and connection problems are
+ * transient; 5xx replies (unknown mailbox, rejected content) and errors raised before
+ * reaching the provider, like broken templates, are permanent. Errors that carry a
+ * `retryable` flag, like `SmsProviderError`, decide for themselves.
+ */
+export function isRetryableSendError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const { responseCode, code, retryable } = error as {
+    responseCode?: number;
+    code?: string;
+    retryable?: boolean;
+  };
+  if (typeof retryable === 'boolean') {
+    return retryable;
+  }
+  if (typeof responseCode === 'number') {
+    return responseCode >= 400 && responseCode < 500;
+  }
+  return typeof code === 'string' && TRANSIENT_ERROR_CODES.has(code);
+}
+
+type NotificationAdapter = {
+  send(
+    notification: AnyDatabaseNotification<NotificationTypeConfig>,
+    context: JsonValue,
+  ): Promise<void>;
+};
+
+/**
+ * `delayedSend` only logs adapter errors before marking the notification as FAILED, so keep
+ * the error on the notification for the Temporal activity to decide whether to retry.
+ */
+export function withSendErrorTracking<Adapter extends NotificationAdapter>(
+  adapter: Adapter,
+): Adapter {
+  const send = adapter.send.bind(adapter);
+
+  adapter.send = async (notification, context) => {
+    try {
+      await send(notification, context);
+    } catch (error) {
+      await prisma.notification.update({
+        where: { id: notification.id },
+        data: { lastError: String(error), lastErrorRetryable: isRetryableSendError(error) },
+      });
+      throw error;
+    }
+  };
+
+  return adapter;
+}
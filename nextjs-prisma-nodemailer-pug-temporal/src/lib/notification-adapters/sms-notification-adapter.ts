@@ -0,0 +1,61 @@
+import {
+  type AnyDatabaseNotification,
+  BaseNotificationAdapter,
+  type BaseNotificationTypeConfig,
+  isOneOffNotification,
+  type JsonObject,
+  type JsonValue,
+} from 'vintasend';
+import { getSmsSegmentInfo, isE164PhoneNumber } from '../sms';
+import type { SmsProvider } from '../sms-providers';
+import type { PugTextTemplateRenderer } from '../template-renderers/pug-text-template-renderer';
+
+/**
+ * Sends the rendered `bodyTemplate` as a text message through an `SmsProvider`. Users have no
+ * phone number, so only one-off notifications with an E.164 `emailOrPhone` can be sent.
+ */
+export class SmsNotificationAdapter<
+  Config extends BaseNotificationTypeConfig,
+> extends BaseNotificationAdapter<PugTextTemplateRenderer<Config>, Config> {
+  key = 'sms';
+
+  constructor(
+    templateRenderer: PugTextTemplateRenderer<Config>,
+    enqueueNotifications: boolean,
+    private provider: SmsProvider,
+  ) {
+    super(templateRenderer, 'SMS', enqueueNotifications);
+  }
+
+  async send(notification: AnyDatabaseNotification<Config>, context: JsonValue): Promise<void> {
+    if (!isOneOffNotification(notification)) {
+      throw new Error('SMS notifications require a one-off recipient phone number');
+    }
+    if (!isE164PhoneNumber(notification.emailOrPhone)) {
+      throw new Error(`${notification.emailOrPhone} is not an E.164 phone number`);
+    }
+
+    const { text } = await this.templateRenderer.render(notification, context as JsonObject);
+    const { encoding, length, segments } = getSmsSegmentInfo(text);
+    if (segments > 1) {
+      this.logger?.warn(
+        `SMS notification ${notification.id} is ${length} ${encoding} characters long and will be sent as ${segments} segments`,
+      );
+    }
+
+    await this.provider.send({ to: notification.emailOrPhone, body: text });
+    this.logger?.info(
+      `SMS notification ${notification.id} sent with the ${this.provider.name} provider`,
+    );
+  }
+}
+
+export class SmsNotificationAdapterFactory<Config extends BaseNotificationTypeConfig> {
+  create(
+    templateRenderer: PugTextTemplateRenderer<Config>,
+    enqueueNotifications: boolean,
+    provider: SmsProvider,
+  ) {
+    return new SmsNotificationAdapter<Config>(templateRenderer, enqueueNotifications, provider);
+  }
+}
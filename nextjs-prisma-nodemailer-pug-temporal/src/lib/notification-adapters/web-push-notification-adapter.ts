@@ -0,0 +1,97 @@
+import {
+  type AnyDatabaseNotification,
+  type BaseEmailTemplateRenderer,
+  BaseNotificationAdapter,
+  isOneOffNotification,
+  type JsonObject,
+  type JsonValue,
+} from 'vintasend';
+import type { NotificationTypeConfig } from '../services/notifications';
+import {
+  getUserPushSubscriptions,
+  pruneExpiredPushSubscription,
+} from '../services/push-subscriptions';
+import { getVapidDetails, sendPushMessage } from '../web-push';
+
+/**
+ * Sends the notification to every browser the user subscribed with. The subject template
+ * becomes the title and the body template the text, both plain-text Pug like in-app ones;
+ * a `url` in the context is opened when the user clicks the notification.
+ *
+ * Subscriptions the push service reports as gone are pruned. Sending only fails when no
+ * device got the message, so retries never deliver it twice.
+ */
+export class WebPushNotificationAdapter extends BaseNotificationAdapter<
+  BaseEmailTemplateRenderer<NotificationTypeConfig>,
+  NotificationTypeConfig
+> {
+  key = 'web-push';
+
+  constructor(
+    templateRenderer: BaseEmailTemplateRenderer<NotificationTypeConfig>,
+    enqueueNotifications: boolean,
+  ) {
+    super(templateRenderer, 'PUSH', enqueueNotifications);
+  }
+
+  async send(
+    notification: AnyDatabaseNotification<NotificationTypeConfig>,
+    context: JsonValue,
+  ): Promise<void> {
+    if (isOneOffNotification(notification)) {
+      throw new Error('Push notifications require a user recipient');
+    }
+    const vapidDetails = getVapidDetails();
+    if (!vapidDetails) {
+      throw new Error('Web Push is not configured, set the VAPID environment variables');
+    }
+
+    const subscriptions = await getUserPushSubscriptions(notification.userId);
+    if (subscriptions.length === 0) {
+      throw new Error(`User ${notification.userId} has no push subscriptions`);
+    }
+
+    const rendered = await this.templateRenderer.render(notification, context as JsonObject);
+    const payload = JSON.stringify({
+      notificationId: notification.id,
+      title: rendered.subject,
+      body: rendered.body,
+      url: (context as JsonObject).url ?? null,
+    });
+
+    let delivered = 0;
+    const errors: unknown[] = [];
+    for (const subscription of subscriptions) {
+      try {
+        const result = await sendPushMessage(subscription, payload, vapidDetails);
+        if (result === 'expired') {
+          await pruneExpiredPushSubscription(subscription.endpoint);
+          this.logger?.info(`Pruned expired push subscription ${subscription.endpoint}`);
+        } else {
+          delivered += 1;
+        }
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+
+    if (delivered === 0) {
+      throw errors[0] ?? new Error(`All push subscriptions of user ${notification.userId} expired`);
+    }
+    if (errors.length > 0) {
+      this.logger?.warn(
+        `Push notification ${notification.id} failed on ${errors.length} of ${subscriptions.length} devices: ${String(errors[0])}`,
+      );
+    }
+    this.logger?.info(`Push notification ${notification.id} delivered to ${delivered} devices`);
+  }
+}
+
+export class WebPushNotificationAdapterFactory {
+  create(
+    templateRenderer: BaseEmailTemplateRenderer<NotificationTypeConfig>,
+    enqueueNotifications: boolean,
+  ) {
+    return new WebPushNotificationAdapter(templateRenderer, enqueueNotifications);
+  }
+}
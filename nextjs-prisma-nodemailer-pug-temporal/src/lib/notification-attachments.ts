@@ -14,19 +14,10 @@
  * 3. Configured S3 environment variables (see ATTACHMENTS_GUIDE.md)
  */
 
-import { PrismaClient } from '@prisma/client';
 import type { InputJsonValue } from '@prisma/client/runtime/client';
 import { S3AttachmentManager } from 'vintasend-aws-s3-attachments';
 import type { AttachmentFileRecord, FileAttachment, NotificationAttachment, StorageIdentifiers } from 'vintasend';
-import { PrismaPg } from '@prisma/adapter-pg';
-
-// Create a singleton PrismaClient instance
-const globalForPrisma = global as unknown as { prisma: PrismaClient };
-const adapter = new PrismaPg({
-  connectionString: process.env.DATABASE_URL!,
-});
-const prisma = globalForPrisma.prisma || new PrismaClient({ adapter });
-if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma;
+import { prisma } from './prisma';
 
 /**
  * Initialize S3 AttachmentManager
@@ -0,0 +1,58 @@
+export const VIEW_NOTIFICATIONS_PERMISSION = 'notifications:view';
+export const MANAGE_NOTIFICATIONS_PERMISSION = 'notifications:manage';
+export const VIEW_DEAD_LETTER_PERMISSION = 'notifications:view_dead_letter';
+export const SEND_ONE_OFF_NOTIFICATIONS_PERMISSION = 'notifications:send_one_off';
+export const SEND_CAMPAIGNS_PERMISSION = 'notifications:send_campaigns';
+export const PREVIEW_TEMPLATES_PERMISSION = 'notifications:preview_templates';
+export const MANAGE_TEMPLATES_PERMISSION = 'notifications:manage_templates';
+
+export const PERMISSIONS = [
+  {
+    name: VIEW_NOTIFICATIONS_PERMISSION,
+    description: 'Search notifications and see their rendered content',
+  },
+  {
+    name: MANAGE_NOTIFICATIONS_PERMISSION,
+    description: 'Cancel, reschedule, resend and duplicate notifications',
+  },
+  {
+    name: VIEW_DEAD_LETTER_PERMISSION,
+    description: 'List notifications that ran out of send attempts',
+  },
+  {
+    name: SEND_ONE_OFF_NOTIFICATIONS_PERMISSION,
+    description: 'Send one-off notifications to people without an account',
+  },
+  {
+    name: SEND_CAMPAIGNS_PERMISSION,
+    description: 'Send one-off notifications to the recipients of an uploaded CSV',
+  },
+  {
+    name: PREVIEW_TEMPLATES_PERMISSION,
+    description: 'Render email templates with sample parameters and send tests to Mailpit',
+  },
+  {
+    name: MANAGE_TEMPLATES_PERMISSION,
+    description: 'Edit, publish and roll back the email templates stored in the database',
+  },
+];
+
+// Created by `npm run db:seed`; roles and permissions can be granted with `npm run roles:assign`
+export const DEFAULT_ROLES = [
+  {
+    name: 'admin',
+    description: 'Full access to notifications',
+    permissions: PERMISSIONS.map(({ name }) => name),
+  },
+  {
+    name: 'support',
+    description: 'Inspects notifications and failed deliveries',
+    permissions: [VIEW_NOTIFICATIONS_PERMISSION, VIEW_DEAD_LETTER_PERMISSION],
+  },
+  {
+    name: 'marketing',
+    description: 'Sends one-off notifications and campaigns to prospects',
+    // Templates are compiled on the server, so only admins get MANAGE_TEMPLATES_PERMISSION
+    permissions: [SEND_ONE_OFF_NOTIFICATIONS_PERMISSION, SEND_CAMPAIGNS_PERMISSION],
+  },
+];
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import type { GenericErrorApiResponse } from './api-clients/core';
+import { prisma } from './prisma';
+
+export type RateLimitRule = {
+  // What is being limited, e.g. `signup:ip:203.0.113.7`
+  key: string;
+  limit: number;
+  windowSeconds: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  // 0 when allowed, otherwise how long until the longest exceeded window resets
+  retryAfterSeconds: number;
+};
+
+type RateLimitCounter = { count: number; resetAt: Date };
+
+export interface RateLimitStore {
+  /**
+   * Counts one more request for the key and returns the counter of its current window,
+   * starting a new window when the previous one is over.
+   */
+  hit(key: string, windowSeconds: number): Promise<RateLimitCounter>;
+}
+
+/**
+ * Keeps the counters in the `RateLimitCounter` table, so every app instance shares them. The
+ * upsert is a single statement, so concurrent requests can't both take the last slot.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  async hit(key: string, windowSeconds: number): Promise<RateLimitCounter> {
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + windowSeconds * 1000);
+    const [counter] = await prisma.$queryRaw<RateLimitCounter[]>`
+      INSERT INTO "RateLimitCounter" ("key", "count", "resetAt")
+      VALUES (${key}, 1, ${resetAt})
+      ON CONFLICT ("key") DO UPDATE SET
+        "count" = CASE WHEN "RateLimitCounter"."resetAt" <= ${now} THEN 1
+          ELSE "RateLimitCounter"."count" + 1 END,
+        "resetAt" = CASE WHEN "RateLimitCounter"."resetAt" <= ${now} THEN EXCLUDED."resetAt"
+          ELSE "RateLimitCounter"."resetAt" END
+      RETURNING "count", "resetAt"`;
+    return counter;
+  }
+}
+
+/**
+ * Development store that keeps the counters in the process memory. Each app instance counts
+ * on its own and restarts reset the limits.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitCounter>();
+
+  async hit(key: string, windowSeconds: number): Promise<RateLimitCounter> {
+    const now = new Date();
+    const counter = this.counters.get(key);
+    if (counter && counter.resetAt > now) {
+      counter.count += 1;
+      return { ...counter };
+    }
+
+    const newCounter = { count: 1, resetAt: new Date(now.getTime() + windowSeconds * 1000) };
+    this.counters.set(key, newCounter);
+    return { ...newCounter };
+  }
+}
+
+export function createRateLimitStore(): RateLimitStore {
+  if (process.env.RATE_LIMIT_STORE === 'memory') {
+    return new MemoryRateLimitStore();
+  }
+
+  return new PostgresRateLimitStore();
+}
+
+const rateLimitStore = createRateLimitStore();
+
+/**
+ * Counts the request against every rule. It is allowed only when no rule went over its limit.
+ */
+export async function checkRateLimits(rules: RateLimitRule[]): Promise<RateLimitResult> {
+  let retryAfterSeconds = 0;
+
+  for (const rule of rules) {
+    const { count, resetAt } = await rateLimitStore.hit(rule.key, rule.windowSeconds);
+    if (count > rule.limit) {
+      const waitSeconds = Math.ceil((resetAt.getTime() - Date.now()) / 1000);
+      retryAfterSeconds = Math.max(retryAfterSeconds, waitSeconds, 1);
+    }
+  }
+
+  return { allowed: retryAfterSeconds === 0, retryAfterSeconds };
+}
+
+export function tooManyRequestsResponse(
+  retryAfterSeconds: number,
+): NextResponse<GenericErrorApiResponse> {
+  return NextResponse.json(
+    { success: false, error: 'Too many requests, please try again later' },
+    { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } },
+  );
+}
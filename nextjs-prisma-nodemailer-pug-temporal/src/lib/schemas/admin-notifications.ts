@@ -0,0 +1,28 @@
+import * as z from 'zod';
+
+// Query string filters of the admin notification list; empty values are dropped before parsing
+export const notificationSearchSchema = z.object({
+  page: z.coerce.number().int().min(0).default(0),
+  status: z.enum(['PENDING_SEND', 'SENT', 'FAILED', 'READ', 'CANCELLED']).optional(),
+  notificationType: z.enum(['EMAIL', 'PUSH', 'SMS', 'IN_APP']).optional(),
+  contextName: z.string().optional(),
+  tenant: z.string().optional(),
+  userId: z.coerce.number().int().optional(),
+  emailOrPhone: z.string().optional(),
+  gitCommitSha: z.string().optional(),
+  createdFrom: z.coerce.date().optional(),
+  createdTo: z.coerce.date().optional(),
+  sentFrom: z.coerce.date().optional(),
+  sentTo: z.coerce.date().optional(),
+});
+
+export type NotificationSearchValues = z.infer<typeof notificationSearchSchema>;
+
+// Leave a field out to keep the original notification's value
+export const duplicateNotificationSchema = z.object({
+  userId: z.number().int().optional(),
+  emailOrPhone: z.string().min(1).optional(),
+  sendAfter: z.coerce.date().nullable().optional(),
+});
+
+export type DuplicateNotificationValues = z.infer<typeof duplicateNotificationSchema>;
@@ -13,6 +13,8 @@ export const signupSchema = z.object({
     .string()
     .min(8, 'Password must be at least 8 characters')
     .max(100, 'Password is too long'),
+  // The browser's language; notifications use the closest supported locale
+  locale: z.string().optional(),
 });
 
 export const passwordResetSchema = z
@@ -37,8 +39,23 @@ export const forgotPasswordSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
 });
 
+export const resendVerificationSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+});
+
+export const magicLinkSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+});
+
+export const magicLinkLoginSchema = z.object({
+  token: z.string(),
+});
+
 export type LoginValues = z.infer<typeof loginSchema>;
 export type SignupValues = z.infer<typeof signupSchema>;
 export type PasswordResetValues = z.infer<typeof passwordResetSchema>;
 export type VerifyEmailValues = z.infer<typeof verifyEmailSchema>;
 export type ForgotPasswordValues = z.infer<typeof forgotPasswordSchema>;
+export type ResendVerificationValues = z.infer<typeof resendVerificationSchema>;
+export type MagicLinkValues = z.infer<typeof magicLinkSchema>;
+export type MagicLinkLoginValues = z.infer<typeof magicLinkLoginSchema>;
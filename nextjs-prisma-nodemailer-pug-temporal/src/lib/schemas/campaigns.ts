@@ -0,0 +1,47 @@
+import * as z from 'zod';
+
+// Characters, roughly 5 MB of CSV
+export const MAX_CAMPAIGN_CSV_LENGTH = 5_000_000;
+export const MAX_CAMPAIGN_ROWS = 10_000;
+
+// The CSV column (by header) each field is read from
+export const campaignColumnMappingSchema = z.object({
+  emailOrPhone: z.string().min(1, 'Choose the email or phone column'),
+  firstName: z.string().min(1, 'Choose the first name column'),
+  lastName: z.string().min(1, 'Choose the last name column'),
+  // Parameters of the welcome prospect templates; unmapped ones use the template defaults
+  contextParameters: z
+    .object({
+      companyName: z.string().optional(),
+      productName: z.string().optional(),
+      // Recipients' locales, e.g. `pt-BR`; unsupported ones get the default locale
+      locale: z.string().optional(),
+    })
+    .default({}),
+});
+
+export type CampaignColumnMapping = z.infer<typeof campaignColumnMappingSchema>;
+
+export const campaignPreviewSchema = z.object({
+  notificationType: z.enum(['EMAIL', 'SMS']).default('EMAIL'),
+  csv: z
+    .string()
+    .min(1, 'The CSV file is empty')
+    .max(MAX_CAMPAIGN_CSV_LENGTH, 'The CSV file is too large'),
+  mapping: campaignColumnMappingSchema,
+});
+
+export type CampaignPreviewValues = z.infer<typeof campaignPreviewSchema>;
+
+export const createCampaignSchema = campaignPreviewSchema.extend({
+  name: z.string().min(1, 'Campaign name is required').max(200),
+});
+
+export type CreateCampaignValues = z.infer<typeof createCampaignSchema>;
+
+export const campaignRowsQuerySchema = z.object({
+  page: z.coerce.number().int().min(0).default(0),
+  status: z.enum(['PENDING', 'CREATED', 'INVALID', 'DUPLICATE', 'SKIPPED', 'FAILED']).optional(),
+});
+
+export type CampaignRowsQueryValues = z.infer<typeof campaignRowsQuerySchema>;
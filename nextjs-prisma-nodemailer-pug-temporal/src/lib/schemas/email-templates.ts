@@ -0,0 +1,18 @@
+import * as z from 'zod';
+
+export const emailTemplateQuerySchema = z.object({
+  key: z.string().min(1),
+  // Empty for the template of every tenant
+  tenant: z.string().trim().default(''),
+});
+
+export type EmailTemplateQueryValues = z.infer<typeof emailTemplateQuerySchema>;
+
+export const saveEmailTemplateDraftSchema = z.object({
+  key: z.string().min(1),
+  tenant: z.string().trim().default(''),
+  subject: z.string().trim().min(1, 'Subject is required'),
+  body: z.string().trim().min(1, 'Body is required'),
+});
+
+export type SaveEmailTemplateDraftValues = z.infer<typeof saveEmailTemplateDraftSchema>;
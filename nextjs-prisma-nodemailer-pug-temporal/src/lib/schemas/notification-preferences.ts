@@ -0,0 +1,16 @@
+import * as z from 'zod';
+import { SUPPORTED_LOCALES } from '../i18n';
+
+export const updateNotificationPreferenceSchema = z.object({
+  contextName: z.string().min(1, 'Context name is required'),
+  notificationType: z.enum(['EMAIL', 'PUSH', 'SMS', 'IN_APP']),
+  enabled: z.boolean(),
+});
+
+export type UpdateNotificationPreferenceValues = z.infer<typeof updateNotificationPreferenceSchema>;
+
+export const updateNotificationLocaleSchema = z.object({
+  locale: z.enum(SUPPORTED_LOCALES),
+});
+
+export type UpdateNotificationLocaleValues = z.infer<typeof updateNotificationLocaleSchema>;
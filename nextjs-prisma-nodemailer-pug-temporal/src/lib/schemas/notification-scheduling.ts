@@ -0,0 +1,7 @@
+import * as z from 'zod';
+
+export const rescheduleNotificationSchema = z.object({
+  sendAfter: z.coerce.date({ message: 'Please enter a valid date' }),
+});
+
+export type RescheduleNotificationValues = z.infer<typeof rescheduleNotificationSchema>;
@@ -0,0 +1,40 @@
+import * as z from 'zod';
+
+// Push services of the browsers that support Web Push, by exact host or parent domain
+const PUSH_SERVICE_HOSTS = ['fcm.googleapis.com', 'updates.push.services.mozilla.com'];
+const PUSH_SERVICE_DOMAINS = ['.push.apple.com', '.notify.windows.com'];
+
+/**
+ * The worker posts to subscription endpoints, so only browser push services are accepted,
+ * over HTTPS. Any endpoint is allowed outside production, for the local mock push service.
+ */
+export function isAllowedPushEndpoint(endpoint: string): boolean {
+  if (process.env.NODE_ENV !== 'production') {
+    return true;
+  }
+
+  const { protocol, hostname } = new URL(endpoint);
+  return (
+    protocol === 'https:' &&
+    (PUSH_SERVICE_HOSTS.includes(hostname) ||
+      PUSH_SERVICE_DOMAINS.some((domain) => hostname.endsWith(domain)))
+  );
+}
+
+// Shape of the browser's PushSubscription.toJSON()
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.url().refine(isAllowedPushEndpoint, 'Endpoint is not a known push service'),
+  expirationTime: z.number().nullable().optional(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+export type PushSubscriptionValues = z.infer<typeof pushSubscriptionSchema>;
+
+export const deletePushSubscriptionSchema = z.object({
+  endpoint: z.url(),
+});
+
+export type DeletePushSubscriptionValues = z.infer<typeof deletePushSubscriptionSchema>;
@@ -0,0 +1,11 @@
+import * as z from 'zod';
+
+export const templatePreviewSchema = z.object({
+  bodyTemplate: z.string().min(1, 'Choose a template'),
+  subjectTemplate: z.string().min(1).nullable(),
+  // Empty to render with `contextParameters` as the context, skipping the context generators
+  contextName: z.string(),
+  contextParameters: z.record(z.string(), z.json()),
+});
+
+export type TemplatePreviewValues = z.infer<typeof templatePreviewSchema>;
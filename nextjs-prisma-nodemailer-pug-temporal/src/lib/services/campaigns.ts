@@ -0,0 +1,374 @@
+import type {
+  CampaignRow,
+  CampaignRowStatus,
+  CampaignStatus,
+  NotificationType,
+} from '@prisma/client';
+import * as z from 'zod';
+import { getSendsPerSecond } from '../../workers/notifications/config';
+import { getCampaignWorkflowId, NOTIFICATIONS_QUEUE } from '../../workers/notifications/constants';
+import { sendCampaignWorkflow } from '../../workers/notifications/workflows';
+import { parseCsv, toCsv } from '../csv';
+import { logger } from '../logger';
+import { prisma } from '../prisma';
+import {
+  type CampaignPreviewValues,
+  type CampaignRowsQueryValues,
+  type CreateCampaignValues,
+  MAX_CAMPAIGN_ROWS,
+} from '../schemas/campaigns';
+import { isE164PhoneNumber } from '../sms';
+import { getTemporalClient } from '../temporal';
+
+export const CAMPAIGNS_PAGE_SIZE = 20;
+export const CAMPAIGN_ROWS_PAGE_SIZE = 50;
+// Skipped rows listed in the preview, the error report has all of them
+const PREVIEW_ERRORS_LIMIT = 100;
+const DEFAULT_COMPANY_NAME = 'VintaSend Demo';
+
+export type CampaignCsvRow = {
+  // Position of the row in the CSV, the header being row 1
+  rowNumber: number;
+  emailOrPhone: string;
+  firstName: string;
+  lastName: string;
+  contextParameters: CampaignPreviewValues['mapping']['contextParameters'];
+  status: 'PENDING' | 'INVALID' | 'DUPLICATE';
+  error: string | null;
+};
+
+export type CampaignCsvPreview = {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  duplicateRows: number;
+  errors: { rowNumber: number; emailOrPhone: string; error: string }[];
+};
+
+export type CampaignProgress = {
+  id: number;
+  name: string;
+  notificationType: NotificationType;
+  status: CampaignStatus;
+  totalRows: number;
+  processedRows: number;
+  createdCount: number;
+  failedCount: number;
+  skippedCount: number;
+  createdAt: string;
+  completedAt: string | null;
+};
+
+export type CampaignRowItem = {
+  id: number;
+  rowNumber: number;
+  emailOrPhone: string;
+  firstName: string;
+  lastName: string;
+  status: CampaignRowStatus;
+  error: string | null;
+  notificationId: number | null;
+};
+
+function getRowError(
+  row: Pick<CampaignCsvRow, 'emailOrPhone' | 'firstName' | 'lastName'>,
+  notificationType: CampaignPreviewValues['notificationType'],
+): string | null {
+  if (!row.emailOrPhone) {
+    return notificationType === 'EMAIL' ? 'Missing email address' : 'Missing phone number';
+  }
+  if (notificationType === 'EMAIL' && !z.email().safeParse(row.emailOrPhone).success) {
+    return 'Invalid email address';
+  }
+  if (notificationType === 'SMS' && !isE164PhoneNumber(row.emailOrPhone)) {
+    return 'Invalid phone number, use the E.164 format (e.g. +5581999999999)';
+  }
+  if (!row.firstName) {
+    return 'Missing first name';
+  }
+  if (!row.lastName) {
+    return 'Missing last name';
+  }
+  return null;
+}
+
+/**
+ * Reads the recipients of a campaign from the CSV with the column mapping. Every row is
+ * returned: invalid rows and repeated recipients are marked to be skipped, with the reason.
+ * Returns an error instead when the CSV can't be used at all, e.g. a mapped column is missing.
+ */
+export function parseCampaignCsv({
+  csv,
+  mapping,
+  notificationType,
+}: CampaignPreviewValues): { error: string } | { rows: CampaignCsvRow[] } {
+  const [header = [], ...records] = parseCsv(csv);
+  const columns = header.map((column) => column.trim());
+  const mappedColumns = [
+    mapping.emailOrPhone,
+    mapping.firstName,
+    mapping.lastName,
+    ...Object.values(mapping.contextParameters).filter((column): column is string => !!column),
+  ];
+  const missingColumns = [...new Set(mappedColumns)].filter((column) => !columns.includes(column));
+  if (missingColumns.length > 0) {
+    return { error: `Columns not found in the CSV: ${missingColumns.join(', ')}` };
+  }
+  if (records.length === 0) {
+    return { error: 'The CSV has no rows' };
+  }
+  if (records.length > MAX_CAMPAIGN_ROWS) {
+    return { error: `The CSV has more than ${MAX_CAMPAIGN_ROWS} rows` };
+  }
+
+  const getValue = (record: string[], column: string | undefined) =>
+    column ? (record[columns.indexOf(column)] ?? '').trim() : '';
+  const seenRecipients = new Set<string>();
+
+  const rows = records.map((record, index): CampaignCsvRow => {
+    const row = {
+      rowNumber: index + 2,
+      emailOrPhone: getValue(record, mapping.emailOrPhone),
+      firstName: getValue(record, mapping.firstName),
+      lastName: getValue(record, mapping.lastName),
+      contextParameters: Object.fromEntries(
+        Object.entries(mapping.contextParameters)
+          .map(([parameter, column]) => [parameter, getValue(record, column)])
+          .filter(([, value]) => value !== ''),
+      ),
+    };
+
+    const error = getRowError(row, notificationType);
+    if (error) {
+      return { ...row, status: 'INVALID', error };
+    }
+
+    const recipient = row.emailOrPhone.toLowerCase();
+    if (seenRecipients.has(recipient)) {
+      return { ...row, status: 'DUPLICATE', error: 'Same recipient as an earlier row' };
+    }
+    seenRecipients.add(recipient);
+    return { ...row, status: 'PENDING', error: null };
+  });
+
+  return { rows };
+}
+
+export function getCampaignCsvPreview(rows: CampaignCsvRow[]): CampaignCsvPreview {
+  const skippedRows = rows.filter((row) => row.status !== 'PENDING');
+
+  return {
+    totalRows: rows.length,
+    validRows: rows.length - skippedRows.length,
+    invalidRows: skippedRows.filter((row) => row.status === 'INVALID').length,
+    duplicateRows: skippedRows.filter((row) => row.status === 'DUPLICATE').length,
+    errors: skippedRows.slice(0, PREVIEW_ERRORS_LIMIT).map((row) => ({
+      rowNumber: row.rowNumber,
+      emailOrPhone: row.emailOrPhone,
+      error: row.error as string,
+    })),
+  };
+}
+
+function toCampaignProgress(campaign: {
+  id: number;
+  name: string;
+  notificationType: NotificationType;
+  status: CampaignStatus;
+  totalRows: number;
+  processedRows: number;
+  createdCount: number;
+  failedCount: number;
+  skippedCount: number;
+  createdAt: Date;
+  completedAt: Date | null;
+}): CampaignProgress {
+  return {
+    id: campaign.id,
+    name: campaign.name,
+    notificationType: campaign.notificationType,
+    status: campaign.status,
+    totalRows: campaign.totalRows,
+    processedRows: campaign.processedRows,
+    createdCount: campaign.createdCount,
+    failedCount: campaign.failedCount,
+    skippedCount: campaign.skippedCount,
+    createdAt: campaign.createdAt.toISOString(),
+    completedAt: campaign.completedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Stores the campaign with all its rows and starts the `sendCampaignWorkflow` that creates
+ * the notifications. Skipped rows are stored too, so they show up in the error report.
+ */
+export async function createCampaign(
+  userId: number,
+  { name, notificationType }: CreateCampaignValues,
+  rows: CampaignCsvRow[],
+): Promise<CampaignProgress> {
+  const skippedCount = rows.filter((row) => row.status !== 'PENDING').length;
+  const campaign = await prisma.campaign.create({
+    data: {
+      name,
+      notificationType,
+      createdById: userId,
+      totalRows: rows.length,
+      processedRows: skippedCount,
+      skippedCount,
+      rows: { createMany: { data: rows } },
+    },
+  });
+
+  try {
+    const client = await getTemporalClient();
+    await client.workflow.start(sendCampaignWorkflow, {
+      taskQueue: NOTIFICATIONS_QUEUE,
+      workflowId: getCampaignWorkflowId(campaign.id),
+      args: [campaign.id, { sendsPerSecond: getSendsPerSecond() }],
+    });
+  } catch (error) {
+    logger.error('Could not start the campaign workflow', {
+      campaignId: campaign.id,
+      error: String(error),
+    });
+    await prisma.campaign.update({
+      where: { id: campaign.id },
+      data: { status: 'FAILED', completedAt: new Date() },
+    });
+    throw error;
+  }
+
+  return toCampaignProgress(campaign);
+}
+
+/**
+ * The one-off notification sent to a campaign row, with the same templates as
+ * `POST /api/notifications/one-off`.
+ */
+export function getCampaignRowNotification(
+  notificationType: NotificationType,
+  row: Pick<CampaignRow, 'emailOrPhone' | 'firstName' | 'lastName' | 'contextParameters'>,
+) {
+  const contextParameters = row.contextParameters as CampaignCsvRow['contextParameters'];
+  const recipient = {
+    emailOrPhone: row.emailOrPhone,
+    firstName: row.firstName,
+    lastName: row.lastName,
+    title: 'Welcome to VintaSend',
+    sendAfter: null,
+    extraParams: null,
+  };
+
+  if (notificationType === 'SMS') {
+    return {
+      ...recipient,
+      notificationType,
+      contextName: 'welcomeProspectSms' as const,
+      bodyTemplate: './src/email-templates/sms/welcome-prospect-body.txt.pug',
+      subjectTemplate: null,
+      contextParameters: {
+        companyName: contextParameters.companyName ?? DEFAULT_COMPANY_NAME,
+        productName: contextParameters.productName,
+        firstName: row.firstName,
+        locale: contextParameters.locale,
+      },
+    };
+  }
+
+  return {
+    ...recipient,
+    notificationType,
+    contextName: 'welcomeProspect' as const,
+    bodyTemplate: './src/email-templates/marketing/welcome-prospect-body.html.pug',
+    subjectTemplate: './src/email-templates/marketing/welcome-prospect-subject.txt.pug',
+    contextParameters: {
+      companyName: contextParameters.companyName ?? DEFAULT_COMPANY_NAME,
+      productName: contextParameters.productName,
+      email: row.emailOrPhone,
+      locale: contextParameters.locale,
+    },
+  };
+}
+
+export async function getCampaigns(
+  page = 0,
+): Promise<{ campaigns: CampaignProgress[]; total: number }> {
+  const [campaigns, total] = await Promise.all([
+    prisma.campaign.findMany({
+      orderBy: { createdAt: 'desc' },
+      skip: page * CAMPAIGNS_PAGE_SIZE,
+      take: CAMPAIGNS_PAGE_SIZE,
+    }),
+    prisma.campaign.count(),
+  ]);
+
+  return { campaigns: campaigns.map(toCampaignProgress), total };
+}
+
+export async function getCampaign(campaignId: number): Promise<CampaignProgress | null> {
+  const campaign = await prisma.campaign.findUnique({ where: { id: campaignId } });
+  return campaign ? toCampaignProgress(campaign) : null;
+}
+
+export async function getCampaignRows(
+  campaignId: number,
+  { page, status }: CampaignRowsQueryValues,
+): Promise<{ rows: CampaignRowItem[]; total: number }> {
+  const where = { campaignId, status };
+  const [rows, total] = await Promise.all([
+    prisma.campaignRow.findMany({
+      where,
+      orderBy: { rowNumber: 'asc' },
+      skip: page * CAMPAIGN_ROWS_PAGE_SIZE,
+      take: CAMPAIGN_ROWS_PAGE_SIZE,
+    }),
+    prisma.campaignRow.count({ where }),
+  ]);
+
+  return {
+    rows: rows.map((row) => ({
+      id: row.id,
+      rowNumber: row.rowNumber,
+      emailOrPhone: row.emailOrPhone,
+      firstName: row.firstName,
+      lastName: row.lastName,
+      status: row.status,
+      error: row.error,
+      notificationId: row.notificationId,
+    })),
+    total,
+  };
+}
+
+/**
+ * CSV of the rows that didn't get a notification sent (invalid, duplicate, blocked or failed),
+ * with the reason, so they can be fixed and uploaded again. Null when the campaign doesn't
+ * exist.
+ */
+export async function getCampaignErrorReport(campaignId: number): Promise<string | null> {
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+    select: { id: true },
+  });
+  if (!campaign) {
+    return null;
+  }
+
+  const rows = await prisma.campaignRow.findMany({
+    where: { campaignId, status: { in: ['INVALID', 'DUPLICATE', 'SKIPPED', 'FAILED'] } },
+    orderBy: { rowNumber: 'asc' },
+  });
+
+  return toCsv([
+    ['row', 'emailOrPhone', 'firstName', 'lastName', 'status', 'error'],
+    ...rows.map((row) => [
+      String(row.rowNumber),
+      row.emailOrPhone,
+      row.firstName,
+      row.lastName,
+      row.status,
+      row.error ?? '',
+    ]),
+  ]);
+}
@@ -0,0 +1,37 @@
+import type { NotificationType } from '@prisma/client';
+import { prisma } from '../prisma';
+
+export const DEAD_LETTER_PAGE_SIZE = 50;
+
+export type DeadLetterNotificationItem = {
+  id: number;
+  notificationType: NotificationType;
+  contextName: string;
+  recipient: string | null;
+  sendAttempts: number;
+  lastError: string | null;
+  deadLetteredAt: string;
+};
+
+/**
+ * Notifications that failed every send attempt allowed by their retry policy, latest first.
+ */
+export async function getDeadLetterNotifications(page = 0): Promise<DeadLetterNotificationItem[]> {
+  const notifications = await prisma.notification.findMany({
+    where: { status: 'FAILED', deadLetteredAt: { not: null } },
+    orderBy: { deadLetteredAt: 'desc' },
+    skip: page * DEAD_LETTER_PAGE_SIZE,
+    take: DEAD_LETTER_PAGE_SIZE,
+    include: { user: { select: { email: true } } },
+  });
+
+  return notifications.map((notification) => ({
+    id: notification.id,
+    notificationType: notification.notificationType,
+    contextName: notification.contextName,
+    recipient: notification.user?.email ?? notification.emailOrPhone,
+    sendAttempts: notification.sendAttempts,
+    lastError: notification.lastError,
+    deadLetteredAt: (notification.deadLetteredAt as Date).toISOString(),
+  }));
+}
@@ -0,0 +1,89 @@
+import type { EmailSuppressionReason } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getEmailSuppressionReason, suppressEmail } from './email-suppressions';
+
+type Suppression = { email: string; reason: EmailSuppressionReason; details: string | null };
+
+// The `EmailSuppression` table, keyed by email
+const suppressions = new Map<string, Suppression>();
+
+vi.mock('../prisma', () => ({
+  prisma: {
+    emailSuppression: {
+      findUnique: async ({ where }: { where: { email: string } }) =>
+        suppressions.get(where.email) ?? null,
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { email: string; reason: { in: EmailSuppressionReason[] } };
+        data: Omit<Suppression, 'email'>;
+      }) => {
+        const suppression = suppressions.get(where.email);
+        if (!suppression || !where.reason.in.includes(suppression.reason)) {
+          return { count: 0 };
+        }
+        suppressions.set(where.email, { ...suppression, ...data });
+        return { count: 1 };
+      },
+      upsert: async ({
+        where,
+        create,
+        update,
+      }: {
+        where: { email: string };
+        create: Suppression;
+        update: Partial<Suppression>;
+      }) => {
+        const suppression = suppressions.get(where.email);
+        const upserted = suppression ? { ...suppression, ...update } : create;
+        suppressions.set(where.email, upserted);
+        return upserted;
+      },
+    },
+  },
+}));
+
+describe('suppressEmail', () => {
+  beforeEach(() => {
+    suppressions.clear();
+  });
+
+  it('adds the address with the reason', async () => {
+    await suppressEmail(' Ana@Example.com ', 'UNSUBSCRIBE');
+
+    expect(await getEmailSuppressionReason('ana@example.com')).toBe('UNSUBSCRIBE');
+  });
+
+  it.each<EmailSuppressionReason>([
+    'HARD_BOUNCE',
+    'COMPLAINT',
+  ])('keeps %s when the address unsubscribes', async (reason) => {
+    await suppressEmail('ana@example.com', reason, 'smtp; 550 5.1.1 user unknown');
+    await suppressEmail('ana@example.com', 'UNSUBSCRIBE');
+
+    expect(suppressions.get('ana@example.com')).toEqual({
+      email: 'ana@example.com',
+      reason,
+      details: 'smtp; 550 5.1.1 user unknown',
+    });
+  });
+
+  it('keeps a hard bounce when a complaint comes in', async () => {
+    await suppressEmail('ana@example.com', 'HARD_BOUNCE');
+    await suppressEmail('ana@example.com', 'COMPLAINT', 'abuse');
+
+    expect(await getEmailSuppressionReason('ana@example.com')).toBe('HARD_BOUNCE');
+  });
+
+  it('raises an unsubscribe to a hard bounce', async () => {
+    await suppressEmail('ana@example.com', 'UNSUBSCRIBE');
+    await suppressEmail('ana@example.com', 'HARD_BOUNCE', 'smtp; 550 5.1.1 user unknown');
+
+    expect(suppressions.get('ana@example.com')).toEqual({
+      email: 'ana@example.com',
+      reason: 'HARD_BOUNCE',
+      details: 'smtp; 550 5.1.1 user unknown',
+    });
+  });
+});
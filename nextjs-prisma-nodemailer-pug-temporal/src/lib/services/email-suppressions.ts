@@ -0,0 +1,85 @@
+import type { EmailSuppressionReason } from '@prisma/client';
+import { prisma } from '../prisma';
+import { generateToken, verifyToken } from './auth';
+
+const UNSUBSCRIBE_TOKEN_PURPOSE = 'unsubscribe';
+
+type UnsubscribeTokenPayload = {
+  email: string;
+  purpose: string;
+};
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export async function getEmailSuppressionReason(
+  email: string,
+): Promise<EmailSuppressionReason | null> {
+  const suppression = await prisma.emailSuppression.findUnique({
+    where: { email: normalizeEmail(email) },
+    select: { reason: true },
+  });
+  return suppression?.reason ?? null;
+}
+
+// Addresses that bounced or complained stay blocked for every email, whatever happens next
+const SUPPRESSION_SEVERITY: Record<EmailSuppressionReason, number> = {
+  UNSUBSCRIBE: 0,
+  MANUAL: 1,
+  COMPLAINT: 2,
+  HARD_BOUNCE: 3,
+};
+
+/**
+ * Adds the address to the suppression list, or raises the reason it is on it. The reason is
+ * never lowered, so unsubscribing from an address that hard bounced keeps it HARD_BOUNCE.
+ */
+export async function suppressEmail(
+  email: string,
+  reason: EmailSuppressionReason,
+  details: string | null = null,
+): Promise<void> {
+  const normalizedEmail = normalizeEmail(email);
+  const sameOrWeakerReasons = (
+    Object.keys(SUPPRESSION_SEVERITY) as EmailSuppressionReason[]
+  ).filter(
+    (existingReason) => SUPPRESSION_SEVERITY[existingReason] <= SUPPRESSION_SEVERITY[reason],
+  );
+
+  // A single conditional update, so a concurrent bounce can't be overwritten either
+  const { count } = await prisma.emailSuppression.updateMany({
+    where: { email: normalizedEmail, reason: { in: sameOrWeakerReasons } },
+    data: { reason, details },
+  });
+  if (count > 0) {
+    return;
+  }
+
+  // Either the address isn't suppressed yet, or it is for a stronger reason that is kept
+  await prisma.emailSuppression.upsert({
+    where: { email: normalizedEmail },
+    create: { email: normalizedEmail, reason, details },
+    update: {},
+  });
+}
+
+/**
+ * Unsubscribe links must keep working long after the email was sent, so the token
+ * outlives the usual auth tokens.
+ */
+export function generateUnsubscribeToken(email: string): string {
+  return generateToken(
+    { email: normalizeEmail(email), purpose: UNSUBSCRIBE_TOKEN_PURPOSE },
+    '365d',
+  );
+}
+
+export function getEmailFromUnsubscribeToken(token: string): string | null {
+  try {
+    const { email, purpose } = verifyToken<UnsubscribeTokenPayload>(token);
+    return purpose === UNSUBSCRIBE_TOKEN_PURPOSE ? email : null;
+  } catch (_error) {
+    return null;
+  }
+}
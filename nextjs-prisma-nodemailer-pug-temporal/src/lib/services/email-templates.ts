@@ -0,0 +1,449 @@
+import { existsSync } from 'node:fs';
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { EmailTemplateVersion, EmailTemplateVersionStatus } from '@prisma/client';
+import pug from 'pug';
+import { getLocaleFallbacks } from '../i18n';
+import { prisma } from '../prisma';
+import type { SaveEmailTemplateDraftValues } from '../schemas/email-templates';
+import { getStoredTemplateOptions } from './stored-template-check';
+
+const EMAIL_TEMPLATES_DIR = './src/email-templates';
+// Notifications refer to templates as `./src/email-templates/...` or `/src/email-templates/...`
+const EMAIL_TEMPLATES_DIR_PREFIX = /^\.?\/?src\/email-templates\//;
+// e.g. `welcome-prospect-body.html.pug`, or `welcome-prospect-body.pt-BR.html.pug` when localized
+const BODY_TEMPLATE_PATTERN = /^(.+)-body(\.[\w-]+)?\.(html|txt)\.pug$/;
+
+export type EmailTemplateOption = {
+  // Path without the suffix, e.g. `auth/verify-email/verify-email`, or
+  // `marketing/welcome-prospect.pt-BR` for a localized file. Also the key of the `EmailTemplate`
+  // rows that override it.
+  name: string;
+  bodyTemplate: string;
+  subjectTemplate: string | null;
+  // Optional plain-text alternative and preheader of HTML templates
+  textTemplate: string | null;
+  preheaderTemplate: string | null;
+  format: 'html' | 'text';
+};
+
+export type EmailTemplateVersionItem = {
+  id: number;
+  version: number;
+  status: EmailTemplateVersionStatus;
+  subject: string;
+  body: string;
+  createdById: number | null;
+  createdAt: string;
+  publishedAt: string | null;
+};
+
+export type EmailTemplateOverride = {
+  tenant: string;
+  publishedVersion: number | null;
+  draftVersion: number | null;
+};
+
+export type EmailTemplateListItem = EmailTemplateOption & {
+  overrides: EmailTemplateOverride[];
+};
+
+export type EmailTemplateDetail = EmailTemplateOption & {
+  tenant: string;
+  // Rendered when no version is published
+  file: { subject: string; body: string };
+  versions: EmailTemplateVersionItem[];
+};
+
+export type EmailTemplateChangeResult =
+  | { version: EmailTemplateVersionItem }
+  | { error: 'not_found' | 'not_draft' | 'not_published' | 'not_archived' }
+  | { templateError: string };
+
+/**
+ * The body templates under `src/email-templates`, each with the subject template next to it
+ * (e.g. `welcome-prospect-body.html.pug` and `welcome-prospect-subject.txt.pug`) if there is one.
+ * HTML templates can also have a plain-text alternative (`welcome-prospect-body.txt.pug`) and a
+ * preheader (`welcome-prospect-preheader.txt.pug`).
+ */
+export async function listEmailTemplates(): Promise<EmailTemplateOption[]> {
+  const files = (await readdir(EMAIL_TEMPLATES_DIR, { recursive: true }))
+    .map((file) => file.split(path.sep).join('/'))
+    .filter((file) => file.endsWith('.pug'))
+    .sort();
+
+  const getPath = (file: string) =>
+    files.includes(file) ? `${EMAIL_TEMPLATES_DIR}/${file}` : null;
+
+  // Text bodies next to an HTML body are its plain-text alternative, not templates of their own
+  const bodyFiles = files.filter(
+    (file) =>
+      BODY_TEMPLATE_PATTERN.test(file) &&
+      !(file.endsWith('.txt.pug') && files.includes(file.replace(/\.txt\.pug$/, '.html.pug'))),
+  );
+
+  return bodyFiles.map((bodyFile): EmailTemplateOption => {
+    const [, base, localeSuffix = ''] = bodyFile.match(BODY_TEMPLATE_PATTERN) as RegExpMatchArray;
+    const isHtml = bodyFile.endsWith('.html.pug');
+    return {
+      name: `${base}${localeSuffix}`,
+      bodyTemplate: `${EMAIL_TEMPLATES_DIR}/${bodyFile}`,
+      subjectTemplate: getPath(`${base}-subject${localeSuffix}.txt.pug`),
+      textTemplate: isHtml ? getPath(`${base}-body${localeSuffix}.txt.pug`) : null,
+      preheaderTemplate: isHtml ? getPath(`${base}-preheader${localeSuffix}.txt.pug`) : null,
+      format: isHtml ? 'html' : 'text',
+    };
+  });
+}
+
+/**
+ * Templates that can be stored in the database: the ones rendered by the email renderer, which
+ * needs a subject. SMS templates are always read from their files.
+ */
+async function listEditableEmailTemplates(): Promise<EmailTemplateOption[]> {
+  return (await listEmailTemplates()).filter((template) => template.subjectTemplate);
+}
+
+/**
+ * Key of the `EmailTemplate` rows that override a notification's `bodyTemplate`, e.g.
+ * `auth/verify-email/verify-email` for `./src/email-templates/auth/verify-email/verify-email-body.html.pug`,
+ * or `auth/verify-email/verify-email.pt-BR` for its `verify-email-body.pt-BR.html.pug`.
+ * Null for templates outside `src/email-templates`.
+ */
+export function getEmailTemplateKey(bodyTemplate: string): string | null {
+  if (!EMAIL_TEMPLATES_DIR_PREFIX.test(bodyTemplate)) {
+    return null;
+  }
+
+  const match = bodyTemplate.replace(EMAIL_TEMPLATES_DIR_PREFIX, '').match(BODY_TEMPLATE_PATTERN);
+  return match ? `${match[1]}${match[2] ?? ''}` : null;
+}
+
+/**
+ * The translated file of a template for the locale, e.g. `verify-email-body.pt-BR.html.pug`
+ * next to `verify-email-body.html.pug`, trying each locale of its fallback chain. Returns the
+ * template itself when there is none.
+ */
+export function getLocalizedTemplatePath(template: string, locale: string): string {
+  for (const fallback of getLocaleFallbacks(locale)) {
+    const localized = template.replace(/\.(html|txt)\.pug$/, `.${fallback}.$1.pug`);
+    if (existsSync(localized)) {
+      return localized;
+    }
+  }
+  return template;
+}
+
+/**
+ * The published version for the tenant, or else the one for every tenant. Null when neither
+ * exists and the template is rendered from its files.
+ */
+export async function getPublishedEmailTemplateVersion(
+  key: string,
+  tenant: string | null,
+): Promise<EmailTemplateVersion | null> {
+  const versions = await prisma.emailTemplateVersion.findMany({
+    where: { status: 'PUBLISHED', template: { key, tenant: { in: tenant ? [tenant, ''] : [''] } } },
+    include: { template: { select: { tenant: true } } },
+  });
+
+  return (
+    versions.find((version) => tenant && version.template.tenant === tenant) ??
+    versions.find((version) => version.template.tenant === '') ??
+    null
+  );
+}
+
+/**
+ * The plain-text alternative and preheader templates next to an HTML `bodyTemplate`, translated
+ * for the locale like the body. Null for the ones that don't exist.
+ */
+export function getEmailTemplateParts(
+  bodyTemplate: string,
+  locale: string,
+): { textTemplate: string | null; preheaderTemplate: string | null } {
+  const findTemplate = (template: string) => {
+    const localized = getLocalizedTemplatePath(template, locale);
+    return existsSync(localized) ? localized : null;
+  };
+
+  return {
+    textTemplate: findTemplate(bodyTemplate.replace(/\.html\.pug$/, '.txt.pug')),
+    preheaderTemplate: findTemplate(
+      bodyTemplate.replace(/-body\.html\.pug$/, '-preheader.txt.pug'),
+    ),
+  };
+}
+
+/**
+ * Compiles the published version's sources, or the template files when there is none. The
+ * sources are compiled with the file paths as `filename`, so their `include` and `extends`
+ * paths resolve like in the files, and may only use context values, literals and `t()` (see
+ * `getStoredTemplateOptions`).
+ */
+export function compileEmailTemplate(
+  files: { bodyTemplate: string; subjectTemplate: string | null },
+  published: Pick<EmailTemplateVersion, 'subject' | 'body'> | null,
+  options: pug.Options = {},
+): { subject: pug.compileTemplate | null; body: pug.compileTemplate } {
+  if (published) {
+    return {
+      subject: pug.compile(
+        published.subject,
+        getStoredTemplateOptions(options, files.subjectTemplate ?? files.bodyTemplate),
+      ),
+      body: pug.compile(published.body, getStoredTemplateOptions(options, files.bodyTemplate)),
+    };
+  }
+
+  return {
+    subject: files.subjectTemplate ? pug.compileFile(files.subjectTemplate, options) : null,
+    body: pug.compileFile(files.bodyTemplate, options),
+  };
+}
+
+// Compiled before saving, so a version with a Pug error is never published
+function getTemplateError(
+  version: Pick<EmailTemplateVersion, 'subject' | 'body'>,
+  template: EmailTemplateOption,
+): string | null {
+  try {
+    compileEmailTemplate(template, version);
+    return null;
+  } catch (error) {
+    return String(error);
+  }
+}
+
+function toEmailTemplateVersionItem(version: EmailTemplateVersion): EmailTemplateVersionItem {
+  return {
+    id: version.id,
+    version: version.version,
+    status: version.status,
+    subject: version.subject,
+    body: version.body,
+    createdById: version.createdById,
+    createdAt: version.createdAt.toISOString(),
+    publishedAt: version.publishedAt?.toISOString() ?? null,
+  };
+}
+
+export async function getEmailTemplates(): Promise<EmailTemplateListItem[]> {
+  const [templates, overrides] = await Promise.all([
+    listEditableEmailTemplates(),
+    prisma.emailTemplate.findMany({
+      orderBy: { tenant: 'asc' },
+      include: { versions: { where: { status: { in: ['DRAFT', 'PUBLISHED'] } } } },
+    }),
+  ]);
+
+  return templates.map((template) => ({
+    ...template,
+    overrides: overrides
+      .filter((override) => override.key === template.name)
+      .map((override) => ({
+        tenant: override.tenant,
+        publishedVersion:
+          override.versions.find((version) => version.status === 'PUBLISHED')?.version ?? null,
+        draftVersion:
+          override.versions.find((version) => version.status === 'DRAFT')?.version ?? null,
+      })),
+  }));
+}
+
+export async function getEmailTemplate(
+  key: string,
+  tenant: string,
+): Promise<EmailTemplateDetail | null> {
+  const template = (await listEditableEmailTemplates()).find((option) => option.name === key);
+  if (!template) {
+    return null;
+  }
+
+  const [subject, body, override] = await Promise.all([
+    readFile(template.subjectTemplate as string, 'utf-8'),
+    readFile(template.bodyTemplate, 'utf-8'),
+    prisma.emailTemplate.findUnique({
+      where: { key_tenant: { key, tenant } },
+      include: { versions: { orderBy: { version: 'desc' } } },
+    }),
+  ]);
+
+  return {
+    ...template,
+    tenant,
+    file: { subject, body },
+    versions: override?.versions.map(toEmailTemplateVersionItem) ?? [],
+  };
+}
+
+/**
+ * Stores the subject and body as the template's draft, replacing the current draft if there
+ * is one. Drafts are never rendered for notifications until they are published.
+ */
+export async function saveEmailTemplateDraft(
+  userId: number,
+  { key, tenant, subject, body }: SaveEmailTemplateDraftValues,
+): Promise<EmailTemplateChangeResult> {
+  const template = (await listEditableEmailTemplates()).find((option) => option.name === key);
+  if (!template) {
+    return { error: 'not_found' };
+  }
+  const templateError = getTemplateError({ subject, body }, template);
+  if (templateError) {
+    return { templateError };
+  }
+
+  const version = await prisma.$transaction(async (tx) => {
+    const { id: templateId } = await tx.emailTemplate.upsert({
+      where: { key_tenant: { key, tenant } },
+      create: { key, tenant },
+      update: {},
+    });
+    const draft = await tx.emailTemplateVersion.findFirst({
+      where: { templateId, status: 'DRAFT' },
+    });
+    if (draft) {
+      return tx.emailTemplateVersion.update({
+        where: { id: draft.id },
+        data: { subject, body, createdById: userId },
+      });
+    }
+
+    const latest = await tx.emailTemplateVersion.aggregate({
+      where: { templateId },
+      _max: { version: true },
+    });
+    return tx.emailTemplateVersion.create({
+      data: {
+        templateId,
+        version: (latest._max.version ?? 0) + 1,
+        subject,
+        body,
+        createdById: userId,
+      },
+    });
+  });
+
+  return { version: toEmailTemplateVersionItem(version) };
+}
+
+async function getVersionTemplate(
+  version: EmailTemplateVersion & { template: { key: string } },
+): Promise<EmailTemplateOption | null> {
+  const templates = await listEditableEmailTemplates();
+  return templates.find((option) => option.name === version.template.key) ?? null;
+}
+
+/**
+ * Publishes a draft. The version published before is archived, and can be brought back with
+ * `rollbackEmailTemplateVersion`.
+ */
+export async function publishEmailTemplateVersion(
+  versionId: number,
+): Promise<EmailTemplateChangeResult> {
+  const draft = await prisma.emailTemplateVersion.findUnique({
+    where: { id: versionId },
+    include: { template: { select: { key: true } } },
+  });
+  if (!draft) {
+    return { error: 'not_found' };
+  }
+  if (draft.status !== 'DRAFT') {
+    return { error: 'not_draft' };
+  }
+  // The file may have been removed since the draft was saved
+  const template = await getVersionTemplate(draft);
+  const templateError = template
+    ? getTemplateError(draft, template)
+    : `Template file ${draft.template.key} not found`;
+  if (templateError) {
+    return { templateError };
+  }
+
+  const version = await prisma.$transaction(async (tx) => {
+    await tx.emailTemplateVersion.updateMany({
+      where: { templateId: draft.templateId, status: 'PUBLISHED' },
+      data: { status: 'ARCHIVED' },
+    });
+    return tx.emailTemplateVersion.update({
+      where: { id: draft.id },
+      data: { status: 'PUBLISHED', publishedAt: new Date() },
+    });
+  });
+
+  return { version: toEmailTemplateVersionItem(version) };
+}
+
+/**
+ * Publishes a copy of an archived version as a new version, so the history only grows. The
+ * current draft, if any, is kept.
+ */
+export async function rollbackEmailTemplateVersion(
+  userId: number,
+  versionId: number,
+): Promise<EmailTemplateChangeResult> {
+  const archived = await prisma.emailTemplateVersion.findUnique({
+    where: { id: versionId },
+    include: { template: { select: { key: true } } },
+  });
+  if (!archived) {
+    return { error: 'not_found' };
+  }
+  if (archived.status !== 'ARCHIVED') {
+    return { error: 'not_archived' };
+  }
+  const template = await getVersionTemplate(archived);
+  const templateError = template
+    ? getTemplateError(archived, template)
+    : `Template file ${archived.template.key} not found`;
+  if (templateError) {
+    return { templateError };
+  }
+
+  const version = await prisma.$transaction(async (tx) => {
+    await tx.emailTemplateVersion.updateMany({
+      where: { templateId: archived.templateId, status: 'PUBLISHED' },
+      data: { status: 'ARCHIVED' },
+    });
+    const latest = await tx.emailTemplateVersion.aggregate({
+      where: { templateId: archived.templateId },
+      _max: { version: true },
+    });
+    return tx.emailTemplateVersion.create({
+      data: {
+        templateId: archived.templateId,
+        version: (latest._max.version ?? 0) + 1,
+        status: 'PUBLISHED',
+        subject: archived.subject,
+        body: archived.body,
+        createdById: userId,
+        publishedAt: new Date(),
+      },
+    });
+  });
+
+  return { version: toEmailTemplateVersionItem(version) };
+}
+
+/**
+ * Archives the published version, so notifications are rendered from the template files again
+ * (or from the version for every tenant, for a tenant override).
+ */
+export async function unpublishEmailTemplateVersion(
+  versionId: number,
+): Promise<EmailTemplateChangeResult> {
+  const published = await prisma.emailTemplateVersion.findUnique({ where: { id: versionId } });
+  if (!published) {
+    return { error: 'not_found' };
+  }
+  if (published.status !== 'PUBLISHED') {
+    return { error: 'not_published' };
+  }
+
+  const version = await prisma.emailTemplateVersion.update({
+    where: { id: published.id },
+    data: { status: 'ARCHIVED' },
+  });
+  return { version: toEmailTemplateVersionItem(version) };
+}
@@ -0,0 +1,94 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { generateToken } from './auth';
+import { addToOutbox } from './notification-outbox';
+import { getNotificationServiceWithQueue } from './notifications-with-queue';
+
+export const EMAIL_VERIFICATION_TOKEN_TTL_HOURS = 24;
+// Minimum time between two verification emails for the same user
+export const RESEND_VERIFICATION_COOLDOWN_SECONDS = 60;
+
+const emailVerificationNotification = {
+  notificationType: 'EMAIL',
+  title: 'Email Verification',
+  contextName: 'emailVerification',
+  bodyTemplate: './src/email-templates/auth/verify-email/verify-email-body.html.pug',
+  subjectTemplate: './src/email-templates/auth/verify-email/verify-email-subject.txt.pug',
+} as const;
+
+/**
+ * Issues a new email verification token. Tokens issued before are deleted, so only the link
+ * in the latest email works.
+ */
+async function issueEmailVerificationToken(
+  tx: Prisma.TransactionClient,
+  userId: number,
+): Promise<string> {
+  const verificationToken = generateToken({ userId }, `${EMAIL_VERIFICATION_TOKEN_TTL_HOURS}h`);
+  await tx.token.deleteMany({ where: { userId, type: 'EMAIL_VERIFICATION' } });
+  await tx.token.create({
+    data: {
+      token: verificationToken,
+      type: 'EMAIL_VERIFICATION',
+      userId,
+      expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TOKEN_TTL_HOURS * 60 * 60 * 1000),
+    },
+  });
+  return verificationToken;
+}
+
+/**
+ * Issues a verification token and writes the email with its link to the outbox, both within
+ * the caller's transaction. Returns the notification id for `relayOutboxNotifications`.
+ */
+export async function addEmailVerificationToOutbox(
+  tx: Prisma.TransactionClient,
+  userId: number,
+  idempotencyKey?: string,
+): Promise<number> {
+  const verificationToken = await issueEmailVerificationToken(tx, userId);
+  return addToOutbox(tx, {
+    ...emailVerificationNotification,
+    userId,
+    contextParameters: { token: verificationToken },
+    sendAfter: new Date(),
+    idempotencyKey,
+  });
+}
+
+/**
+ * Issues a verification token and sends the email with its link through the notification
+ * service, for users that already exist.
+ */
+export async function sendEmailVerification(userId: number): Promise<void> {
+  const verificationToken = await prisma.$transaction((tx) =>
+    issueEmailVerificationToken(tx, userId),
+  );
+
+  const notificationService = await getNotificationServiceWithQueue();
+  await notificationService.createNotification({
+    ...emailVerificationNotification,
+    userId,
+    contextParameters: { token: verificationToken },
+    sendAfter: new Date(),
+    extraParams: {},
+  });
+}
+
+/**
+ * Seconds the user has to wait before another verification email can be sent, 0 when it
+ * can be sent right away.
+ */
+export async function getResendVerificationWait(userId: number): Promise<number> {
+  const latestToken = await prisma.token.findFirst({
+    where: { userId, type: 'EMAIL_VERIFICATION' },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true },
+  });
+  if (!latestToken) {
+    return 0;
+  }
+
+  const elapsedSeconds = (Date.now() - latestToken.createdAt.getTime()) / 1000;
+  return Math.max(0, Math.ceil(RESEND_VERIFICATION_COOLDOWN_SECONDS - elapsedSeconds));
+}
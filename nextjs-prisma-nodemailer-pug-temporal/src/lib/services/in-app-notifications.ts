@@ -0,0 +1,98 @@
+import type { AnyDatabaseNotification, JsonObject } from 'vintasend';
+import { prisma } from '../prisma';
+import { DatabaseEmailTemplateRendererFactory } from '../template-renderers/database-email-template-renderer';
+import { getNotificationService, type NotificationTypeConfig } from './notifications';
+
+export const IN_APP_PAGE_SIZE = 20;
+
+export type InAppNotificationItem = {
+  id: number;
+  title: string;
+  body: string;
+  createdAt: string | null;
+  readAt: string | null;
+};
+
+const templateRenderer = new DatabaseEmailTemplateRendererFactory<NotificationTypeConfig>().create(
+  {},
+);
+
+async function toInAppNotificationItem(
+  notification: AnyDatabaseNotification<NotificationTypeConfig>,
+): Promise<InAppNotificationItem> {
+  const rendered = await templateRenderer.render(
+    notification,
+    (notification.contextUsed ?? {}) as JsonObject,
+  );
+
+  return {
+    id: notification.id,
+    title: rendered.subject || notification.title || '',
+    body: rendered.body,
+    createdAt: notification.createdAt?.toISOString() ?? null,
+    readAt: notification.readAt?.toISOString() ?? null,
+  };
+}
+
+export async function getInAppNotifications(
+  userId: number,
+  page = 0,
+): Promise<InAppNotificationItem[]> {
+  const notificationService = getNotificationService();
+  const notifications = await notificationService.filterNotifications(
+    { userId, notificationType: 'IN_APP', status: ['SENT', 'READ'] },
+    page,
+    IN_APP_PAGE_SIZE,
+    { field: 'createdAt', direction: 'desc' },
+  );
+
+  return Promise.all(notifications.map(toInAppNotificationItem));
+}
+
+export async function countUnreadInAppNotifications(userId: number): Promise<number> {
+  // The backend's unread filter does not look at notificationType, so count IN_APP rows directly
+  return prisma.notification.count({
+    where: { userId, notificationType: 'IN_APP', status: 'SENT', readAt: null },
+  });
+}
+
+/**
+ * Marks one of the user's in-app notifications as read.
+ * Returns false when the notification does not exist or belongs to someone else.
+ */
+export async function markInAppNotificationRead(
+  userId: number,
+  notificationId: number,
+): Promise<boolean> {
+  const notificationService = getNotificationService();
+  const notification = await notificationService.getNotification(notificationId);
+
+  if (
+    !notification ||
+    !('userId' in notification) ||
+    notification.userId !== userId ||
+    notification.notificationType !== 'IN_APP'
+  ) {
+    return false;
+  }
+
+  if (notification.status === 'SENT') {
+    await notificationService.markRead(notificationId);
+  }
+
+  return true;
+}
+
+export async function markAllInAppNotificationsRead(userId: number): Promise<number> {
+  const notificationService = getNotificationService();
+  const unread = await prisma.notification.findMany({
+    where: { userId, notificationType: 'IN_APP', status: 'SENT', readAt: null },
+    select: { id: true },
+  });
+
+  for (const { id } of unread) {
+    await notificationService.markRead(id);
+  }
+
+  return unread.length;
+}
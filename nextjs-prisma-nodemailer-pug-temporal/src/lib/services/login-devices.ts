@@ -0,0 +1,52 @@
+import { prisma } from '../prisma';
+import { getNotificationServiceWithQueue } from './notifications-with-queue';
+
+export type LoginDeviceInfo = { userAgent: string; ipAddress: string };
+
+/**
+ * Remembers the device a user just logged in from. Returns true when it was never seen
+ * before and the user already had other devices, i.e. when they should be told about it;
+ * the first login after signing up is not worth an alert.
+ */
+export async function recordLoginDevice(userId: number, device: LoginDeviceInfo): Promise<boolean> {
+  const existing = await prisma.loginDevice.findUnique({
+    where: { userId_userAgent_ipAddress: { userId, ...device } },
+  });
+  if (existing) {
+    await prisma.loginDevice.update({
+      where: { id: existing.id },
+      data: { lastLoginAt: new Date() },
+    });
+    return false;
+  }
+
+  const knownDevices = await prisma.loginDevice.count({ where: { userId } });
+  await prisma.loginDevice.create({ data: { userId, ...device } });
+  return knownDevices > 0;
+}
+
+/**
+ * Records the device and, when `recordLoginDevice` says so, emails the user a new login alert.
+ * Shared by every way of logging in.
+ */
+export async function alertOnNewLoginDevice(
+  userId: number,
+  device: LoginDeviceInfo,
+): Promise<void> {
+  if (!(await recordLoginDevice(userId, device))) {
+    return;
+  }
+
+  const notificationService = await getNotificationServiceWithQueue();
+  await notificationService.createNotification({
+    userId,
+    notificationType: 'EMAIL',
+    title: 'New login to your account',
+    contextName: 'newLogin',
+    contextParameters: { userId, ...device, loggedInAt: new Date().toISOString() },
+    sendAfter: new Date(),
+    bodyTemplate: './src/email-templates/auth/new-login/new-login-body.html.pug',
+    subjectTemplate: './src/email-templates/auth/new-login/new-login-subject.txt.pug',
+    extraParams: {},
+  });
+}
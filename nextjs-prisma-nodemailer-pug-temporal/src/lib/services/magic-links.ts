@@ -0,0 +1,50 @@
+import { prisma } from '../prisma';
+import { generateToken } from './auth';
+import { getNotificationServiceWithQueue } from './notifications-with-queue';
+
+export const MAGIC_LINK_TTL_MINUTES = 15;
+
+/**
+ * Issues a single-use login token and enqueues the email with the link to `/auth/magic/[token]`.
+ */
+export async function sendMagicLink(userId: number): Promise<void> {
+  const magicLinkToken = generateToken({ userId }, `${MAGIC_LINK_TTL_MINUTES}m`);
+  await prisma.token.create({
+    data: {
+      token: magicLinkToken,
+      type: 'MAGIC_LINK',
+      userId,
+      expiresAt: new Date(Date.now() + MAGIC_LINK_TTL_MINUTES * 60 * 1000),
+    },
+  });
+
+  const notificationService = await getNotificationServiceWithQueue();
+  await notificationService.createNotification({
+    userId,
+    notificationType: 'EMAIL',
+    title: 'Your login link',
+    contextName: 'magicLink',
+    contextParameters: { token: magicLinkToken },
+    sendAfter: new Date(),
+    bodyTemplate: './src/email-templates/auth/magic-link/magic-link-body.html.pug',
+    subjectTemplate: './src/email-templates/auth/magic-link/magic-link-subject.txt.pug',
+    extraParams: {},
+  });
+}
+
+/**
+ * Uses up a magic link token and returns the id of the user it logs in, or null when the
+ * token is unknown, expired or was already used.
+ */
+export async function consumeMagicLink(token: string): Promise<number | null> {
+  const tokenRecord = await prisma.token.findFirst({
+    where: { token, type: 'MAGIC_LINK', expiresAt: { gt: new Date() } },
+  });
+  if (!tokenRecord) {
+    return null;
+  }
+
+  // Deleting by id makes the token single-use even when the link is opened twice at once
+  const { count } = await prisma.token.deleteMany({ where: { id: tokenRecord.id } });
+  return count === 1 ? tokenRecord.userId : null;
+}
@@ -0,0 +1,320 @@
+import type { NotificationStatus, NotificationType, Prisma } from '@prisma/client';
+import {
+  type InputJsonValue,
+  isOneOffNotification,
+  type JsonObject,
+  type JsonValue,
+} from 'vintasend';
+import { prisma } from '../prisma';
+import type {
+  DuplicateNotificationValues,
+  NotificationSearchValues,
+} from '../schemas/admin-notifications';
+import { DatabaseEmailTemplateRendererFactory } from '../template-renderers/database-email-template-renderer';
+import { PugTextTemplateRendererFactory } from '../template-renderers/pug-text-template-renderer';
+import { getNotificationService, type NotificationTypeConfig } from './notifications';
+import { getNotificationServiceWithQueue } from './notifications-with-queue';
+
+export const ADMIN_NOTIFICATIONS_PAGE_SIZE = 50;
+
+export type AdminNotificationItem = {
+  id: number;
+  notificationType: NotificationType;
+  status: NotificationStatus;
+  contextName: string;
+  title: string | null;
+  // The user's email for regular notifications, `emailOrPhone` for one-off ones
+  recipient: string | null;
+  tenant: string | null;
+  createdAt: string;
+  sendAfter: string | null;
+  sentAt: string | null;
+};
+
+export type RenderedNotification = {
+  subject: string | null;
+  body: string;
+  format: 'html' | 'text';
+};
+
+export type AdminNotificationDetail = AdminNotificationItem & {
+  userId: number | null;
+  emailOrPhone: string | null;
+  bodyTemplate: string;
+  subjectTemplate: string | null;
+  contextParameters: JsonValue;
+  contextUsed: JsonValue | null;
+  extraParams: JsonValue | null;
+  adapterUsed: string | null;
+  gitCommitSha: string | null;
+  cancellationReason: string | null;
+  sendAttempts: number;
+  lastError: string | null;
+  deadLetteredAt: string | null;
+  attachments: {
+    id: string;
+    filename: string;
+    contentType: string;
+    size: number;
+    description: string | null;
+  }[];
+  rendered: RenderedNotification | null;
+  renderError: string | null;
+};
+
+function buildSearchWhere(filters: NotificationSearchValues): Prisma.NotificationWhereInput {
+  return {
+    status: filters.status,
+    notificationType: filters.notificationType,
+    contextName: filters.contextName,
+    tenant: filters.tenant,
+    userId: filters.userId,
+    emailOrPhone: filters.emailOrPhone
+      ? { contains: filters.emailOrPhone, mode: 'insensitive' }
+      : undefined,
+    // Accept short SHAs, like the ones shown by `git log --oneline`
+    gitCommitSha: filters.gitCommitSha ? { startsWith: filters.gitCommitSha } : undefined,
+    createdAt: { gte: filters.createdFrom, lte: filters.createdTo },
+    sentAt:
+      filters.sentFrom || filters.sentTo
+        ? { gte: filters.sentFrom, lte: filters.sentTo }
+        : undefined,
+  };
+}
+
+const notificationWithRecipient = { user: { select: { email: true } } } as const;
+type NotificationWithRecipient = Prisma.NotificationGetPayload<{
+  include: typeof notificationWithRecipient;
+}>;
+
+function toAdminNotificationItem(notification: NotificationWithRecipient): AdminNotificationItem {
+  return {
+    id: notification.id,
+    notificationType: notification.notificationType,
+    status: notification.status,
+    contextName: notification.contextName,
+    title: notification.title,
+    recipient: notification.user?.email ?? notification.emailOrPhone,
+    tenant: notification.tenant,
+    createdAt: notification.createdAt.toISOString(),
+    sendAfter: notification.sendAfter?.toISOString() ?? null,
+    sentAt: notification.sentAt?.toISOString() ?? null,
+  };
+}
+
+export async function searchNotifications(
+  filters: NotificationSearchValues,
+): Promise<{ notifications: AdminNotificationItem[]; total: number }> {
+  const where = buildSearchWhere(filters);
+  const [notifications, total] = await Promise.all([
+    prisma.notification.findMany({
+      where,
+      orderBy: { id: 'desc' },
+      skip: filters.page * ADMIN_NOTIFICATIONS_PAGE_SIZE,
+      take: ADMIN_NOTIFICATIONS_PAGE_SIZE,
+      include: notificationWithRecipient,
+    }),
+    prisma.notification.count({ where }),
+  ]);
+
+  return { notifications: notifications.map(toAdminNotificationItem), total };
+}
+
+// Context values that act on the recipient's account, like password reset and login links.
+// Anyone with `notifications:view` can open the detail page, so they are never shown there.
+const SECRET_CONTEXT_KEYS = [
+  'token',
+  'resetPasswordLink',
+  'magicLink',
+  'verificationLink',
+  'unsubscribeUrl',
+  'listUnsubscribeUrl',
+];
+const REDACTED = '[redacted]';
+
+function redactSecrets(value: JsonValue): JsonValue {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [
+      key,
+      SECRET_CONTEXT_KEYS.includes(key) ? REDACTED : redactSecrets(entry as JsonValue),
+    ]),
+  );
+}
+
+const emailTemplateRenderer =
+  new DatabaseEmailTemplateRendererFactory<NotificationTypeConfig>().create({});
+const textTemplateRenderer = new PugTextTemplateRendererFactory<NotificationTypeConfig>().create(
+  {},
+);
+
+/**
+ * Renders the notification the way its adapter does, with the context it was sent with, or
+ * a freshly generated one when it wasn't sent yet. Secret links are redacted from the context
+ * first, so they don't show up in the rendered body either.
+ */
+async function renderNotification(
+  notification: NotificationWithRecipient,
+): Promise<RenderedNotification> {
+  const notificationService = getNotificationService();
+  const databaseNotification = await notificationService.getNotification(notification.id);
+  if (!databaseNotification) {
+    throw new Error(`Notification ${notification.id} not found`);
+  }
+  const context = redactSecrets(
+    (notification.contextUsed as JsonObject | null) ??
+      (await notificationService.getNotificationContext(
+        databaseNotification.contextName,
+        databaseNotification.contextParameters,
+      )),
+  ) as JsonObject;
+
+  if (notification.notificationType === 'SMS') {
+    const { text } = await textTemplateRenderer.render(databaseNotification, context);
+    return { subject: null, body: text, format: 'text' };
+  }
+
+  const { subject, body } = await emailTemplateRenderer.render(databaseNotification, context);
+  return {
+    subject,
+    body,
+    format: notification.bodyTemplate.endsWith('.html.pug') ? 'html' : 'text',
+  };
+}
+
+export async function getNotificationDetail(
+  notificationId: number,
+): Promise<AdminNotificationDetail | null> {
+  const notification = await prisma.notification.findUnique({
+    where: { id: notificationId },
+    include: {
+      ...notificationWithRecipient,
+      attachments: { include: { attachmentFile: true } },
+    },
+  });
+  if (!notification) {
+    return null;
+  }
+
+  let rendered: RenderedNotification | null = null;
+  let renderError: string | null = null;
+  try {
+    rendered = await renderNotification(notification);
+  } catch (error) {
+    renderError = String(error);
+  }
+
+  return {
+    ...toAdminNotificationItem(notification),
+    userId: notification.userId,
+    emailOrPhone: notification.emailOrPhone,
+    bodyTemplate: notification.bodyTemplate,
+    subjectTemplate: notification.subjectTemplate,
+    contextParameters: redactSecrets(notification.contextParameters as JsonValue),
+    contextUsed: redactSecrets(notification.contextUsed as JsonValue),
+    extraParams: notification.extraParams as JsonValue | null,
+    adapterUsed: notification.adapterUsed,
+    gitCommitSha: notification.gitCommitSha,
+    cancellationReason: notification.cancellationReason,
+    sendAttempts: notification.sendAttempts,
+    lastError: notification.lastError,
+    deadLetteredAt: notification.deadLetteredAt?.toISOString() ?? null,
+    attachments: notification.attachments.map((attachment) => ({
+      id: attachment.id,
+      filename: attachment.attachmentFile.filename,
+      contentType: attachment.attachmentFile.contentType,
+      size: attachment.attachmentFile.size,
+      description: attachment.description,
+    })),
+    rendered,
+    renderError,
+  };
+}
+
+/**
+ * `recipient_mismatch` means a `userId` was given for a one-off notification or an
+ * `emailOrPhone` for a regular one. `recipient_bound` means the context parameters have a
+ * token of the original recipient's account, e.g. a password reset, so the copy can only go
+ * to them.
+ */
+export type DuplicateNotificationResult =
+  | { notificationId: number }
+  | 'not_found'
+  | 'recipient_mismatch'
+  | 'recipient_bound';
+
+function hasContextParameter(contextParameters: JsonValue, name: string): boolean {
+  return (
+    !!contextParameters &&
+    typeof contextParameters === 'object' &&
+    !Array.isArray(contextParameters) &&
+    name in contextParameters
+  );
+}
+
+/**
+ * Creates a new notification with the same templates and context parameters, going through
+ * the notification guards like any other. Without overrides this resends it to the same
+ * recipient right away. Copies of one-off emails to another address get unsubscribe links
+ * signed for that address.
+ */
+export async function duplicateNotification(
+  notificationId: number,
+  overrides: DuplicateNotificationValues = {},
+): Promise<DuplicateNotificationResult> {
+  const notificationService = await getNotificationServiceWithQueue();
+  const notification = await notificationService.getNotification(notificationId);
+  if (!notification) {
+    return 'not_found';
+  }
+
+  const copy = {
+    notificationType: notification.notificationType,
+    title: notification.title,
+    bodyTemplate: notification.bodyTemplate,
+    subjectTemplate: notification.subjectTemplate,
+    contextName: notification.contextName,
+    contextParameters: notification.contextParameters,
+    sendAfter: overrides.sendAfter ?? null,
+    extraParams: notification.extraParams as InputJsonValue | null,
+  };
+
+  const isTokenBound = hasContextParameter(notification.contextParameters, 'token');
+
+  if (isOneOffNotification(notification)) {
+    if (overrides.userId !== undefined) {
+      return 'recipient_mismatch';
+    }
+    const emailOrPhone = overrides.emailOrPhone ?? notification.emailOrPhone;
+    if (emailOrPhone !== notification.emailOrPhone) {
+      if (isTokenBound) {
+        return 'recipient_bound';
+      }
+      if (hasContextParameter(notification.contextParameters, 'email')) {
+        copy.contextParameters = {
+          ...notification.contextParameters,
+          email: emailOrPhone,
+        } as typeof copy.contextParameters;
+      }
+    }
+    const created = await notificationService.createOneOffNotification({
+      ...copy,
+      emailOrPhone,
+      firstName: notification.firstName,
+      lastName: notification.lastName,
+    });
+    return { notificationId: created.id };
+  }
+
+  if (overrides.emailOrPhone !== undefined) {
+    return 'recipient_mismatch';
+  }
+  const userId = overrides.userId ?? notification.userId;
+  if (userId !== notification.userId && isTokenBound) {
+    return 'recipient_bound';
+  }
+  const created = await notificationService.createNotification({ ...copy, userId });
+  return { notificationId: created.id };
+}
@@ -0,0 +1,171 @@
+import type { EmailSuppressionReason, NotificationType } from '@prisma/client';
+import type { DatabaseNotification, DatabaseOneOffNotification } from 'vintasend';
+import { logger } from '../logger';
+import { prisma } from '../prisma';
+import { getEmailSuppressionReason } from './email-suppressions';
+import {
+  isNotificationEnabled,
+  isOptionalNotification,
+  marketingContextNames,
+} from './notification-preferences';
+import type { NotificationService, NotificationTypeConfig } from './notifications';
+
+export type NotificationGuardInput = {
+  // One-off notifications only have `emailOrPhone`, regular ones only have `userId`
+  userId: number | null;
+  emailOrPhone: string | null;
+  notificationType: NotificationType;
+  contextName: string;
+  // Set when the notification is already stored, so the daily cap doesn't count it
+  notificationId?: number;
+};
+
+/**
+ * Returns the reason the notification must not be sent, or null to let it through.
+ */
+type NotificationGuard = (input: NotificationGuardInput) => Promise<string | null>;
+
+const optOutGuard: NotificationGuard = async ({ userId, contextName, notificationType }) => {
+  if (userId === null || (await isNotificationEnabled(userId, contextName, notificationType))) {
+    return null;
+  }
+  return `User opted out of ${contextName} ${notificationType} notifications`;
+};
+
+async function getUserEmail(userId: number): Promise<string | null> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+  return user?.email ?? null;
+}
+
+// Addresses that can't receive email at all. Other suppressions, like unsubscribing, only stop
+// optional and marketing email, so users still get their password resets and login links.
+const UNDELIVERABLE_SUPPRESSION_REASONS: EmailSuppressionReason[] = ['HARD_BOUNCE', 'COMPLAINT'];
+
+const suppressionGuard: NotificationGuard = async ({
+  userId,
+  emailOrPhone,
+  notificationType,
+  contextName,
+}) => {
+  if (notificationType !== 'EMAIL') {
+    return null;
+  }
+
+  const email = emailOrPhone ?? (userId !== null ? await getUserEmail(userId) : null);
+  const reason = email ? await getEmailSuppressionReason(email) : null;
+  if (!reason) {
+    return null;
+  }
+
+  const isTransactional =
+    !isOptionalNotification(contextName, notificationType) &&
+    !marketingContextNames.includes(contextName);
+  if (isTransactional && !UNDELIVERABLE_SUPPRESSION_REASONS.includes(reason)) {
+    return null;
+  }
+  return `${email} is on the email suppression list (${reason})`;
+};
+
+// Most notifications of one type a single recipient gets in 24 hours, whatever triggers them
+export const DAILY_NOTIFICATIONS_PER_RECIPIENT = Number(
+  process.env.DAILY_NOTIFICATIONS_PER_RECIPIENT || 50,
+);
+
+const dailyCapGuard: NotificationGuard = async ({
+  userId,
+  emailOrPhone,
+  notificationType,
+  notificationId,
+}) => {
+  const sentToday = await prisma.notification.count({
+    where: {
+      ...(userId !== null ? { userId } : { emailOrPhone }),
+      ...(notificationId !== undefined && { id: { not: notificationId } }),
+      notificationType,
+      status: { not: 'CANCELLED' },
+      createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+    },
+  });
+  if (sentToday < DAILY_NOTIFICATIONS_PER_RECIPIENT) {
+    return null;
+  }
+  return `Recipient reached the daily cap of ${DAILY_NOTIFICATIONS_PER_RECIPIENT} ${notificationType} notifications`;
+};
+
+const notificationGuards: NotificationGuard[] = [optOutGuard, suppressionGuard, dailyCapGuard];
+
+export async function getBlockedReason(input: NotificationGuardInput): Promise<string | null> {
+  for (const guard of notificationGuards) {
+    const reason = await guard(input);
+    if (reason) {
+      return reason;
+    }
+  }
+  return null;
+}
+
+/**
+ * Stores the notification without sending it, as CANCELLED with the reason it was blocked.
+ */
+async function persistCancelledNotification(
+  notificationService: NotificationService,
+  notification: Parameters<NotificationService['bulkPersistNotifications']>[0][number],
+  reason: string,
+) {
+  const [notificationId] = await notificationService.bulkPersistNotifications([notification]);
+  await prisma.notification.update({
+    where: { id: notificationId },
+    data: { status: 'CANCELLED', cancellationReason: reason },
+  });
+  logger.info('Notification cancelled before sending', { notificationId, reason });
+
+  return notificationService.getNotification(notificationId);
+}
+
+/**
+ * Wraps `createNotification` and `createOneOffNotification` so blocked notifications are kept
+ * for auditing as CANCELLED (with `cancellationReason`) instead of being sent or enqueued.
+ */
+export function withNotificationGuards(notificationService: NotificationService) {
+  const createNotification = notificationService.createNotification.bind(notificationService);
+  const createOneOffNotification =
+    notificationService.createOneOffNotification.bind(notificationService);
+
+  notificationService.createNotification = async (notification) => {
+    const reason = await getBlockedReason({
+      userId: notification.userId,
+      emailOrPhone: null,
+      notificationType: notification.notificationType,
+      contextName: notification.contextName as string,
+    });
+    if (!reason) {
+      return createNotification(notification);
+    }
+
+    return (await persistCancelledNotification(
+      notificationService,
+      notification,
+      reason,
+    )) as DatabaseNotification<NotificationTypeConfig>;
+  };
+
+  notificationService.createOneOffNotification = async (notification) => {
+    const reason = await getBlockedReason({
+      userId: null,
+      emailOrPhone: notification.emailOrPhone,
+      notificationType: notification.notificationType,
+      contextName: notification.contextName as string,
+    });
+    if (!reason) {
+      return createOneOffNotification(notification);
+    }
+
+    return (await persistCancelledNotification(
+      notificationService,
+      notification,
+      reason,
+    )) as DatabaseOneOffNotification<NotificationTypeConfig>;
+  };
+
+  return notificationService;
+}
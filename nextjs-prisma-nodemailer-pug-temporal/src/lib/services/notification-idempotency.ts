@@ -0,0 +1,154 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/client';
+import type {
+  AnyDatabaseNotification,
+  DatabaseNotification,
+  DatabaseOneOffNotification,
+} from 'vintasend';
+import { logger } from '../logger';
+import { prisma } from '../prisma';
+import { getBlockedReason, type NotificationGuardInput } from './notification-guards';
+import type { NotificationService, NotificationTypeConfig } from './notifications';
+
+export type IdempotencyKeyOption = {
+  // Creating again with the same key returns the first notification instead of a new one
+  idempotencyKey?: string;
+};
+
+type NotificationInput = Parameters<NotificationService['createNotification']>[0];
+type OneOffNotificationInput = Parameters<NotificationService['createOneOffNotification']>[0];
+
+export type IdempotentNotificationService = NotificationService & {
+  createNotification(
+    notification: NotificationInput & IdempotencyKeyOption,
+  ): Promise<DatabaseNotification<NotificationTypeConfig>>;
+  createOneOffNotification(
+    notification: OneOffNotificationInput & IdempotencyKeyOption,
+  ): Promise<DatabaseOneOffNotification<NotificationTypeConfig>>;
+};
+
+/**
+ * Stores the key on a notification that was just persisted. Returns the id of the notification
+ * that already has the key when a concurrent request with the same key got there first.
+ */
+async function claimIdempotencyKey(
+  notificationId: number,
+  idempotencyKey: string,
+): Promise<number | null> {
+  try {
+    await prisma.notification.update({ where: { id: notificationId }, data: { idempotencyKey } });
+    return null;
+  } catch (error) {
+    if (!(error instanceof PrismaClientKnownRequestError) || error.code !== 'P2002') {
+      throw error;
+    }
+    const { id } = await prisma.notification.findUniqueOrThrow({
+      where: { idempotencyKey },
+      select: { id: true },
+    });
+    return id;
+  }
+}
+
+/**
+ * Creates the notification unless one with the same key exists. It is persisted and gets its
+ * key before being sent, so concurrent requests with the same key send it once: the loser
+ * deletes its copy and returns the winner's.
+ */
+async function createOnce<Created extends AnyDatabaseNotification<NotificationTypeConfig>>(
+  notificationService: NotificationService,
+  notification: NotificationInput | OneOffNotificationInput,
+  guardInput: NotificationGuardInput,
+  idempotencyKey: string,
+): Promise<Created> {
+  const existing = await prisma.notification.findUnique({
+    where: { idempotencyKey },
+    select: { id: true },
+  });
+  if (existing) {
+    logger.info('Notification already created with this idempotency key', {
+      notificationId: existing.id,
+    });
+    return (await notificationService.getNotification(existing.id)) as Created;
+  }
+
+  // Checked before persisting, so the daily cap doesn't count this notification
+  const blockedReason = await getBlockedReason(guardInput);
+
+  const [notificationId] = await notificationService.bulkPersistNotifications([notification]);
+  const winnerId = await claimIdempotencyKey(notificationId, idempotencyKey);
+  if (winnerId !== null) {
+    await prisma.notification.delete({ where: { id: notificationId } });
+    return (await notificationService.getNotification(winnerId)) as Created;
+  }
+
+  if (blockedReason) {
+    await prisma.notification.update({
+      where: { id: notificationId },
+      data: { status: 'CANCELLED', cancellationReason: blockedReason },
+    });
+    logger.info('Notification cancelled before sending', {
+      notificationId,
+      reason: blockedReason,
+    });
+  }
+
+  const created = (await notificationService.getNotification(notificationId)) as Created;
+  if (!blockedReason && (!created.sendAfter || created.sendAfter <= new Date())) {
+    await notificationService.send(created);
+  }
+  return created;
+}
+
+/**
+ * Adds the optional `idempotencyKey` to `createNotification` and `createOneOffNotification`.
+ * Without a key they behave as before.
+ */
+export function withIdempotencyKeys(
+  notificationService: NotificationService,
+): IdempotentNotificationService {
+  const createNotification = notificationService.createNotification.bind(notificationService);
+  const createOneOffNotification =
+    notificationService.createOneOffNotification.bind(notificationService);
+
+  notificationService.createNotification = async (
+    notification: NotificationInput & IdempotencyKeyOption,
+  ) => {
+    if (!notification.idempotencyKey) {
+      return createNotification(notification);
+    }
+
+    return createOnce<DatabaseNotification<NotificationTypeConfig>>(
+      notificationService,
+      notification,
+      {
+        userId: notification.userId,
+        emailOrPhone: null,
+        notificationType: notification.notificationType,
+        contextName: notification.contextName as string,
+      },
+      notification.idempotencyKey,
+    );
+  };
+
+  notificationService.createOneOffNotification = async (
+    notification: OneOffNotificationInput & IdempotencyKeyOption,
+  ) => {
+    if (!notification.idempotencyKey) {
+      return createOneOffNotification(notification);
+    }
+
+    return createOnce<DatabaseOneOffNotification<NotificationTypeConfig>>(
+      notificationService,
+      notification,
+      {
+        userId: null,
+        emailOrPhone: notification.emailOrPhone,
+        notificationType: notification.notificationType,
+        contextName: notification.contextName as string,
+      },
+      notification.idempotencyKey,
+    );
+  };
+
+  return notificationService as IdempotentNotificationService;
+}
@@ -0,0 +1,105 @@
+import type { NotificationType, Prisma } from '@prisma/client';
+import { NOTIFICATIONS_QUEUE } from '../../workers/notifications/constants';
+import { logger } from '../logger';
+import { prisma } from '../prisma';
+import { getTemporalClient } from '../temporal';
+import { getBlockedReason } from './notification-guards';
+import type { NotificationTypeConfig } from './notifications';
+import { TemporalQueueService } from './temporal-queue-service';
+
+export type OutboxNotification = {
+  userId: number;
+  notificationType: NotificationType;
+  title: string;
+  contextName: keyof NotificationTypeConfig['ContextMap'];
+  contextParameters: Prisma.InputJsonObject;
+  sendAfter: Date | null;
+  bodyTemplate: string;
+  subjectTemplate: string | null;
+  idempotencyKey?: string;
+};
+
+/**
+ * Writes a PENDING_SEND notification with the transaction client, so it is only stored if the
+ * records it is about are. Returns its id, to hand to `relayOutboxNotifications` once the
+ * transaction commits.
+ *
+ * The notification guards run in `relayOutboxNotifications`, once the transaction commits.
+ */
+export async function addToOutbox(
+  tx: Prisma.TransactionClient,
+  notification: OutboxNotification,
+): Promise<number> {
+  const { id } = await tx.notification.create({
+    data: { ...notification, status: 'PENDING_SEND', extraParams: {} },
+    select: { id: true },
+  });
+  return id;
+}
+
+/**
+ * Runs the notification guards on a stored outbox notification and cancels it, like
+ * `withNotificationGuards` does, when it is blocked. Returns whether it was cancelled.
+ */
+async function cancelIfBlocked(notificationId: number): Promise<boolean> {
+  const notification = await prisma.notification.findUniqueOrThrow({
+    where: { id: notificationId },
+    select: { userId: true, emailOrPhone: true, notificationType: true, contextName: true },
+  });
+  const reason = await getBlockedReason({ ...notification, notificationId });
+  if (!reason) {
+    return false;
+  }
+
+  await prisma.notification.update({
+    where: { id: notificationId },
+    data: { status: 'CANCELLED', cancellationReason: reason },
+  });
+  logger.info('Notification cancelled before sending', { notificationId, reason });
+  return true;
+}
+
+/**
+ * Cancels the outbox notifications the notification guards block and starts the send workflow
+ * of the others. Without Temporal the notifications stay PENDING_SEND and the pending
+ * notifications sweep sends them once they are due, so this never fails the request that
+ * wrote them.
+ */
+export async function relayOutboxNotifications(notificationIds: number[]): Promise<void> {
+  const allowedIds: number[] = [];
+  for (const notificationId of notificationIds) {
+    try {
+      if (!(await cancelIfBlocked(notificationId))) {
+        allowedIds.push(notificationId);
+      }
+    } catch (error) {
+      logger.warn('Could not run the notification guards on outbox notification.', {
+        notificationId,
+        error: String(error),
+      });
+      allowedIds.push(notificationId);
+    }
+  }
+
+  let queueService: TemporalQueueService;
+  try {
+    queueService = new TemporalQueueService(await getTemporalClient(), NOTIFICATIONS_QUEUE);
+  } catch (error) {
+    logger.warn('Temporal is unavailable. Leaving outbox notifications to the pending sweep.', {
+      notificationIds: allowedIds,
+      error: String(error),
+    });
+    return;
+  }
+
+  for (const notificationId of allowedIds) {
+    try {
+      await queueService.enqueueNotification(notificationId);
+    } catch (error) {
+      logger.warn('Could not enqueue outbox notification. Leaving it to the pending sweep.', {
+        notificationId,
+        error: String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import type { NotificationType } from '@prisma/client';
+import { type Locale, resolveLocale } from '../i18n';
+import { prisma } from '../prisma';
+
+type NotificationPreferenceSetting = {
+  label: string;
+  description: string;
+  // Transactional notifications (password resets, verification links) can't be muted
+  optional: boolean;
+  notificationTypes: NotificationType[];
+};
+
+/**
+ * Contexts shown on the notification settings page. Contexts missing from this map are
+ * treated as transactional and are always sent.
+ */
+export const notificationPreferenceSettings: Record<string, NotificationPreferenceSetting> = {
+  forgotPassword: {
+    label: 'Password reset',
+    description: 'Links to reset your password when you request one.',
+    optional: false,
+    notificationTypes: ['EMAIL'],
+  },
+  emailVerification: {
+    label: 'Email verification',
+    description: 'Links to confirm your email address.',
+    optional: false,
+    notificationTypes: ['EMAIL'],
+  },
+  passwordChanged: {
+    label: 'Password changes',
+    description: 'A heads-up whenever your password is changed.',
+    optional: false,
+    notificationTypes: ['EMAIL'],
+  },
+  newLogin: {
+    label: 'New logins',
+    description: 'Alerts about logins from devices or networks we have not seen before.',
+    optional: false,
+    notificationTypes: ['EMAIL'],
+  },
+  emailVerified: {
+    label: 'Email verified',
+    description: 'Confirmation that your email address was verified.',
+    optional: false,
+    notificationTypes: ['EMAIL'],
+  },
+  magicLink: {
+    label: 'Login links',
+    description: 'The passwordless login links you ask for.',
+    optional: false,
+    notificationTypes: ['EMAIL'],
+  },
+  firstDay: {
+    label: 'Onboarding',
+    description: 'Tips and welcome messages while you get started.',
+    optional: true,
+    notificationTypes: ['EMAIL', 'IN_APP'],
+  },
+};
+
+// Contexts sent to prospects that didn't ask for them, which unsubscribing stops
+export const marketingContextNames = ['welcomeProspect'];
+
+export type NotificationPreferenceItem = {
+  contextName: string;
+  notificationType: NotificationType;
+  label: string;
+  description: string;
+  optional: boolean;
+  enabled: boolean;
+};
+
+export function isOptionalNotification(
+  contextName: string,
+  notificationType: NotificationType,
+): boolean {
+  const setting = notificationPreferenceSettings[contextName];
+  return !!setting?.optional && setting.notificationTypes.includes(notificationType);
+}
+
+export async function isNotificationEnabled(
+  userId: number,
+  contextName: string,
+  notificationType: NotificationType,
+): Promise<boolean> {
+  if (!isOptionalNotification(contextName, notificationType)) {
+    return true;
+  }
+
+  const preference = await prisma.notificationPreference.findUnique({
+    where: { userId_contextName_notificationType: { userId, contextName, notificationType } },
+  });
+
+  return preference?.enabled ?? true;
+}
+
+export async function getNotificationPreferences(
+  userId: number,
+): Promise<NotificationPreferenceItem[]> {
+  const preferences = await prisma.notificationPreference.findMany({ where: { userId } });
+
+  return Object.entries(notificationPreferenceSettings).flatMap(([contextName, setting]) =>
+    setting.notificationTypes.map((notificationType) => {
+      const preference = preferences.find(
+        (p) => p.contextName === contextName && p.notificationType === notificationType,
+      );
+
+      return {
+        contextName,
+        notificationType,
+        label: setting.label,
+        description: setting.description,
+        optional: setting.optional,
+        enabled: !setting.optional || (preference?.enabled ?? true),
+      };
+    }),
+  );
+}
+
+export async function updateNotificationPreference(
+  userId: number,
+  contextName: string,
+  notificationType: NotificationType,
+  enabled: boolean,
+) {
+  return prisma.notificationPreference.upsert({
+    where: { userId_contextName_notificationType: { userId, contextName, notificationType } },
+    create: { userId, contextName, notificationType, enabled },
+    update: { enabled },
+  });
+}
+
+export async function getNotificationLocale(userId: number): Promise<Locale> {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { locale: true },
+  });
+  return resolveLocale(user.locale);
+}
+
+export async function updateNotificationLocale(userId: number, locale: Locale) {
+  return prisma.user.update({ where: { id: userId }, data: { locale } });
+}
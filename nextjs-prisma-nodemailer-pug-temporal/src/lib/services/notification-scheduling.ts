@@ -0,0 +1,93 @@
+import { type WorkflowHandle, WorkflowNotFoundError } from '@temporalio/client';
+import { NOTIFICATIONS_QUEUE } from '../../workers/notifications/constants';
+import { cancelSignal, rescheduleSignal } from '../../workers/notifications/signals';
+import { logger } from '../logger';
+import { prisma } from '../prisma';
+import { getTemporalClient } from '../temporal';
+import { getNotificationWorkflowId, TemporalQueueService } from './temporal-queue-service';
+
+/**
+ * `not_pending` means the notification was already sent, failed or cancelled.
+ */
+export type NotificationScheduleChangeResult = 'ok' | 'not_found' | 'not_pending';
+
+async function getChangeFailureReason(
+  notificationId: number,
+): Promise<NotificationScheduleChangeResult> {
+  const notification = await prisma.notification.findUnique({ where: { id: notificationId } });
+  return notification ? 'not_pending' : 'not_found';
+}
+
+/**
+ * Runs `signal` against the notification's send workflow. Returns false when there is no
+ * workflow running, e.g. notifications created before scheduled sends were enqueued.
+ *
+ * Other errors are only logged, since the row is already updated: the workflow reads it again
+ * when its timer fires, and the pending notifications sweep sends the ones without a workflow.
+ */
+async function signalSendWorkflow(
+  notificationId: number,
+  signal: (handle: WorkflowHandle) => Promise<void>,
+): Promise<boolean> {
+  try {
+    const client = await getTemporalClient();
+    await signal(client.workflow.getHandle(await getNotificationWorkflowId(notificationId)));
+    return true;
+  } catch (error) {
+    if (error instanceof WorkflowNotFoundError) {
+      return false;
+    }
+    logger.warn('Could not signal the send workflow', { notificationId, error: String(error) });
+    return true;
+  }
+}
+
+/**
+ * Cancels a pending notification, then signals its workflow so it stops waiting. The row is
+ * updated first, outside any transaction: the Temporal call mustn't hold the row lock, and a
+ * workflow that misses the signal still skips the notification, since the send activity only
+ * sends PENDING_SEND notifications.
+ */
+export async function cancelPendingNotification(
+  notificationId: number,
+  reason = 'Cancelled by an admin',
+): Promise<NotificationScheduleChangeResult> {
+  const { count } = await prisma.notification.updateMany({
+    where: { id: notificationId, status: 'PENDING_SEND' },
+    data: { status: 'CANCELLED', cancellationReason: reason },
+  });
+  if (count === 0) {
+    return getChangeFailureReason(notificationId);
+  }
+
+  await signalSendWorkflow(notificationId, (handle) => handle.signal(cancelSignal));
+  return 'ok';
+}
+
+/**
+ * Moves the send time of a pending notification, then signals its workflow. A workflow that
+ * misses the signal reads the new `sendAfter` when its timer fires. Starts a send workflow when
+ * there is none waiting.
+ */
+export async function reschedulePendingNotification(
+  notificationId: number,
+  sendAfter: Date,
+): Promise<NotificationScheduleChangeResult> {
+  const { count } = await prisma.notification.updateMany({
+    where: { id: notificationId, status: 'PENDING_SEND' },
+    data: { sendAfter },
+  });
+  if (count === 0) {
+    return getChangeFailureReason(notificationId);
+  }
+
+  const signalled = await signalSendWorkflow(notificationId, (handle) =>
+    handle.signal(rescheduleSignal, sendAfter.toISOString()),
+  );
+  // The new workflow reads sendAfter from the database
+  if (!signalled) {
+    const queueService = new TemporalQueueService(await getTemporalClient(), NOTIFICATIONS_QUEUE);
+    await queueService.enqueueNotification(notificationId);
+  }
+  return 'ok';
+}
@@ -1,23 +1,75 @@
+import type { NotificationType } from '@prisma/client';
 import { NOTIFICATIONS_QUEUE } from '../../workers/notifications/constants';
 import { logger } from '../logger';
 import { getTemporalClient } from '../temporal';
-import { getNotificationService } from './notifications';
+import {
+  getNotificationService,
+  type NotificationService,
+  QUEUED_NOTIFICATION_TYPES,
+} from './notifications';
 import { TemporalQueueService } from './temporal-queue-service';
 
+function isScheduledForLater(notification: {
+  status: string;
+  sendAfter: Date | null;
+  notificationType: NotificationType;
+}) {
+  return (
+    QUEUED_NOTIFICATION_TYPES.includes(notification.notificationType) &&
+    notification.status === 'PENDING_SEND' &&
+    !!notification.sendAfter &&
+    notification.sendAfter > new Date()
+  );
+}
+
+/**
+ * VintaSend only enqueues notifications that are due, and leaves the ones with a future
+ * `sendAfter` in the database. Enqueue those too, so their workflow waits for `sendAfter`
+ * with a durable timer instead of depending on the pending notifications sweep. Types without
+ * a queueing adapter are left to the sweep, since their workflow could not send them.
+ */
+function withScheduledNotificationsEnqueued(
+  notificationService: NotificationService,
+  queueService: TemporalQueueService,
+) {
+  const createNotification = notificationService.createNotification.bind(notificationService);
+  const createOneOffNotification =
+    notificationService.createOneOffNotification.bind(notificationService);
+
+  notificationService.createNotification = async (notification) => {
+    const createdNotification = await createNotification(notification);
+    if (isScheduledForLater(createdNotification)) {
+      await queueService.enqueueNotification(createdNotification.id);
+    }
+    return createdNotification;
+  };
+
+  notificationService.createOneOffNotification = async (notification) => {
+    const createdNotification = await createOneOffNotification(notification);
+    if (isScheduledForLater(createdNotification)) {
+      await queueService.enqueueNotification(createdNotification.id);
+    }
+    return createdNotification;
+  };
+
+  return notificationService;
+}
+
 export async function getNotificationServiceWithQueue() {
   const notificationService = getNotificationService();
 
   try {
     const temporalClient = await getTemporalClient();
+    const queueService = new TemporalQueueService(temporalClient, NOTIFICATIONS_QUEUE);
 
-    notificationService.registerQueueService(
-      new TemporalQueueService(temporalClient, NOTIFICATIONS_QUEUE),
-    );
+    notificationService.registerQueueService(queueService);
+    withScheduledNotificationsEnqueued(notificationService, queueService);
   } catch (error) {
+    // Degraded mode: notifications stay PENDING_SEND and the pending notifications sweep sends
+    // them once Temporal is back
     logger.warn('Temporal is unavailable. Continuing without queue service.', {
       error: String(error),
     });
-    throw error;
   }
 
   return notificationService;
@@ -1,41 +1,57 @@
-import { PrismaClient } from '@prisma/client';
-import type { Notification, User } from '@prisma/client';
+import type { Notification, NotificationType, User } from '@prisma/client';
 import type SMTPTransport from 'nodemailer/lib/smtp-transport/index.js';
 import { VintaSendFactory } from 'vintasend';
-import { NodemailerNotificationAdapterFactory } from 'vintasend-nodemailer';
 import { PrismaNotificationBackendFactory } from 'vintasend-prisma';
-import { PugEmailTemplateRendererFactory } from 'vintasend-pug';
 import { WinstonLogger } from 'vintasend-winston';
 import { createAttachmentManager } from '../notification-attachments';
 import { ForgotPasswordContextGenerator } from '../../app/api/auth/forgot-password/forgot-password-notification-context';
+import { NewLoginNotificationContextGenerator } from '../../app/api/auth/login/new-login-notification-context';
+import { MagicLinkNotificationContextGenerator } from '../../app/api/auth/magic-link/magic-link-notification-context';
+import { PasswordChangedNotificationContextGenerator } from '../../app/api/auth/reset-password/password-changed-notification-context';
 import { EmailVerificationNotificationContextGenerator } from '../../app/api/auth/signup/email-verification-notification-context';
 import { FirstDayotificationContextGenerator } from '../../app/api/auth/signup/first-day-notification-context';
+import { EmailVerifiedNotificationContextGenerator } from '../../app/api/auth/verify-email/email-verified-notification-context';
+import { PushTestContextGenerator } from '../context-generators/push-test-context';
 import { WelcomeProspectContextGenerator } from '../context-generators/welcome-prospect-context';
+import { WelcomeProspectSmsContextGenerator } from '../context-generators/welcome-prospect-sms-context';
 import { loggerOptions } from '../logger';
-import { PrismaPg } from '@prisma/adapter-pg';
+import { InAppNotificationAdapterFactory } from '../notification-adapters/in-app-notification-adapter';
+import { ListUnsubscribeNodemailerNotificationAdapterFactory } from '../notification-adapters/list-unsubscribe-nodemailer-adapter';
+import { withSendErrorTracking } from '../notification-adapters/send-error-tracking';
+import { SmsNotificationAdapterFactory } from '../notification-adapters/sms-notification-adapter';
+import { WebPushNotificationAdapterFactory } from '../notification-adapters/web-push-notification-adapter';
+import { prisma } from '../prisma';
+import { createSmsProvider } from '../sms-providers';
+import { DatabaseEmailTemplateRendererFactory } from '../template-renderers/database-email-template-renderer';
+import { PugTextTemplateRendererFactory } from '../template-renderers/pug-text-template-renderer';
+import { withNotificationGuards } from './notification-guards';
+import { withIdempotencyKeys } from './notification-idempotency';
 
 export const contextGeneratorsMap = {
   forgotPassword: new ForgotPasswordContextGenerator(),
   emailVerification: new EmailVerificationNotificationContextGenerator(),
   firstDay: new FirstDayotificationContextGenerator(),
+  passwordChanged: new PasswordChangedNotificationContextGenerator(),
+  newLogin: new NewLoginNotificationContextGenerator(),
+  emailVerified: new EmailVerifiedNotificationContextGenerator(),
+  magicLink: new MagicLinkNotificationContextGenerator(),
   welcomeProspect: new WelcomeProspectContextGenerator(),
+  welcomeProspectSms: new WelcomeProspectSmsContextGenerator(),
+  pushTest: new PushTestContextGenerator(),
 } as const;
 
+// Channels whose adapter enqueues notifications, which the worker then sends with `delayedSend`.
+// In-app notifications are delivered when they are created, so they never go through the queue,
+// and the worker sends outbox ones with `send`.
+export const QUEUED_NOTIFICATION_TYPES: NotificationType[] = ['EMAIL', 'SMS', 'PUSH'];
+
 export type NotificationTypeConfig = {
   ContextMap: typeof contextGeneratorsMap;
   NotificationIdType: Notification['id'];
   UserIdType: User['id'];
 };
 
-// Create a singleton PrismaClient instance
-const globalForPrisma = global as unknown as { prisma: PrismaClient };
-const adapter = new PrismaPg({
-  connectionString: process.env.DATABASE_URL!,
-});
-const prisma = globalForPrisma.prisma || new PrismaClient({ adapter });
-if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma;
-
-export function getNotificationService() {
+function createNotificationService(notificationType?: NotificationType) {
   // Create the attachment manager (optional, can be undefined if S3 not configured)
   const attachmentManager = process.env.S3_BUCKET_NAME
     ? createAttachmentManager()
@@ -45,11 +61,13 @@ export function getNotificationService() {
     prisma,
     attachmentManager,
   );
+  // Published `EmailTemplate` versions first, then the template files
   const pugEmailTemplateRenderer =
-    new PugEmailTemplateRendererFactory<NotificationTypeConfig>().create({});
+    new DatabaseEmailTemplateRendererFactory<NotificationTypeConfig>().create({});
   const SMPT_PORT = process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT, 10) : 1025;
+  // Regular Nodemailer adapter, plus List-Unsubscribe headers for marketing emails
   const nodemailerNotificationAdapter =
-    new NodemailerNotificationAdapterFactory<NotificationTypeConfig>().create(
+    new ListUnsubscribeNodemailerNotificationAdapterFactory<NotificationTypeConfig>().create(
       pugEmailTemplateRenderer,
       true,
       {
@@ -61,12 +79,42 @@ export function getNotificationService() {
           pass: process.env.SMTP_PASSWORD,
         },
       } as SMTPTransport.Options,
+      // SMTP relays reject mail without a From header
+      process.env.EMAIL_FROM || process.env.CONTACT_EMAIL || 'hello@example.com',
     );
+  const inAppNotificationAdapter =
+    new InAppNotificationAdapterFactory<NotificationTypeConfig>().create(pugEmailTemplateRenderer);
+  const smsNotificationAdapter = new SmsNotificationAdapterFactory<NotificationTypeConfig>().create(
+    new PugTextTemplateRendererFactory<NotificationTypeConfig>().create({}),
+    true,
+    createSmsProvider(),
+  );
+  const webPushNotificationAdapter = new WebPushNotificationAdapterFactory().create(
+    pugEmailTemplateRenderer,
+    true,
+  );
+  const adapters = [
+    nodemailerNotificationAdapter,
+    inAppNotificationAdapter,
+    smsNotificationAdapter,
+    webPushNotificationAdapter,
+  ].filter((adapter) => !notificationType || adapter.notificationType === notificationType);
   return new VintaSendFactory<NotificationTypeConfig>().create({
-    adapters: [nodemailerNotificationAdapter],
+    adapters: adapters.map(withSendErrorTracking),
     backend: notificationBackend,
     logger: new WinstonLogger(loggerOptions),
     contextGeneratorsMap,
     attachmentManager,
   });
 }
+
+export type NotificationService = ReturnType<typeof createNotificationService>;
+
+/**
+ * `notificationType` limits the service to that channel's adapter. `delayedSend` runs every
+ * adapter that enqueues notifications, so queued sends must only register the one they need.
+ */
+export function getNotificationService(notificationType?: NotificationType) {
+  // Opted-out notifications are stored as CANCELLED instead of being sent
+  return withIdempotencyKeys(withNotificationGuards(createNotificationService(notificationType)));
+}
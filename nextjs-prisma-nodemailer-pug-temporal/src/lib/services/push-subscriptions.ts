@@ -0,0 +1,44 @@
+import { prisma } from '../prisma';
+import type { PushSubscriptionValues } from '../schemas/push-subscriptions';
+
+/**
+ * Stores the browser subscription for the user. A browser keeps its endpoint across logins,
+ * so an existing endpoint is moved to whoever subscribed last.
+ */
+export async function savePushSubscription(
+  userId: number,
+  subscription: PushSubscriptionValues,
+  userAgent: string | null,
+) {
+  const data = {
+    userId,
+    p256dh: subscription.keys.p256dh,
+    auth: subscription.keys.auth,
+    userAgent,
+  };
+
+  await prisma.pushSubscription.upsert({
+    where: { endpoint: subscription.endpoint },
+    create: { endpoint: subscription.endpoint, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Returns false when the user has no subscription with that endpoint.
+ */
+export async function deletePushSubscription(userId: number, endpoint: string): Promise<boolean> {
+  const { count } = await prisma.pushSubscription.deleteMany({ where: { userId, endpoint } });
+  return count > 0;
+}
+
+export async function getUserPushSubscriptions(userId: number) {
+  return prisma.pushSubscription.findMany({
+    where: { userId },
+    select: { endpoint: true, p256dh: true, auth: true },
+  });
+}
+
+export async function pruneExpiredPushSubscription(endpoint: string) {
+  await prisma.pushSubscription.deleteMany({ where: { endpoint } });
+}
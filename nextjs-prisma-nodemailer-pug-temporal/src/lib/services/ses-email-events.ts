@@ -0,0 +1,171 @@
+import { createVerify } from 'node:crypto';
+import * as z from 'zod';
+import { logger } from '../logger';
+import { suppressEmail } from './email-suppressions';
+
+/**
+ * SNS envelope posted to HTTP(S) subscriptions. The SES event itself is the JSON string in
+ * `Message`.
+ * See https://docs.aws.amazon.com/sns/latest/dg/sns-message-and-json-formats.html
+ */
+const snsSignedFieldsSchema = z.object({
+  MessageId: z.string(),
+  TopicArn: z.string(),
+  Message: z.string(),
+  Timestamp: z.string(),
+  SignatureVersion: z.enum(['1', '2']),
+  Signature: z.string(),
+  SigningCertURL: z.string().url(),
+});
+
+export const snsMessageSchema = z.discriminatedUnion('Type', [
+  snsSignedFieldsSchema.extend({
+    Type: z.literal('SubscriptionConfirmation'),
+    SubscribeURL: z.string().url(),
+    Token: z.string(),
+  }),
+  snsSignedFieldsSchema.extend({
+    Type: z.literal('Notification'),
+    Subject: z.string().optional(),
+  }),
+]);
+
+export type SnsMessage = z.infer<typeof snsMessageSchema>;
+
+const SNS_HOSTNAME = /^sns\.[a-z0-9-]+\.amazonaws\.com$/;
+
+function isSnsUrl(url: string): boolean {
+  const { hostname, protocol } = new URL(url);
+  return protocol === 'https:' && SNS_HOSTNAME.test(hostname);
+}
+
+// Signing certificates by URL, SNS rotates them rarely
+const signingCertificates = new Map<string, string>();
+
+async function getSigningCertificate(url: string): Promise<string> {
+  const cached = signingCertificates.get(url);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Fetching the SNS signing certificate failed with status ${response.status}`);
+  }
+  const certificate = await response.text();
+  signingCertificates.set(url, certificate);
+  return certificate;
+}
+
+/**
+ * The fields SNS signs, in order, as `name\nvalue\n` lines.
+ * See https://docs.aws.amazon.com/sns/latest/dg/sns-verify-signature-of-message.html
+ */
+function getStringToSign(message: SnsMessage): string {
+  const fields =
+    message.Type === 'Notification'
+      ? (['Message', 'MessageId', 'Subject', 'Timestamp', 'TopicArn', 'Type'] as const)
+      : ([
+          'Message',
+          'MessageId',
+          'SubscribeURL',
+          'Timestamp',
+          'Token',
+          'TopicArn',
+          'Type',
+        ] as const);
+
+  return fields
+    .map((field) => [field, (message as Record<string, string | undefined>)[field]] as const)
+    .filter(([, value]) => value !== undefined)
+    .map(([field, value]) => `${field}\n${value}\n`)
+    .join('');
+}
+
+/**
+ * Whether the message was signed by SNS, with a certificate served by SNS itself.
+ */
+export async function verifySnsSignature(message: SnsMessage): Promise<boolean> {
+  if (!isSnsUrl(message.SigningCertURL) || !message.SigningCertURL.endsWith('.pem')) {
+    return false;
+  }
+
+  const certificate = await getSigningCertificate(message.SigningCertURL);
+  return createVerify(message.SignatureVersion === '1' ? 'RSA-SHA1' : 'RSA-SHA256')
+    .update(getStringToSign(message))
+    .verify(certificate, message.Signature, 'base64');
+}
+
+// SES feedback notifications use `notificationType`, SES event publishing uses `eventType`
+const sesBounceSchema = z.object({
+  notificationType: z.literal('Bounce').optional(),
+  eventType: z.literal('Bounce').optional(),
+  bounce: z.object({
+    bounceType: z.enum(['Permanent', 'Transient', 'Undetermined']),
+    bounceSubType: z.string().optional(),
+    bouncedRecipients: z.array(
+      z.object({ emailAddress: z.string(), diagnosticCode: z.string().optional() }),
+    ),
+  }),
+});
+
+const sesComplaintSchema = z.object({
+  notificationType: z.literal('Complaint').optional(),
+  eventType: z.literal('Complaint').optional(),
+  complaint: z.object({
+    complaintFeedbackType: z.string().optional(),
+    complainedRecipients: z.array(z.object({ emailAddress: z.string() })),
+  }),
+});
+
+/**
+ * Suppresses the recipients of a SES bounce or complaint event and returns their addresses.
+ * Transient bounces (full mailbox, throttling) are ignored since they may succeed later.
+ */
+export async function handleSesEvent(message: string): Promise<string[]> {
+  const event = JSON.parse(message);
+
+  const bounce = sesBounceSchema.safeParse(event);
+  if (bounce.success) {
+    const { bounceType, bounceSubType, bouncedRecipients } = bounce.data.bounce;
+    if (bounceType !== 'Permanent') {
+      logger.info('Ignoring non-permanent SES bounce', { bounceType, bounceSubType });
+      return [];
+    }
+
+    for (const recipient of bouncedRecipients) {
+      await suppressEmail(
+        recipient.emailAddress,
+        'HARD_BOUNCE',
+        recipient.diagnosticCode ?? bounceSubType ?? null,
+      );
+    }
+    return bouncedRecipients.map((recipient) => recipient.emailAddress);
+  }
+
+  const complaint = sesComplaintSchema.safeParse(event);
+  if (complaint.success) {
+    const { complaintFeedbackType, complainedRecipients } = complaint.data.complaint;
+    for (const recipient of complainedRecipients) {
+      await suppressEmail(recipient.emailAddress, 'COMPLAINT', complaintFeedbackType ?? null);
+    }
+    return complainedRecipients.map((recipient) => recipient.emailAddress);
+  }
+
+  logger.info('Ignoring unsupported SES event', {
+    type: event?.notificationType ?? event?.eventType,
+  });
+  return [];
+}
+
+export async function confirmSnsSubscription(subscribeUrl: string) {
+  // Only follow confirmation links that point to SNS itself
+  if (!isSnsUrl(subscribeUrl)) {
+    throw new Error(`Refusing to confirm SNS subscription at ${new URL(subscribeUrl).hostname}`);
+  }
+
+  const response = await fetch(subscribeUrl);
+  if (!response.ok) {
+    throw new Error(`SNS subscription confirmation failed with status ${response.status}`);
+  }
+}
@@ -0,0 +1,189 @@
+import { createHash, randomBytes } from 'node:crypto';
+import type { NextRequest } from 'next/server';
+import { prisma } from '../prisma';
+import { generateToken, verifyToken } from './auth';
+
+export const ACCESS_TOKEN_COOKIE = 'session';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export type SessionTokenPayload = { userId: number; sessionId: number };
+
+export type SessionTokens = {
+  accessToken: string;
+  // Null when another request already rotated the refresh token and set the new one
+  refreshToken: string | null;
+};
+
+// How long a rotated refresh token still gets access tokens, for requests sent at the same
+// time with the same cookie, like a page and its prefetches
+const REFRESH_TOKEN_GRACE_MS = 30 * 1000;
+
+function hashRefreshToken(refreshToken: string): string {
+  return createHash('sha256').update(refreshToken).digest('hex');
+}
+
+function refreshTokenExpiresAt(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000);
+}
+
+function generateAccessToken(userId: number, sessionId: number): string {
+  const payload: SessionTokenPayload = { userId, sessionId };
+  return generateToken(payload, `${ACCESS_TOKEN_TTL_SECONDS}s`);
+}
+
+/**
+ * Starts a session: the refresh token is stored (hashed) as a `REFRESH` token, and its id
+ * goes into the short-lived access token so deleting the row revokes both.
+ */
+export async function createSession(userId: number): Promise<SessionTokens> {
+  const refreshToken = randomBytes(32).toString('base64url');
+  const session = await prisma.token.create({
+    data: {
+      userId,
+      type: 'REFRESH',
+      token: hashRefreshToken(refreshToken),
+      expiresAt: refreshTokenExpiresAt(),
+    },
+  });
+
+  return { accessToken: generateAccessToken(userId, session.id), refreshToken };
+}
+
+/**
+ * Swaps a refresh token for a new pair, so each refresh token works only once. Returns null
+ * when the token is unknown, already used or expired.
+ *
+ * Requests that lose a rotation race, or reuse the token within REFRESH_TOKEN_GRACE_MS of its
+ * rotation, only get a new access token: their `refreshToken` is null, so they leave the
+ * refresh cookie set by the request that rotated it alone.
+ */
+export async function rotateSession(refreshToken: string): Promise<SessionTokens | null> {
+  const tokenHash = hashRefreshToken(refreshToken);
+  const session = await prisma.token.findFirst({
+    where: { token: tokenHash, type: 'REFRESH', expiresAt: { gt: new Date() } },
+  });
+
+  if (session) {
+    const newRefreshToken = randomBytes(32).toString('base64url');
+    // Matching on the old hash makes concurrent rotations of the same token fail instead of
+    // both succeeding
+    const { count } = await prisma.token.updateMany({
+      where: { id: session.id, token: session.token },
+      data: {
+        token: hashRefreshToken(newRefreshToken),
+        previousToken: session.token,
+        rotatedAt: new Date(),
+        expiresAt: refreshTokenExpiresAt(),
+      },
+    });
+    if (count > 0) {
+      return {
+        accessToken: generateAccessToken(session.userId, session.id),
+        refreshToken: newRefreshToken,
+      };
+    }
+  }
+
+  const rotatedSession = await prisma.token.findFirst({
+    where: {
+      previousToken: tokenHash,
+      type: 'REFRESH',
+      rotatedAt: { gt: new Date(Date.now() - REFRESH_TOKEN_GRACE_MS) },
+      expiresAt: { gt: new Date() },
+    },
+  });
+  if (!rotatedSession) {
+    return null;
+  }
+  return {
+    accessToken: generateAccessToken(rotatedSession.userId, rotatedSession.id),
+    refreshToken: null,
+  };
+}
+
+export async function revokeSession(refreshToken: string): Promise<void> {
+  await prisma.token.deleteMany({
+    where: { token: hashRefreshToken(refreshToken), type: 'REFRESH' },
+  });
+}
+
+// Logs the user out everywhere, e.g. after a password change
+export async function revokeAllSessions(userId: number): Promise<void> {
+  await prisma.token.deleteMany({ where: { userId, type: 'REFRESH' } });
+}
+
+/**
+ * Reads the access token from the session cookie, or from an `Authorization: Bearer` header
+ * for clients that are not browsers. It only says who the token was issued to; use
+ * `getAuthenticatedUser` to also check the session was not revoked.
+ */
+export function getSessionFromRequest(req: NextRequest): SessionTokenPayload | null {
+  const authorization = req.headers.get('authorization');
+  const token = authorization?.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length)
+    : req.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const { userId, sessionId } = verifyToken<Partial<SessionTokenPayload>>(token);
+    // Email verification and password reset tokens are signed with the same secret
+    if (!userId || !sessionId) {
+      return null;
+    }
+    return { userId: Number(userId), sessionId: Number(sessionId) };
+  } catch (_error) {
+    return null;
+  }
+}
+
+export type AuthenticatedUser = {
+  id: number;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  roles: string[];
+  // Granted directly or through one of the roles
+  permissions: string[];
+};
+
+/**
+ * Verifies the request's access token and loads the user it belongs to with their roles and
+ * permissions. Returns null when the token is missing or invalid, the session was revoked or
+ * the user no longer exists.
+ */
+export async function getAuthenticatedUser(req: NextRequest): Promise<AuthenticatedUser | null> {
+  const session = getSessionFromRequest(req);
+  if (!session) {
+    return null;
+  }
+
+  const user = await prisma.user.findFirst({
+    where: {
+      id: session.userId,
+      tokens: {
+        some: { id: session.sessionId, type: 'REFRESH', expiresAt: { gt: new Date() } },
+      },
+    },
+    include: { permissions: true, roles: { include: { permissions: true } } },
+  });
+  if (!user) {
+    return null;
+  }
+
+  const permissions = new Set([
+    ...user.permissions.map(({ name }) => name),
+    ...user.roles.flatMap((role) => role.permissions.map(({ name }) => name)),
+  ]);
+  return {
+    id: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    roles: user.roles.map(({ name }) => name),
+    permissions: [...permissions],
+  };
+}
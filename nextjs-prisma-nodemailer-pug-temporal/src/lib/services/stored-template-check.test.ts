@@ -0,0 +1,78 @@
+import { readdir, readFile } from 'node:fs/promises';
+import pug from 'pug';
+import { describe, expect, it } from 'vitest';
+import { getStoredTemplateOptions } from './stored-template-check';
+
+const FILENAME = 'src/email-templates/auth/verify-email/verify-email-body.html.pug';
+
+function compileStoredTemplate(source: string, filename = FILENAME) {
+  return pug.compile(source, getStoredTemplateOptions({}, filename));
+}
+
+// Layouts and partials are only included, they aren't edited in the admin
+const templateFiles = (await readdir('src/email-templates', { recursive: true }))
+  .filter((file) => file.endsWith('.pug') && !/^(layouts|partials)\//.test(file))
+  .sort();
+
+describe('getStoredTemplateOptions', () => {
+  it.each(templateFiles)('allows the %s file', async (file) => {
+    const filename = `src/email-templates/${file}`;
+    const source = await readFile(filename, 'utf8');
+
+    expect(() => compileStoredTemplate(source, filename)).not.toThrow();
+  });
+
+  it('renders context values, literals and translations', () => {
+    const template = compileStoredTemplate(
+      [
+        'p= t("verifyEmail.greeting", { name: firstName })',
+        // biome-ignore lint/suspicious/noTemplateCurlyInString: a Pug template literal
+        'p #{theme.primaryColor} #{`${firstName} ${lastName}`} #{42}',
+        'a(href=verificationLink title="Verify")',
+        'mixin card(title)',
+        '  h2= title',
+        '+card(companyName)',
+        'if firstName',
+        '  | Hi',
+      ].join('\n'),
+    );
+
+    const html = template({
+      t: (key: string, params: Record<string, string>) => `${key} ${params.name}`,
+      theme: { primaryColor: '#007BFF' },
+      firstName: 'Ana',
+      lastName: 'Silva',
+      verificationLink: 'https://app.example.com/verify',
+      companyName: 'Acme Corp',
+    });
+
+    expect(html).toBe(
+      '<p>verifyEmail.greeting Ana</p><p>#007BFF Ana Silva 42</p>' +
+        '<a href="https://app.example.com/verify" title="Verify"></a><h2>Acme Corp</h2>Hi',
+    );
+  });
+
+  it.each([
+    ['p= process.env.DATABASE_URL', '`process` is not a context value'],
+    ['p #{globalThis.process.env.DATABASE_URL}', '`globalThis` is not a context value'],
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: a Pug template literal
+    ['p #{`${process.env.DATABASE_URL}`}', '`process` is not a context value'],
+    ['p= t("key", { secret: process.env.DATABASE_URL })', '`process` is not a context value'],
+    ['p= t("key", { global })', '`global` is not a context value'],
+    ['a(href=require)', '`require` is not a context value'],
+    ['if module', '`module` is not a context value'],
+    ['+button(Function)', '`Function` is not a context value'],
+    ['p= firstName.constructor', '`constructor` is not allowed'],
+    ['p= theme.__proto__', '`__proto__` is not allowed'],
+    ['p #{locale.prototype}', '`prototype` is not allowed'],
+    ['mixin card(process)\n  p= process', '`process` is a global'],
+    ['each require in theme\n  p= require', '`require` is a global'],
+    ['- const secret = 1', 'JavaScript code (`-`) is not allowed'],
+    ['p!= firstName', 'Unescaped output (`!=`) is not allowed'],
+    ['p !{firstName}', 'Unescaped interpolation (`!{}`) is not allowed'],
+    ['include ../../../../package.json', 'Only files under src/email-templates'],
+    ['p= firstName.toUpperCase()', 'is not allowed'],
+  ])('rejects %j', (source, reason) => {
+    expect(() => compileStoredTemplate(source)).toThrow(reason);
+  });
+});
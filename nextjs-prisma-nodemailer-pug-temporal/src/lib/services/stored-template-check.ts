@@ -0,0 +1,242 @@
+import path from 'node:path';
+import type pug from 'pug';
+
+// Expressions a stored template may use: context values (`firstName`, `theme.logoUrl`),
+// literals, template literals of context values and `t()` translations of a literal key
+const PATH = String.raw`[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*`;
+const STRING = String.raw`'[^'\\\n]*'|"[^"\\\n]*"`;
+const TEMPLATE_LITERAL = String.raw`\`(?:[^\`\\$]|\$\{\s*${PATH}\s*\})*\``;
+const VALUE = String.raw`${STRING}|${TEMPLATE_LITERAL}|\d+(?:\.\d+)?|${PATH}`;
+const PROPERTY = String.raw`[A-Za-z_$][\w$]*(?:\s*:\s*(?:${VALUE}))?`;
+const PARAMS = String.raw`\{\s*(?:(?:${PROPERTY})(?:\s*,\s*(?:${PROPERTY}))*\s*,?)?\s*\}`;
+const TRANSLATION = String.raw`t\(\s*(?:${STRING})\s*(?:,\s*${PARAMS})?\s*\)`;
+const EXPRESSION = `(?:${TRANSLATION}|${VALUE})`;
+const SAFE_EXPRESSION = new RegExp(String.raw`^\s*${EXPRESSION}\s*$`);
+const SAFE_ARGUMENTS = new RegExp(String.raw`^\s*(?:${EXPRESSION}(?:\s*,\s*${EXPRESSION})*)?\s*$`);
+const LITERAL = new RegExp(`${STRING}|${TEMPLATE_LITERAL}`, 'g');
+const INTERPOLATION = new RegExp(String.raw`\$\{\s*(${PATH})\s*\}`, 'g');
+// Paths, and `t()` parameter names when followed by a colon
+const REFERENCE = new RegExp(String.raw`(${PATH})(\s*:)?`, 'g');
+
+// Pug falls back to Node's globals for names that aren't locals, so only the locals templates
+// get (see `getTemplateLocals` and `getEmailTheme`) and the fields the context generators return
+// can be read, besides the literals that look like names. A field added to a context must be
+// added here before stored templates can use it.
+const TEMPLATE_LOCALS = new Set([
+  'locale',
+  't',
+  'formatDate',
+  'theme',
+  'firstName',
+  'lastName',
+  'email',
+  'companyName',
+  'productName',
+  'contactEmail',
+  'currentYear',
+  'verificationLink',
+  'resetPasswordLink',
+  'magicLink',
+  'loginLink',
+  'dashboardLink',
+  'unsubscribeUrl',
+  'listUnsubscribeUrl',
+  'expiresAt',
+  'loggedInAt',
+  'changedAt',
+  'ipAddress',
+  'userAgent',
+  'url',
+  'true',
+  'false',
+  'null',
+  'undefined',
+]);
+// Properties that reach a value's constructor, and through it `Function`
+const FORBIDDEN_PROPERTIES = new Set(['constructor', '__proto__', 'prototype']);
+// CommonJS names that aren't properties of `globalThis`
+const MODULE_NAMES = new Set(['require', 'module', 'exports']);
+
+const EMAIL_TEMPLATES_DIR = path.resolve('src/email-templates');
+
+// The fields of pug-lexer tokens this check reads
+type PugToken = {
+  type: string;
+  loc: { start: { line: number } };
+  val?: unknown;
+  buffer?: boolean;
+  mustEscape?: boolean;
+  code?: string;
+  args?: string | null;
+  key?: string | null;
+  value?: string;
+};
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/g;
+
+// Variables declared by the token: loop variables, or mixin parameters and `attributes`
+function getDeclaredNames(token: PugToken): string[] {
+  switch (token.type) {
+    case 'each':
+      return [String(token.val), ...(token.key ? [token.key] : [])];
+    case 'eachOf':
+      return token.value?.match(IDENTIFIER) ?? [];
+    case 'mixin':
+      return ['attributes', ...(token.args?.match(IDENTIFIER) ?? [])];
+    default:
+      return [];
+  }
+}
+
+// Template variables aren't scoped by this check, so a mixin parameter named `process` would let
+// `process` be read outside the mixin too
+function checkDeclaredNames(token: PugToken): string | null {
+  const globalName = getDeclaredNames(token).find(
+    (name) => name in globalThis || MODULE_NAMES.has(name),
+  );
+  return globalName ? `\`${globalName}\` is a global and can't be a variable name` : null;
+}
+
+const ALLOWED_EXPRESSIONS = 'only context values, literals and t() are';
+
+/**
+ * Why the references of an expression that matches the allowed syntax can't be read, or null
+ * when they can. `names` has the variables the template declares, e.g. mixin parameters.
+ */
+function checkReferences(expression: string, names: Set<string>): string | null {
+  // Only the interpolated paths of literals are references
+  const references = expression.replace(LITERAL, (literal) =>
+    literal.startsWith('`')
+      ? Array.from(literal.matchAll(INTERPOLATION), ([, reference]) => reference).join(',')
+      : '',
+  );
+
+  for (const [, reference, parameterName] of references.matchAll(REFERENCE)) {
+    if (parameterName) {
+      continue;
+    }
+    const [name, ...properties] = reference.split('.');
+    if (!TEMPLATE_LOCALS.has(name) && !names.has(name)) {
+      return `\`${name}\` is not a context value, ${ALLOWED_EXPRESSIONS} allowed`;
+    }
+    const property = properties.find((property) => FORBIDDEN_PROPERTIES.has(property));
+    if (property) {
+      return `\`${property}\` is not allowed`;
+    }
+  }
+  return null;
+}
+
+function checkExpression(expression: unknown, names: Set<string>): string | null {
+  return typeof expression === 'string' && SAFE_EXPRESSION.test(expression)
+    ? checkReferences(expression, names)
+    : `\`${expression}\` is not allowed, ${ALLOWED_EXPRESSIONS}`;
+}
+
+/**
+ * Why the token is not allowed in a template stored in the database, or null when it is.
+ */
+function getUnsafeTokenReason(
+  token: PugToken,
+  filename: string,
+  names: Set<string>,
+): string | null {
+  switch (token.type) {
+    case 'code':
+      if (!token.buffer) {
+        return 'JavaScript code (`-`) is not allowed';
+      }
+      return token.mustEscape
+        ? checkExpression(token.val, names)
+        : 'Unescaped output (`!=`) is not allowed';
+    case 'interpolated-code':
+      return token.mustEscape
+        ? checkExpression(token.val, names)
+        : 'Unescaped interpolation (`!{}`) is not allowed';
+    case 'attribute':
+      if (!token.mustEscape) {
+        return 'Unescaped attributes (`!=`) are not allowed';
+      }
+      return token.val === true ? null : checkExpression(token.val, names);
+    case 'if':
+    case 'else-if':
+    case 'unless':
+    case 'case':
+    case 'when':
+    case 'interpolation':
+    case '&attributes':
+      return checkExpression(token.val, names);
+    case 'each':
+    case 'eachOf':
+      return checkExpression(token.code, names);
+    case 'call':
+      if (!token.args) {
+        return null;
+      }
+      return SAFE_ARGUMENTS.test(token.args)
+        ? checkReferences(token.args, names)
+        : `Mixin arguments \`${token.args}\` are not allowed, ${ALLOWED_EXPRESSIONS}`;
+    case 'blockcode':
+      return 'JavaScript code (`-`) is not allowed';
+    case 'while':
+      return '`while` loops are not allowed';
+    case 'filter':
+      return 'Filters are not allowed';
+    case 'path': {
+      // The path of an `include` or `extends`
+      const resolved = path.resolve(path.dirname(filename), String(token.val));
+      return resolved.startsWith(`${EMAIL_TEMPLATES_DIR}${path.sep}`)
+        ? null
+        : `Only files under src/email-templates can be included or extended, not ${token.val}`;
+    }
+    default:
+      return null;
+  }
+}
+
+type StoredTemplatePlugin = {
+  postLex(tokens: PugToken[], options: { filename?: string }): PugToken[];
+};
+
+/**
+ * Pug plugin that rejects what a template edited in the admin must not do: run JavaScript,
+ * read anything but its locals, output unescaped HTML, or read files outside
+ * src/email-templates. The stored source is lexed first; the layouts and partials it includes
+ * are repository files and aren't checked.
+ */
+function createStoredTemplatePlugin(): StoredTemplatePlugin {
+  let checkedSource = false;
+  return {
+    postLex(tokens, { filename = '' }) {
+      if (checkedSource) {
+        return tokens;
+      }
+      checkedSource = true;
+
+      const names = new Set<string>();
+      for (const token of tokens) {
+        const reason = getUnsafeTokenReason(token, filename, names) ?? checkDeclaredNames(token);
+        if (reason) {
+          throw new Error(`Line ${token.loc.start.line}: ${reason}`);
+        }
+        for (const name of getDeclaredNames(token)) {
+          names.add(name);
+        }
+      }
+      return tokens;
+    },
+  };
+}
+
+/**
+ * Options to compile a template source stored in the database with, see
+ * `createStoredTemplatePlugin`.
+ */
+export function getStoredTemplateOptions(options: pug.Options, filename: string): pug.Options {
+  const storedTemplateOptions: pug.Options & { plugins: StoredTemplatePlugin[] } = {
+    ...options,
+    filename,
+    plugins: [createStoredTemplatePlugin()],
+  };
+  return storedTemplateOptions;
+}
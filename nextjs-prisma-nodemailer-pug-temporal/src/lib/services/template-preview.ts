@@ -0,0 +1,103 @@
+import nodemailer from 'nodemailer';
+import pug from 'pug';
+import type { JsonObject } from 'vintasend';
+import { buildEmailParts } from '../email-html';
+import { getEmailTheme } from '../email-theme';
+import { getTemplateLocals } from '../i18n';
+import type { TemplatePreviewValues } from '../schemas/templates';
+import {
+  compileEmailTemplate,
+  getPublishedEmailTemplateVersion,
+  listEmailTemplates,
+} from './email-templates';
+import { contextGeneratorsMap, getNotificationService } from './notifications';
+
+export type TemplatePreview = {
+  subject: string | null;
+  // Null for text templates
+  html: string | null;
+  text: string;
+  // Set when the template was rendered from a published `EmailTemplateVersion`, not its files
+  publishedVersion: number | null;
+};
+
+export type TemplatePreviewResult =
+  | { preview: TemplatePreview; renderError: null }
+  | { preview: null; renderError: string };
+
+export const contextNames = Object.keys(contextGeneratorsMap);
+
+// Mailpit catches every email, so test sends never reach the real recipient
+const mailpitTransporter = nodemailer.createTransport({
+  host: process.env.MAILPIT_SMTP_HOST ?? 'localhost',
+  port: process.env.MAILPIT_SMTP_PORT ? parseInt(process.env.MAILPIT_SMTP_PORT, 10) : 1025,
+  secure: false,
+});
+
+/**
+ * Renders a template with the context a notification would get, from the context generator
+ * and its parameters. Templates with a published version for every tenant render that version.
+ * The context's `locale` picks the language of the `t()` helper, not the template file.
+ * Only the templates from `listEmailTemplates` are rendered. Returns null when the template or
+ * the context name is unknown.
+ */
+export async function renderTemplatePreview({
+  bodyTemplate,
+  subjectTemplate,
+  contextName,
+  contextParameters,
+}: TemplatePreviewValues): Promise<TemplatePreviewResult | null> {
+  const templates = await listEmailTemplates();
+  const template = templates.find((option) => option.bodyTemplate === bodyTemplate);
+  const isKnownSubject =
+    subjectTemplate === null ||
+    templates.some((option) => option.subjectTemplate === subjectTemplate);
+  if (!template || !isKnownSubject || (contextName && !contextNames.includes(contextName))) {
+    return null;
+  }
+
+  try {
+    const context = contextName
+      ? await getNotificationService().getNotificationContext(
+          contextName as keyof typeof contextGeneratorsMap,
+          contextParameters as never,
+        )
+      : (contextParameters as JsonObject);
+    const locals = { ...getTemplateLocals(context), theme: getEmailTheme(null) };
+    const published = await getPublishedEmailTemplateVersion(template.name, null);
+    const compiled = compileEmailTemplate({ bodyTemplate, subjectTemplate }, published);
+    const body = compiled.body(locals);
+    const subject = compiled.subject?.(locals).trim() ?? null;
+    const renderPart = (partTemplate: string | null) =>
+      partTemplate ? pug.compileFile(partTemplate)(locals).trim() : null;
+    // Rendered like `DatabaseEmailTemplateRenderer` does for the Nodemailer adapter
+    const parts =
+      template.format === 'html'
+        ? buildEmailParts(body, {
+            text: published ? null : renderPart(template.textTemplate),
+            preheader: renderPart(template.preheaderTemplate),
+          })
+        : { html: null, text: body.trim() };
+
+    return {
+      preview: {
+        subject,
+        html: parts.html,
+        text: parts.text,
+        publishedVersion: published?.version ?? null,
+      },
+      renderError: null,
+    };
+  } catch (error) {
+    return { preview: null, renderError: String(error) };
+  }
+}
+
+export async function sendTemplateTest(to: string, preview: TemplatePreview): Promise<void> {
+  await mailpitTransporter.sendMail({
+    to,
+    subject: `[Test] ${preview.subject ?? 'Template preview'}`,
+    html: preview.html ?? undefined,
+    text: preview.text,
+  });
+}
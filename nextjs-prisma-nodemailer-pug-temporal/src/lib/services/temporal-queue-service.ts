@@ -1,8 +1,23 @@
-import type { Client } from '@temporalio/client';
+import { type Client, WorkflowExecutionAlreadyStartedError } from '@temporalio/client';
 import type { BaseNotificationQueueService } from 'vintasend';
+import { getSendNotificationWorkflowId } from '../../workers/notifications/constants';
 import { sendNotificationWorkflow } from '../../workers/notifications/workflows';
+import { prisma } from '../prisma';
 import type { NotificationTypeConfig } from './notifications';
 
+/**
+ * The id of the notification's send workflow, derived from its idempotency key when it has one.
+ */
+export async function getNotificationWorkflowId(
+  notificationId: NotificationTypeConfig['NotificationIdType'],
+): Promise<string> {
+  const notification = await prisma.notification.findUnique({
+    where: { id: notificationId },
+    select: { idempotencyKey: true },
+  });
+  return getSendNotificationWorkflowId(notificationId, notification?.idempotencyKey);
+}
+
 export class TemporalQueueService implements BaseNotificationQueueService<NotificationTypeConfig> {
   constructor(
     private client: Client,
@@ -12,10 +27,17 @@ export class TemporalQueueService implements BaseNotificationQueueService<Notifi
   async enqueueNotification(
     notificationId: NotificationTypeConfig['NotificationIdType'],
   ): Promise<void> {
-    await this.client.workflow.start(sendNotificationWorkflow, {
-      taskQueue: this.taskQueue,
-      workflowId: `sendNotification-${notificationId}`,
-      args: [notificationId],
-    });
+    try {
+      await this.client.workflow.start(sendNotificationWorkflow, {
+        taskQueue: this.taskQueue,
+        workflowId: await getNotificationWorkflowId(notificationId),
+        args: [notificationId],
+      });
+    } catch (error) {
+      // Enqueueing twice, e.g. when a request is replayed, must not send twice
+      if (!(error instanceof WorkflowExecutionAlreadyStartedError)) {
+        throw error;
+      }
+    }
   }
 }
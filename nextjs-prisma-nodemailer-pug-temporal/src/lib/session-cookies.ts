@@ -0,0 +1,33 @@
+import type { NextResponse } from 'next/server';
+import {
+  ACCESS_TOKEN_COOKIE,
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_COOKIE,
+  REFRESH_TOKEN_TTL_SECONDS,
+  type SessionTokens,
+} from './services/sessions';
+
+const cookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax',
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+} as const;
+
+export function setSessionCookies(response: NextResponse, tokens: SessionTokens) {
+  response.cookies.set(ACCESS_TOKEN_COOKIE, tokens.accessToken, {
+    ...cookieOptions,
+    maxAge: ACCESS_TOKEN_TTL_SECONDS,
+  });
+  if (tokens.refreshToken) {
+    response.cookies.set(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+      ...cookieOptions,
+      maxAge: REFRESH_TOKEN_TTL_SECONDS,
+    });
+  }
+}
+
+export function clearSessionCookies(response: NextResponse) {
+  response.cookies.set(ACCESS_TOKEN_COOKIE, '', { ...cookieOptions, maxAge: 0 });
+  response.cookies.set(REFRESH_TOKEN_COOKIE, '', { ...cookieOptions, maxAge: 0 });
+}
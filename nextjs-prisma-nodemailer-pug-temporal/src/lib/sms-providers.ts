@@ -0,0 +1,93 @@
+import { appendFile } from 'node:fs/promises';
+
+export type SmsMessage = {
+  to: string;
+  body: string;
+};
+
+export interface SmsProvider {
+  readonly name: string;
+  send(message: SmsMessage): Promise<void>;
+}
+
+/**
+ * Raised by SMS providers. `retryable` tells the notification workflow whether sending again
+ * may succeed (gateway unavailable, throttling) or not (invalid number, rejected content).
+ */
+export class SmsProviderError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+  ) {
+    super(message);
+    this.name = 'SmsProviderError';
+  }
+}
+
+type HttpSmsProviderOptions = {
+  url: string;
+  apiKey?: string;
+  from?: string;
+};
+
+/**
+ * Sends messages by POSTing `{ from, to, body }` as JSON to an SMS gateway.
+ */
+export class HttpSmsProvider implements SmsProvider {
+  readonly name = 'http';
+
+  constructor(private options: HttpSmsProviderOptions) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    let response: Response;
+    try {
+      response = await fetch(this.options.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ from: this.options.from, to: message.to, body: message.body }),
+      });
+    } catch (error) {
+      throw new SmsProviderError(`SMS gateway unreachable: ${String(error)}`, true);
+    }
+
+    if (!response.ok) {
+      const details = await response.text();
+      throw new SmsProviderError(
+        `SMS gateway replied ${response.status}: ${details}`,
+        response.status === 429 || response.status >= 500,
+      );
+    }
+  }
+}
+
+/**
+ * Development provider that appends each message as a JSON line to a local file instead of
+ * delivering it.
+ */
+export class FileSmsProvider implements SmsProvider {
+  readonly name = 'file';
+
+  constructor(private filePath: string) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    const entry = { ...message, sentAt: new Date().toISOString() };
+    await appendFile(this.filePath, `${JSON.stringify(entry)}\n`);
+  }
+}
+
+export const DEFAULT_SMS_OUTBOX_FILE = '.sms-outbox.jsonl';
+
+export function createSmsProvider(): SmsProvider {
+  if (process.env.SMS_GATEWAY_URL) {
+    return new HttpSmsProvider({
+      url: process.env.SMS_GATEWAY_URL,
+      apiKey: process.env.SMS_GATEWAY_API_KEY,
+      from: process.env.SMS_FROM,
+    });
+  }
+
+  return new FileSmsProvider(process.env.SMS_OUTBOX_FILE || DEFAULT_SMS_OUTBOX_FILE);
+}
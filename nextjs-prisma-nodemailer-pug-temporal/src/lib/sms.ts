@@ -0,0 +1,45 @@
+// E.164: a plus sign followed by up to 15 digits, the first one being the country code
+const E164_PHONE_NUMBER_REGEX = /^\+[1-9]\d{1,14}$/;
+
+export function isE164PhoneNumber(value: string): boolean {
+  return E164_PHONE_NUMBER_REGEX.test(value);
+}
+
+const GSM_7_BASIC_CHARACTERS = new Set(
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà',
+);
+// Characters from the GSM 7-bit extension table take two septets (escape + character)
+const GSM_7_EXTENSION_CHARACTERS = new Set('\f^{}\\[~]|€');
+
+export type SmsSegmentInfo = {
+  encoding: 'GSM-7' | 'UCS-2';
+  // Length in the units of the encoding: septets for GSM-7, UTF-16 code units for UCS-2
+  length: number;
+  segments: number;
+};
+
+/**
+ * Number of segments carriers split the message into, each one billed as a separate SMS.
+ * A single GSM-7 message holds 160 septets and a UCS-2 one 70 characters; concatenated
+ * messages lose some room to the headers that join them (153 and 67 per segment).
+ */
+export function getSmsSegmentInfo(text: string): SmsSegmentInfo {
+  let septets = 0;
+  for (const character of text) {
+    if (GSM_7_BASIC_CHARACTERS.has(character)) {
+      septets += 1;
+    } else if (GSM_7_EXTENSION_CHARACTERS.has(character)) {
+      septets += 2;
+    } else {
+      // Any character outside the GSM alphabet switches the whole message to UCS-2
+      const length = text.length;
+      return { encoding: 'UCS-2', length, segments: length <= 70 ? 1 : Math.ceil(length / 67) };
+    }
+  }
+
+  return {
+    encoding: 'GSM-7',
+    length: septets,
+    segments: septets <= 160 ? 1 : Math.ceil(septets / 153),
+  };
+}
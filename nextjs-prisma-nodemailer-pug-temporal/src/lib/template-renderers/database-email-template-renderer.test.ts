@@ -0,0 +1,72 @@
+import type { AnyNotification, BaseNotificationTypeConfig } from 'vintasend';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { SUPPORTED_LOCALES } from '../i18n';
+import { listEmailTemplates } from '../services/email-templates';
+import { DatabaseEmailTemplateRenderer } from './database-email-template-renderer';
+
+// Templates are rendered from their files, no published version is looked up
+vi.mock('../prisma', () => ({ prisma: {} }));
+vi.mock('../services/email-templates', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/email-templates')>()),
+  getPublishedEmailTemplateVersion: async () => null,
+}));
+
+// Every variable the templates use, whatever their context
+const context = {
+  firstName: 'Ana',
+  lastName: 'Silva',
+  email: 'ana@example.com',
+  companyName: 'Acme Corp',
+  productName: 'VintaSend',
+  contactEmail: 'hello@example.com',
+  verificationLink: 'https://app.example.com/auth/verify-email/token/',
+  resetPasswordLink: 'https://app.example.com/auth/reset-password/token/',
+  magicLink: 'https://app.example.com/auth/magic/token/',
+  loginLink: 'https://app.example.com/auth/login',
+  dashboardLink: 'https://app.example.com/dashboard',
+  unsubscribeUrl: 'https://app.example.com/unsubscribe/token',
+  expiresAt: 'October 19, 2026 at 10:15 AM UTC',
+  loggedInAt: 'October 19, 2026 at 09:00 AM UTC',
+  changedAt: 'October 19, 2026 at 09:00 AM UTC',
+  ipAddress: '203.0.113.7',
+  userAgent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/131.0',
+};
+
+// Translated files are rendered through the template they translate, for their locale
+const templates = (await listEmailTemplates()).filter(
+  (template) =>
+    template.subjectTemplate &&
+    !SUPPORTED_LOCALES.some((locale) => template.name.endsWith(`.${locale}`)),
+);
+
+describe('DatabaseEmailTemplateRenderer', () => {
+  beforeAll(() => {
+    // The email layout shows the current year
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+  });
+
+  describe.each(templates)('$name', (template) => {
+    it.each(SUPPORTED_LOCALES)('renders the subject and every part in %s', async (locale) => {
+      const renderer = new DatabaseEmailTemplateRenderer<BaseNotificationTypeConfig>();
+      const notification = {
+        bodyTemplate: template.bodyTemplate,
+        subjectTemplate: template.subjectTemplate,
+      } as AnyNotification<BaseNotificationTypeConfig>;
+
+      const { subject, body, text } = await renderer.render(notification, { ...context, locale });
+
+      // The hidden element `addPreheader` puts at the start of HTML bodies
+      const preheader = body.match(/<div style="display:none[^>]*>(.*?)(?:&nbsp;&zwnj;)+<\/div>/);
+
+      expect(subject).toMatchSnapshot('subject');
+      expect(preheader?.[1] ?? null).toMatchSnapshot('preheader');
+      expect(body).toMatchSnapshot(template.format === 'html' ? 'html' : 'body');
+      expect(text).toMatchSnapshot('text');
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import pug from 'pug';
+import type {
+  AnyNotification,
+  BaseEmailTemplateRenderer,
+  BaseLogger,
+  BaseNotificationTypeConfig,
+  EmailTemplate,
+  EmailTemplateContent,
+  JsonObject,
+} from 'vintasend';
+import { buildEmailParts } from '../email-html';
+import { getEmailTheme } from '../email-theme';
+import { getTemplateLocals } from '../i18n';
+import {
+  compileEmailTemplate,
+  getEmailTemplateKey,
+  getEmailTemplateParts,
+  getLocalizedTemplatePath,
+  getPublishedEmailTemplateVersion,
+} from '../services/email-templates';
+
+// The plain-text part sent with the HTML body
+export type EmailTemplateWithText = EmailTemplate & { text: string };
+
+function getTenant(notification: object): string | null {
+  // Stored notifications have it, vintasend's notification types just don't declare it
+  return (notification as { tenant?: string | null }).tenant ?? null;
+}
+
+/**
+ * Renders the published `EmailTemplate` version of the notification's template, the one of its
+ * tenant before the one for every tenant. Without one, it compiles the `bodyTemplate` and
+ * `subjectTemplate` files like vintasend-pug's renderer. Templates get the translated files for
+ * the context's `locale` when they exist, the `t()` and `formatDate()` helpers, and the `theme`
+ * of the notification's tenant for the email layout.
+ *
+ * HTML bodies get their CSS inlined and the preheader from `<name>-preheader.txt.pug`, and come
+ * with a plain-text part from `<name>-body.txt.pug`, or else converted from the HTML.
+ */
+export class DatabaseEmailTemplateRenderer<Config extends BaseNotificationTypeConfig>
+  implements BaseEmailTemplateRenderer<Config>
+{
+  logger: BaseLogger | null = null;
+
+  constructor(private options: pug.Options = {}) {}
+
+  injectLogger(logger: BaseLogger): void {
+    this.logger = logger;
+  }
+
+  async render(
+    notification: AnyNotification<Config>,
+    context: JsonObject,
+  ): Promise<EmailTemplateWithText> {
+    if (!notification.subjectTemplate) {
+      throw new Error('Subject template is required');
+    }
+
+    const tenant = getTenant(notification);
+    const locals = { ...getTemplateLocals(context), theme: getEmailTheme(tenant) };
+    const bodyTemplate = getLocalizedTemplatePath(notification.bodyTemplate, locals.locale);
+    const subjectTemplate = getLocalizedTemplatePath(notification.subjectTemplate, locals.locale);
+    const key = getEmailTemplateKey(bodyTemplate);
+    const published = key ? await getPublishedEmailTemplateVersion(key, tenant) : null;
+    this.logger?.info(
+      published
+        ? `Compiling published email template ${key} version ${published.version}`
+        : `Compiling email template files: ${bodyTemplate}`,
+    );
+
+    const { subject, body } = compileEmailTemplate(
+      { bodyTemplate, subjectTemplate },
+      published,
+      this.options,
+    );
+    const renderedSubject = (subject as pug.compileTemplate)(locals);
+    const renderedBody = body(locals);
+    if (!bodyTemplate.endsWith('.html.pug')) {
+      return { subject: renderedSubject, body: renderedBody, text: renderedBody };
+    }
+
+    const parts = getEmailTemplateParts(notification.bodyTemplate, locals.locale);
+    const renderPart = (template: string | null) =>
+      template ? pug.compileFile(template, this.options)(locals).trim() : null;
+    const { html, text } = buildEmailParts(renderedBody, {
+      // The text file wouldn't match a published version edited after it
+      text: published ? null : renderPart(parts.textTemplate),
+      preheader: renderPart(parts.preheaderTemplate),
+    });
+    return { subject: renderedSubject, body: html, text };
+  }
+
+  async renderFromTemplateContent(
+    notification: AnyNotification<Config>,
+    templateContent: EmailTemplateContent,
+    context: JsonObject,
+  ): Promise<EmailTemplateWithText> {
+    if (!templateContent.subject) {
+      throw new Error('Subject template is required');
+    }
+
+    const locals = {
+      ...getTemplateLocals(context),
+      theme: getEmailTheme(getTenant(notification)),
+    };
+    const { html, text } = buildEmailParts(
+      pug.compile(templateContent.body, this.options)(locals),
+      { text: null, preheader: null },
+    );
+    return {
+      subject: pug.compile(templateContent.subject, this.options)(locals),
+      body: html,
+      text,
+    };
+  }
+}
+
+export class DatabaseEmailTemplateRendererFactory<Config extends BaseNotificationTypeConfig> {
+  create(options: pug.Options = {}) {
+    return new DatabaseEmailTemplateRenderer<Config>(options);
+  }
+}
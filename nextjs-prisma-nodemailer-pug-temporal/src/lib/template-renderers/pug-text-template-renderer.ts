@@ -0,0 +1,54 @@
+import pug from 'pug';
+import type {
+  AnyNotification,
+  BaseLogger,
+  BaseNotificationTemplateRenderer,
+  BaseNotificationTypeConfig,
+  JsonObject,
+} from 'vintasend';
+import { getTemplateLocals } from '../i18n';
+import { getLocalizedTemplatePath } from '../services/email-templates';
+
+export type TextTemplate = {
+  text: string;
+};
+
+/**
+ * Renders only `bodyTemplate`, for channels without a subject like SMS. Templates should
+ * produce plain text, e.g. using Pug's `|` piped text. Like the email renderer, it picks the
+ * translated file for the context's `locale` and adds the `t()` and `formatDate()` helpers.
+ */
+export class PugTextTemplateRenderer<Config extends BaseNotificationTypeConfig>
+  implements BaseNotificationTemplateRenderer<Config, TextTemplate>
+{
+  logger: BaseLogger | null = null;
+
+  constructor(private options: pug.Options = {}) {}
+
+  injectLogger(logger: BaseLogger): void {
+    this.logger = logger;
+  }
+
+  async render(notification: AnyNotification<Config>, context: JsonObject): Promise<TextTemplate> {
+    const locals = getTemplateLocals(context);
+    const templatePath = getLocalizedTemplatePath(notification.bodyTemplate, locals.locale);
+    this.logger?.info(`Compiling text template: ${templatePath}`);
+    const bodyTemplate = pug.compileFile(templatePath, this.options);
+    return { text: bodyTemplate(locals).trim() };
+  }
+
+  async renderFromTemplateContent(
+    _notification: AnyNotification<Config>,
+    templateContent: unknown,
+    context: JsonObject,
+  ): Promise<TextTemplate> {
+    const { text } = templateContent as TextTemplate;
+    return { text: pug.compile(text, this.options)(getTemplateLocals(context)).trim() };
+  }
+}
+
+export class PugTextTemplateRendererFactory<Config extends BaseNotificationTypeConfig> {
+  create(options: pug.Options = {}) {
+    return new PugTextTemplateRenderer<Config>(options);
+  }
+}
@@ -0,0 +1,49 @@
+export type DiffLine = {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+};
+
+/**
+ * Line-by-line diff from `before` to `after`, keeping their longest common subsequence of lines
+ * unchanged. Quadratic in the number of lines, which is fine for templates.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const beforeLines = before.split('\n');
+  const afterLines = after.split('\n');
+  // common[i][j] is the length of the common subsequence of beforeLines[i:] and afterLines[j:]
+  const common = Array.from({ length: beforeLines.length + 1 }, () =>
+    new Array<number>(afterLines.length + 1).fill(0),
+  );
+  for (let i = beforeLines.length - 1; i >= 0; i--) {
+    for (let j = afterLines.length - 1; j >= 0; j--) {
+      common[i][j] =
+        beforeLines[i] === afterLines[j]
+          ? common[i + 1][j + 1] + 1
+          : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < beforeLines.length && j < afterLines.length) {
+    if (beforeLines[i] === afterLines[j]) {
+      lines.push({ type: 'same', text: beforeLines[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ type: 'removed', text: beforeLines[i] });
+      i++;
+    } else {
+      lines.push({ type: 'added', text: afterLines[j] });
+      j++;
+    }
+  }
+  for (; i < beforeLines.length; i++) {
+    lines.push({ type: 'removed', text: beforeLines[i] });
+  }
+  for (; j < afterLines.length; j++) {
+    lines.push({ type: 'added', text: afterLines[j] });
+  }
+  return lines;
+}
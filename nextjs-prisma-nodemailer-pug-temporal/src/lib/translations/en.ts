@@ -0,0 +1,67 @@
+export const en: Record<string, string> = {
+  'layout.automatedMessage': 'This is an automated message. Please do not reply to this email.',
+  'verifyEmail.subject': 'Verify your email address',
+  'verifyEmail.title': 'Verify your email',
+  'verifyEmail.preheader': 'One click to finish setting up your account.',
+  'verifyEmail.greeting': 'Hello {firstName},',
+  'verifyEmail.intro':
+    'Thank you for registering. To complete your sign up, please verify your email address.',
+  'verifyEmail.instructions': 'Click the button below to verify your email:',
+  'verifyEmail.button': 'Verify Email',
+  'verifyEmail.ignore': 'If you did not request this, please ignore this email.',
+  'forgotPassword.subject': 'Reset your password',
+  'forgotPassword.title': 'Reset your password',
+  'forgotPassword.greeting': 'Hello {firstName},',
+  'forgotPassword.intro': 'We received a request to reset your password.',
+  'forgotPassword.ignore': 'If you did not request this change, please ignore this email.',
+  'forgotPassword.button': 'Reset password',
+  'forgotPassword.fallback':
+    'If you’re having trouble clicking the "Reset Password" button, copy and paste the URL below into your web browser: {resetPasswordLink}',
+  'magicLink.subject': 'Your login link',
+  'magicLink.title': 'Your login link',
+  'magicLink.greeting': 'Hello {firstName},',
+  'magicLink.intro':
+    'Use the button below to log in to your account. The link works once and expires at {expiresAt}.',
+  'magicLink.button': 'Log in',
+  'magicLink.ignore': "If you didn't ask for this link, you can ignore this email.",
+  'magicLink.fallback':
+    'If you’re having trouble clicking the "Log in" button, copy and paste the URL below into your web browser: {magicLink}',
+  'newLogin.subject': 'New login to your account',
+  'newLogin.title': 'New login to your account',
+  'newLogin.greeting': 'Hello {firstName},',
+  'newLogin.intro': "We noticed a login to your account from a device we haven't seen before.",
+  'newLogin.when': 'When: {loggedInAt}',
+  'newLogin.ipAddress': 'IP address: {ipAddress}',
+  'newLogin.device': 'Device: {userAgent}',
+  'newLogin.ignore': 'If this was you, you can ignore this email.',
+  'newLogin.notYou':
+    "If you don't recognise this login, reset your password to log out everywhere else.",
+  'newLogin.button': 'Reset password',
+  'passwordChanged.subject': 'Your password was changed',
+  'passwordChanged.title': 'Your password was changed',
+  'passwordChanged.greeting': 'Hello {firstName},',
+  'passwordChanged.intro': 'Your password was changed on {changedAt}.',
+  'passwordChanged.ignore':
+    "If you made this change, you don't need to do anything else. You were logged out of your other devices.",
+  'passwordChanged.notYou':
+    "If you didn't change your password, reset it right away and let us know at {contactEmail}.",
+  'passwordChanged.button': 'Reset password',
+  'emailVerified.subject': 'Your email is verified',
+  'emailVerified.title': 'Your email is verified',
+  'emailVerified.greeting': 'Hello {firstName},',
+  'emailVerified.intro': 'Your email address {email} is now verified.',
+  'emailVerified.login': "You can log in to your account whenever you're ready.",
+  'emailVerified.button': 'Log in',
+  'emailVerified.notYou': 'If you did not create this account, please contact us.',
+  'firstDay.subject': 'Getting started with your account',
+  'firstDay.title': 'Getting started',
+  'firstDay.greeting': 'Hello {firstName},',
+  'firstDay.intro': 'Thanks for spending your first day with us. Here is where to go next:',
+  'firstDay.settings': 'Choose which notifications you get in your notification settings.',
+  'firstDay.push': 'Turn on push notifications to hear from us in your browser.',
+  'firstDay.button': 'Go to your dashboard',
+  'firstDay.questions': 'Reply to this email if you have any questions.',
+  'welcome.subject': 'Welcome aboard, {firstName}!',
+  'welcome.body':
+    'Your account is ready. Check your inbox to verify your email address and get started.',
+};
@@ -0,0 +1,68 @@
+export const ptBR: Record<string, string> = {
+  'layout.automatedMessage': 'Esta é uma mensagem automática. Por favor, não responda este e-mail.',
+  'verifyEmail.subject': 'Confirme seu endereço de e-mail',
+  'verifyEmail.title': 'Confirme seu e-mail',
+  'verifyEmail.preheader': 'Falta um clique para concluir seu cadastro.',
+  'verifyEmail.greeting': 'Olá {firstName},',
+  'verifyEmail.intro':
+    'Obrigado por se cadastrar. Para concluir seu cadastro, confirme seu endereço de e-mail.',
+  'verifyEmail.instructions': 'Clique no botão abaixo para confirmar seu e-mail:',
+  'verifyEmail.button': 'Confirmar e-mail',
+  'verifyEmail.ignore': 'Se você não fez esta solicitação, ignore este e-mail.',
+  'forgotPassword.subject': 'Redefina sua senha',
+  'forgotPassword.title': 'Redefina sua senha',
+  'forgotPassword.greeting': 'Olá {firstName},',
+  'forgotPassword.intro': 'Recebemos uma solicitação para redefinir sua senha.',
+  'forgotPassword.ignore': 'Se você não solicitou esta alteração, ignore este e-mail.',
+  'forgotPassword.button': 'Redefinir senha',
+  'forgotPassword.fallback':
+    'Se o botão "Redefinir senha" não funcionar, copie e cole o endereço abaixo no seu navegador: {resetPasswordLink}',
+  'magicLink.subject': 'Seu link de acesso',
+  'magicLink.title': 'Seu link de acesso',
+  'magicLink.greeting': 'Olá {firstName},',
+  'magicLink.intro':
+    'Use o botão abaixo para entrar na sua conta. O link só pode ser usado uma vez e expira em {expiresAt}.',
+  'magicLink.button': 'Entrar',
+  'magicLink.ignore': 'Se você não pediu este link, pode ignorar este e-mail.',
+  'magicLink.fallback':
+    'Se o botão "Entrar" não funcionar, copie e cole o endereço abaixo no seu navegador: {magicLink}',
+  'newLogin.subject': 'Novo acesso à sua conta',
+  'newLogin.title': 'Novo acesso à sua conta',
+  'newLogin.greeting': 'Olá {firstName},',
+  'newLogin.intro': 'Notamos um acesso à sua conta a partir de um dispositivo que não conhecíamos.',
+  'newLogin.when': 'Quando: {loggedInAt}',
+  'newLogin.ipAddress': 'Endereço IP: {ipAddress}',
+  'newLogin.device': 'Dispositivo: {userAgent}',
+  'newLogin.ignore': 'Se foi você, pode ignorar este e-mail.',
+  'newLogin.notYou':
+    'Se você não reconhece este acesso, redefina sua senha para sair de todos os outros dispositivos.',
+  'newLogin.button': 'Redefinir senha',
+  'passwordChanged.subject': 'Sua senha foi alterada',
+  'passwordChanged.title': 'Sua senha foi alterada',
+  'passwordChanged.greeting': 'Olá {firstName},',
+  'passwordChanged.intro': 'Sua senha foi alterada em {changedAt}.',
+  'passwordChanged.ignore':
+    'Se foi você, não precisa fazer mais nada. Você saiu da sua conta nos outros dispositivos.',
+  'passwordChanged.notYou':
+    'Se você não alterou sua senha, redefina-a agora e nos avise em {contactEmail}.',
+  'passwordChanged.button': 'Redefinir senha',
+  'emailVerified.subject': 'Seu e-mail foi confirmado',
+  'emailVerified.title': 'Seu e-mail foi confirmado',
+  'emailVerified.greeting': 'Olá {firstName},',
+  'emailVerified.intro': 'Seu endereço de e-mail {email} foi confirmado.',
+  'emailVerified.login': 'Você já pode entrar na sua conta quando quiser.',
+  'emailVerified.button': 'Entrar',
+  'emailVerified.notYou': 'Se você não criou esta conta, entre em contato conosco.',
+  'firstDay.subject': 'Primeiros passos com a sua conta',
+  'firstDay.title': 'Primeiros passos',
+  'firstDay.greeting': 'Olá {firstName},',
+  'firstDay.intro': 'Obrigado por passar seu primeiro dia conosco. Veja por onde continuar:',
+  'firstDay.settings':
+    'Escolha quais notificações você quer receber nas configurações de notificação.',
+  'firstDay.push': 'Ative as notificações push para receber nossas mensagens no navegador.',
+  'firstDay.button': 'Ir para o painel',
+  'firstDay.questions': 'Responda este e-mail se tiver qualquer dúvida.',
+  'welcome.subject': 'Boas-vindas, {firstName}!',
+  'welcome.body':
+    'Sua conta está pronta. Confira sua caixa de entrada para confirmar seu e-mail e começar.',
+};
@@ -0,0 +1,100 @@
+import webpush from 'web-push';
+import { isAllowedPushEndpoint } from './schemas/push-subscriptions';
+
+type VapidDetails = {
+  subject: string;
+  publicKey: string;
+  privateKey: string;
+};
+
+/**
+ * VAPID keys identify this server to the browsers' push services. Generate them with
+ * `npm run push:generate-vapid-keys`. Returns null when Web Push is not configured.
+ */
+export function getVapidDetails(): VapidDetails | null {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) {
+    return null;
+  }
+
+  return {
+    subject:
+      process.env.VAPID_SUBJECT || `mailto:${process.env.CONTACT_EMAIL || 'hello@example.com'}`,
+    publicKey,
+    privateKey,
+  };
+}
+
+/**
+ * Raised when the push service rejects a message. `retryable` has the same meaning as in
+ * `SmsProviderError`.
+ */
+export class PushDeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+  ) {
+    super(message);
+    this.name = 'PushDeliveryError';
+  }
+}
+
+export type PushMessageTarget = {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+};
+
+// Push services drop messages the browser didn't pick up within a day
+const PUSH_MESSAGE_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Encrypts and posts `payload` to the subscription's push service. `expired` means the push
+ * service no longer knows the subscription (404/410) and it should be removed.
+ *
+ * `webpush.sendNotification` only speaks HTTPS, so the request is built with web-push and sent
+ * with fetch, which also lets it reach the local mock push service over HTTP.
+ */
+export async function sendPushMessage(
+  target: PushMessageTarget,
+  payload: string,
+  vapidDetails: VapidDetails,
+): Promise<'delivered' | 'expired'> {
+  // Also checked here for subscriptions stored before endpoints were validated
+  if (!isAllowedPushEndpoint(target.endpoint)) {
+    throw new PushDeliveryError(`Refusing to send to push endpoint ${target.endpoint}`, false);
+  }
+
+  const request = webpush.generateRequestDetails(
+    { endpoint: target.endpoint, keys: { p256dh: target.p256dh, auth: target.auth } },
+    payload,
+    { vapidDetails, TTL: PUSH_MESSAGE_TTL_SECONDS },
+  );
+
+  // fetch sets Content-Length from the body itself
+  const { 'Content-Length': _contentLength, ...headers } = request.headers;
+
+  let response: Response;
+  try {
+    response = await fetch(request.endpoint, {
+      method: request.method,
+      headers,
+      body: request.body ? new Uint8Array(request.body) : null,
+    });
+  } catch (error) {
+    throw new PushDeliveryError(`Push service unreachable: ${String(error)}`, true);
+  }
+
+  if (response.status === 404 || response.status === 410) {
+    return 'expired';
+  }
+  if (!response.ok) {
+    const details = await response.text();
+    throw new PushDeliveryError(
+      `Push service replied ${response.status}: ${details}`,
+      response.status === 429 || response.status >= 500,
+    );
+  }
+  return 'delivered';
+}
@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  getSessionFromRequest,
+  REFRESH_TOKEN_COOKIE,
+  rotateSession,
+} from './lib/services/sessions';
+import { clearSessionCookies, setSessionCookies } from './lib/session-cookies';
+
+/**
+ * Sends signed-out visitors of app pages to the login page. Only the access token's signature
+ * and expiry are checked here; API routes also make sure the session was not revoked (see
+ * `withAuth`). An expired access token is refreshed on the way in while the refresh token is
+ * still valid.
+ */
+export async function proxy(req: NextRequest) {
+  if (getSessionFromRequest(req)) {
+    return NextResponse.next();
+  }
+
+  const refreshToken = req.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+  const tokens = refreshToken ? await rotateSession(refreshToken) : null;
+  if (tokens) {
+    const response = NextResponse.next();
+    setSessionCookies(response, tokens);
+    return response;
+  }
+
+  const loginUrl = new URL('/auth/login', req.url);
+  loginUrl.searchParams.set('next', `${req.nextUrl.pathname}${req.nextUrl.search}`);
+  const response = NextResponse.redirect(loginUrl);
+  clearSessionCookies(response);
+  return response;
+}
+
+export const config = {
+  matcher: ['/dashboard/:path*', '/settings/:path*', '/admin/:path*'],
+};
@@ -1,31 +1,301 @@
-import { getNotificationService } from '../../lib/services/notifications';
+import type { NotificationType } from '@prisma/client';
+import { ApplicationFailure, Context } from '@temporalio/activity';
+import type { RetryPolicy } from '@temporalio/workflow';
+import { logger } from '../../lib/logger';
+import { prisma } from '../../lib/prisma';
+import { getCampaignRowNotification } from '../../lib/services/campaigns';
+import {
+  getNotificationService,
+  QUEUED_NOTIFICATION_TYPES,
+} from '../../lib/services/notifications';
+import { getNotificationServiceWithQueue } from '../../lib/services/notifications-with-queue';
+import type { CampaignSummary } from './campaign-options';
+import { PERMANENT_SEND_ERROR, TRANSIENT_SEND_ERROR } from './constants';
+import { getNotificationRetryPolicy } from './retry-policies';
 
 type NotificationIdType = Parameters<
   ReturnType<typeof getNotificationService>['getNotification']
 >[0];
 
-export async function sendNotification(notificationId: NotificationIdType): Promise<void> {
-  const notificationService = getNotificationService();
+type NotificationSendInfo = {
+  notificationType: NotificationType | null;
+  // ISO string, activity results are serialized as JSON
+  sendAfter: string | null;
+  // Policy of the sendNotification activity, resolved here since it can be set by env
+  retryPolicy: RetryPolicy;
+};
+
+export async function getNotificationSendInfo(
+  notificationId: NotificationIdType,
+): Promise<NotificationSendInfo> {
+  const notification = await prisma.notification.findUnique({
+    where: { id: notificationId },
+    select: { notificationType: true, sendAfter: true },
+  });
+  return {
+    notificationType: notification?.notificationType ?? null,
+    sendAfter: notification?.sendAfter?.toISOString() ?? null,
+    retryPolicy: getNotificationRetryPolicy(notification?.notificationType ?? null),
+  };
+}
 
+export type NotificationSendOutcome = 'sent' | 'skipped';
+
+export async function sendNotification(
+  notificationId: NotificationIdType,
+): Promise<NotificationSendOutcome> {
   if (!notificationId) {
     throw new Error('Notification ID is required');
   }
 
-  await notificationService.delayedSend(notificationId);
+  const notification = await prisma.notification.findUnique({
+    where: { id: notificationId },
+    select: { status: true, notificationType: true },
+  });
+  if (!notification) {
+    throw ApplicationFailure.create({
+      message: `Notification ${notificationId} not found`,
+      type: PERMANENT_SEND_ERROR,
+      nonRetryable: true,
+    });
+  }
+  if (notification.status !== 'PENDING_SEND' && notification.status !== 'FAILED') {
+    logger.info('Skipping notification that is no longer pending', {
+      notificationId,
+      status: notification.status,
+    });
+    return 'skipped';
+  }
+  if (notification.status === 'FAILED') {
+    // delayedSend only marks pending notifications as sent, so put it back before retrying
+    await prisma.notification.update({
+      where: { id: notificationId },
+      data: { status: 'PENDING_SEND' },
+    });
+  }
+
+  const notificationService = getNotificationService(notification.notificationType);
+  if (QUEUED_NOTIFICATION_TYPES.includes(notification.notificationType)) {
+    await notificationService.delayedSend(notificationId);
+  } else {
+    // delayedSend only runs adapters that enqueue, in-app ones are sent with `send`
+    const storedNotification = await notificationService.getNotification(notificationId);
+    if (storedNotification) {
+      await notificationService.send(storedNotification);
+    }
+  }
+
+  // delayedSend doesn't throw when the adapter fails, it marks the notification as FAILED
+  const result = await prisma.notification.update({
+    where: { id: notificationId },
+    data: { sendAttempts: Context.current().info.attempt },
+    select: { status: true, lastError: true, lastErrorRetryable: true },
+  });
+  if (result.status === 'FAILED') {
+    const retryable = result.lastErrorRetryable ?? true;
+    throw ApplicationFailure.create({
+      message: result.lastError ?? `Failed to send notification ${notificationId}`,
+      type: retryable ? TRANSIENT_SEND_ERROR : PERMANENT_SEND_ERROR,
+      nonRetryable: !retryable,
+    });
+  }
+  if (result.status === 'PENDING_SEND') {
+    // No adapter of the notification type ran, retrying won't change that
+    throw ApplicationFailure.create({
+      message: `No adapter sent notification ${notificationId}`,
+      type: PERMANENT_SEND_ERROR,
+      nonRetryable: true,
+    });
+  }
+  return 'sent';
+}
+
+export async function markNotificationDeadLettered(
+  notificationId: NotificationIdType,
+  error: string,
+): Promise<void> {
+  await prisma.notification.update({
+    where: { id: notificationId },
+    data: { status: 'FAILED', deadLetteredAt: new Date(), lastError: error },
+  });
+  logger.error('Notification dead-lettered after exhausting send attempts', {
+    notificationId,
+    error,
+  });
 }
 
-export const getAllPendingNotifications = async (): Promise<NotificationIdType[]> => {
-  const notificationServices = getNotificationService();
-  const pendingNotifications = await notificationServices.getPendingNotifications();
-  return pendingNotifications
-    .map((notification) => notification.id)
-    .filter((nid) => nid !== undefined);
+export type PendingNotificationItem = {
+  id: NotificationIdType;
+  notificationType: NotificationType;
+  idempotencyKey: string | null;
 };
 
+/**
+ * Due pending notifications with an id greater than `afterId`. Paging by id instead of by
+ * offset keeps the pages stable while notifications leave the pending state.
+ */
+export async function getDuePendingNotifications(
+  afterId: NotificationIdType,
+  limit: number,
+): Promise<PendingNotificationItem[]> {
+  return prisma.notification.findMany({
+    where: {
+      id: { gt: afterId },
+      status: 'PENDING_SEND',
+      OR: [{ sendAfter: { lte: new Date() } }, { sendAfter: null }],
+    },
+    orderBy: { id: 'asc' },
+    take: limit,
+    select: { id: true, notificationType: true, idempotencyKey: true },
+  });
+}
+
+/**
+ * Deletes every token past its expiry date: verification and password reset links nobody
+ * used, and refresh tokens of sessions that were never renewed.
+ */
+export async function deleteExpiredTokens(): Promise<number> {
+  const { count } = await prisma.token.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+  logger.info('Deleted expired tokens', { count });
+  return count;
+}
+
+/**
+ * Deletes the rate limit counters of windows that are over, see src/lib/rate-limit.ts.
+ */
+export async function deleteExpiredRateLimitCounters(): Promise<number> {
+  const { count } = await prisma.rateLimitCounter.deleteMany({
+    where: { resetAt: { lte: new Date() } },
+  });
+  logger.info('Deleted expired rate limit counters', { count });
+  return count;
+}
+
+/**
+ * Marks the campaign as running and returns the channel its notifications are sent on.
+ */
+export async function startCampaign(campaignId: number): Promise<NotificationType> {
+  const { notificationType } = await prisma.campaign.update({
+    where: { id: campaignId },
+    data: { status: 'RUNNING' },
+    select: { notificationType: true },
+  });
+  return notificationType;
+}
+
+/**
+ * Recounts the campaign progress from the status of its rows, so a retried batch can't count
+ * a row twice.
+ */
+async function updateCampaignProgress(campaignId: number): Promise<CampaignSummary> {
+  const statusCounts = await prisma.campaignRow.groupBy({
+    by: ['status'],
+    where: { campaignId },
+    _count: { _all: true },
+  });
+  const countOf = (status: string) =>
+    statusCounts.find((statusCount) => statusCount.status === status)?._count._all ?? 0;
+  const summary = {
+    created: countOf('CREATED'),
+    failed: countOf('FAILED'),
+    skipped: countOf('INVALID') + countOf('DUPLICATE') + countOf('SKIPPED'),
+  };
+
+  await prisma.campaign.update({
+    where: { id: campaignId },
+    data: {
+      processedRows: summary.created + summary.failed + summary.skipped,
+      createdCount: summary.created,
+      failedCount: summary.failed,
+      skippedCount: summary.skipped,
+    },
+  });
+  return summary;
+}
+
+/**
+ * Creates the one-off notifications of the next pending rows of the campaign and stores the
+ * result of each row. Returns how many rows were processed, 0 once none are left.
+ */
+export async function createCampaignNotificationsBatch(
+  campaignId: number,
+  batchSize: number,
+): Promise<number> {
+  const { notificationType } = await prisma.campaign.findUniqueOrThrow({
+    where: { id: campaignId },
+    select: { notificationType: true },
+  });
+  const rows = await prisma.campaignRow.findMany({
+    where: { campaignId, status: 'PENDING' },
+    orderBy: { id: 'asc' },
+    take: batchSize,
+  });
+  if (rows.length === 0) {
+    return 0;
+  }
+
+  const notificationService = await getNotificationServiceWithQueue();
+  for (const row of rows) {
+    try {
+      const notification = await notificationService.createOneOffNotification({
+        ...getCampaignRowNotification(notificationType, row),
+        // A retried batch gets the notifications it already created instead of sending again
+        idempotencyKey: `campaign:${campaignId}:row:${row.id}`,
+      });
+      if (notification.status === 'CANCELLED') {
+        // The notification guards blocked it, e.g. the recipient is on the suppression list
+        const { cancellationReason } = await prisma.notification.findUniqueOrThrow({
+          where: { id: notification.id },
+          select: { cancellationReason: true },
+        });
+        await prisma.campaignRow.update({
+          where: { id: row.id },
+          data: { status: 'SKIPPED', notificationId: notification.id, error: cancellationReason },
+        });
+        continue;
+      }
+      await prisma.campaignRow.update({
+        where: { id: row.id },
+        data: { status: 'CREATED', notificationId: notification.id },
+      });
+    } catch (error) {
+      logger.warn('Could not create campaign notification', {
+        campaignId,
+        rowId: row.id,
+        error: String(error),
+      });
+      await prisma.campaignRow.update({
+        where: { id: row.id },
+        data: { status: 'FAILED', error: error instanceof Error ? error.message : String(error) },
+      });
+    }
+  }
+
+  await updateCampaignProgress(campaignId);
+  return rows.length;
+}
+
+export async function completeCampaign(campaignId: number): Promise<CampaignSummary> {
+  const summary = await updateCampaignProgress(campaignId);
+  await prisma.campaign.update({
+    where: { id: campaignId },
+    data: { status: 'COMPLETED', completedAt: new Date() },
+  });
+  logger.info('Campaign completed', { campaignId, ...summary });
+  return summary;
+}
+
 // Export as an object for Temporal activity registration
 export const emailActivities = {
+  getNotificationSendInfo,
   sendNotification,
-  getAllPendingNotifications,
+  markNotificationDeadLettered,
+  getDuePendingNotifications,
+  deleteExpiredTokens,
+  deleteExpiredRateLimitCounters,
+  startCampaign,
+  createCampaignNotificationsBatch,
+  completeCampaign,
 };
 
 // Optionally export a type for proxyActivities
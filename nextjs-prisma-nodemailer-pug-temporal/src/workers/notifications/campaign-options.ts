@@ -0,0 +1,21 @@
+import type { NotificationType } from '@prisma/client';
+import { defaultPendingNotificationsSweepOptions } from './sweep-options';
+
+export type CampaignOptions = {
+  // Rows turned into notifications by each activity call
+  batchSize: number;
+  // Upper bound on notifications created per second for each channel
+  sendsPerSecond: Record<NotificationType, number>;
+};
+
+export const defaultCampaignOptions: CampaignOptions = {
+  batchSize: 50,
+  // Campaign notifications go through the same adapters as the pending notifications sweep
+  sendsPerSecond: defaultPendingNotificationsSweepOptions.sendsPerSecond,
+};
+
+export type CampaignSummary = {
+  created: number;
+  failed: number;
+  skipped: number;
+};
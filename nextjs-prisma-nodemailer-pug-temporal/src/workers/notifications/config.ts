@@ -1,4 +1,27 @@
+import type { NotificationType } from '@prisma/client';
+import * as z from 'zod';
+import { defaultPendingNotificationsSweepOptions } from './sweep-options';
+
 export const TEMPORAL_ADDRESS = process.env.TEMPORAL_ADDRESS || 'localhost:7233';
 export const CONNECTION_CONFIG = {
   address: TEMPORAL_ADDRESS,
 };
+
+const sendsPerSecondSchema = z.partialRecord(
+  z.enum(['EMAIL', 'SMS', 'PUSH', 'IN_APP']),
+  z.number().positive(),
+);
+
+/**
+ * Sends per second of each adapter, for the pending notifications sweep and campaigns: the
+ * defaults with the overrides in `NOTIFICATION_SENDS_PER_SECOND`, a JSON object keyed by
+ * notification type, e.g. `{"EMAIL":10}`. Passed to the workflows as arguments, since workflow
+ * code can't read environment variables.
+ */
+export function getSendsPerSecond(): Record<NotificationType, number> {
+  const overrides = process.env.NOTIFICATION_SENDS_PER_SECOND;
+  return {
+    ...defaultPendingNotificationsSweepOptions.sendsPerSecond,
+    ...(overrides ? sendsPerSecondSchema.parse(JSON.parse(overrides)) : {}),
+  };
+}
@@ -1 +1,25 @@
 export const NOTIFICATIONS_QUEUE = 'NOTIFICATIONS_QUEUE';
+export const PENDING_NOTIFICATIONS_SCHEDULE_ID = 'send-all-pending-notifications';
+export const EXPIRED_TOKENS_SCHEDULE_ID = 'delete-expired-tokens';
+export const EXPIRED_RATE_LIMIT_COUNTERS_SCHEDULE_ID = 'delete-expired-rate-limit-counters';
+
+// Shared by the queue service and the pending notifications sweep, so a notification only
+// ever has one send workflow running. Notifications created with an idempotency key get an id
+// derived from the key instead, so a replayed request can't start a second workflow either
+export function getSendNotificationWorkflowId(
+  notificationId: number,
+  idempotencyKey?: string | null,
+): string {
+  return idempotencyKey
+    ? `sendNotification-key-${idempotencyKey}`
+    : `sendNotification-${notificationId}`;
+}
+
+// One workflow per campaign, so creating its notifications can't be started twice
+export function getCampaignWorkflowId(campaignId: number): string {
+  return `sendCampaign-${campaignId}`;
+}
+
+// ApplicationFailure types thrown by the sendNotification activity
+export const TRANSIENT_SEND_ERROR = 'TransientSendError';
+export const PERMANENT_SEND_ERROR = 'PermanentSendError';
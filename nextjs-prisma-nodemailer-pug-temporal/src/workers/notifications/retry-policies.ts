@@ -0,0 +1,62 @@
+import type { NotificationType } from '@prisma/client';
+import type { RetryPolicy } from '@temporalio/workflow';
+import * as z from 'zod';
+import { PERMANENT_SEND_ERROR } from './constants';
+
+const defaultRetryPolicy: RetryPolicy = {
+  initialInterval: '30 seconds',
+  backoffCoefficient: 2,
+  maximumInterval: '30 minutes',
+  maximumAttempts: 5,
+  nonRetryableErrorTypes: [PERMANENT_SEND_ERROR],
+};
+
+const defaultNotificationRetryPolicies: Record<NotificationType, RetryPolicy> = {
+  // SMTP outages are usually over within a few hours
+  EMAIL: { ...defaultRetryPolicy, maximumAttempts: 8 },
+  SMS: defaultRetryPolicy,
+  PUSH: defaultRetryPolicy,
+  // In-app notifications only touch our own database
+  IN_APP: { ...defaultRetryPolicy, initialInterval: '5 seconds', maximumAttempts: 3 },
+};
+
+// Durations are Temporal duration strings, e.g. '30 seconds', or milliseconds
+const durationSchema = z.union([z.string(), z.number().int().positive()]);
+
+const retryPolicyOverridesSchema = z.partialRecord(
+  z.enum(['EMAIL', 'SMS', 'PUSH', 'IN_APP']),
+  z.strictObject({
+    initialInterval: durationSchema.optional(),
+    backoffCoefficient: z.number().min(1).optional(),
+    maximumInterval: durationSchema.optional(),
+    maximumAttempts: z.number().int().positive().optional(),
+  }),
+);
+
+/**
+ * Overrides of the default policies from `NOTIFICATION_RETRY_POLICIES`, a JSON object keyed by
+ * notification type, e.g. `{"EMAIL":{"maximumAttempts":12,"maximumInterval":"1 hour"}}`.
+ * Throws on invalid JSON, so a bad value stops the worker instead of being ignored.
+ */
+function getRetryPolicyOverrides() {
+  const overrides = process.env.NOTIFICATION_RETRY_POLICIES;
+  return overrides ? retryPolicyOverridesSchema.parse(JSON.parse(overrides)) : {};
+}
+
+const retryPolicyOverrides = getRetryPolicyOverrides();
+
+/**
+ * Retry policy for the sendNotification activity, per notification type. Once the attempts
+ * run out the notification is dead-lettered (see `sendNotificationWorkflow`). Read by the
+ * worker's activities, since workflow code can't read environment variables.
+ */
+export const notificationRetryPolicies: Record<NotificationType, RetryPolicy> = Object.fromEntries(
+  Object.entries(defaultNotificationRetryPolicies).map(([notificationType, policy]) => [
+    notificationType,
+    { ...policy, ...retryPolicyOverrides[notificationType as keyof typeof retryPolicyOverrides] },
+  ]),
+) as Record<NotificationType, RetryPolicy>;
+
+export function getNotificationRetryPolicy(notificationType: NotificationType | null): RetryPolicy {
+  return notificationType ? notificationRetryPolicies[notificationType] : defaultRetryPolicy;
+}
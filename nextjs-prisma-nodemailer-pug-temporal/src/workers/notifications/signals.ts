@@ -0,0 +1,8 @@
+import { defineSignal } from '@temporalio/workflow';
+
+// Kept apart from workflows.ts so the app can import them without loading the workflow code
+
+// Sent by the notification scheduling service after it updates the Notification row
+export const cancelSignal = defineSignal('cancel');
+// The new sendAfter as an ISO string
+export const rescheduleSignal = defineSignal<[string]>('reschedule');
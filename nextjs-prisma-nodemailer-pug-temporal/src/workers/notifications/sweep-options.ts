@@ -0,0 +1,29 @@
+import type { NotificationType } from '@prisma/client';
+
+export type PendingNotificationsSweepOptions = {
+  // Pending notifications loaded per workflow run, the sweep continues as new after each page
+  pageSize: number;
+  // Send workflows started at once
+  batchSize: number;
+  // Upper bound on sends per second for each adapter, keyed by the type it delivers
+  sendsPerSecond: Record<NotificationType, number>;
+};
+
+export const defaultPendingNotificationsSweepOptions: PendingNotificationsSweepOptions = {
+  pageSize: 200,
+  batchSize: 10,
+  sendsPerSecond: {
+    EMAIL: 5,
+    SMS: 1,
+    PUSH: 20,
+    IN_APP: 50,
+  },
+};
+
+export type PendingNotificationsSweepSummary = {
+  sent: number;
+  // Dead-lettered once their send workflow ran out of retries
+  failed: number;
+  // Cancelled before sending, or already being handled by their own send workflow
+  skipped: number;
+};
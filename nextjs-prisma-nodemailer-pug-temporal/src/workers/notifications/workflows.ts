@@ -1,9 +1,48 @@
-import { proxyActivities } from '@temporalio/workflow';
+import type { NotificationType } from '@prisma/client';
+import {
+  ActivityFailure,
+  ChildWorkflowFailure,
+  type ChildWorkflowHandle,
+  condition,
+  continueAsNew,
+  log,
+  ParentClosePolicy,
+  proxyActivities,
+  type RetryPolicy,
+  setHandler,
+  sleep,
+  startChild,
+} from '@temporalio/workflow';
 import type { getNotificationService } from '../../lib/services/notifications';
-import type { EmailActivities } from './activities';
+import type {
+  EmailActivities,
+  NotificationSendOutcome,
+  PendingNotificationItem,
+} from './activities';
+import {
+  type CampaignOptions,
+  type CampaignSummary,
+  defaultCampaignOptions,
+} from './campaign-options';
+import { getSendNotificationWorkflowId } from './constants';
+import { cancelSignal, rescheduleSignal } from './signals';
+import {
+  defaultPendingNotificationsSweepOptions,
+  type PendingNotificationsSweepOptions,
+  type PendingNotificationsSweepSummary,
+} from './sweep-options';
 
 // Configure activities with a timeout (adjust as needed)
-const { sendNotification, getAllPendingNotifications } = proxyActivities<EmailActivities>({
+const {
+  getNotificationSendInfo,
+  markNotificationDeadLettered,
+  getDuePendingNotifications,
+  deleteExpiredTokens,
+  deleteExpiredRateLimitCounters,
+  startCampaign,
+  createCampaignNotificationsBatch,
+  completeCampaign,
+} = proxyActivities<EmailActivities>({
   startToCloseTimeout: '1 minute',
 });
 
@@ -11,16 +50,190 @@ type NotificationIdType = Parameters<
   ReturnType<typeof getNotificationService>['getNotification']
 >[0];
 
-export async function sendNotificationWorkflow(notificationId: NotificationIdType): Promise<void> {
-  await sendNotification(notificationId);
+async function sendWithRetryPolicy(
+  notificationId: NotificationIdType,
+  retryPolicy: RetryPolicy,
+): Promise<NotificationSendOutcome> {
+  const { sendNotification } = proxyActivities<EmailActivities>({
+    startToCloseTimeout: '1 minute',
+    retry: retryPolicy,
+  });
+
+  try {
+    return await sendNotification(notificationId);
+  } catch (error) {
+    if (error instanceof ActivityFailure) {
+      // The activity failure wraps the ApplicationFailure thrown by the last attempt
+      await markNotificationDeadLettered(notificationId, error.cause?.message ?? error.message);
+    }
+    throw error;
+  }
+}
+
+export async function sendNotificationWorkflow(
+  notificationId: NotificationIdType,
+): Promise<NotificationSendOutcome> {
+  let cancelled = false;
+  let rescheduledSendAfter: string | null = null;
+  setHandler(cancelSignal, () => {
+    cancelled = true;
+  });
+  setHandler(rescheduleSignal, (newSendAfter) => {
+    rescheduledSendAfter = newSendAfter;
+  });
+
+  let { sendAfter, retryPolicy } = await getNotificationSendInfo(notificationId);
+
+  // Durable timer: the workflow survives worker restarts while waiting for sendAfter
+  while (!cancelled && sendAfter && new Date(sendAfter).getTime() > Date.now()) {
+    const woken = await condition(
+      () => cancelled || rescheduledSendAfter !== null,
+      new Date(sendAfter).getTime() - Date.now(),
+    );
+
+    if (woken && rescheduledSendAfter !== null) {
+      sendAfter = rescheduledSendAfter;
+      rescheduledSendAfter = null;
+    } else if (!woken) {
+      // sendAfter may have been moved without a signal, so check it again
+      ({ sendAfter, retryPolicy } = await getNotificationSendInfo(notificationId));
+    }
+  }
+
+  if (cancelled) {
+    log.info('Notification cancelled before sending', { notificationId });
+    return 'skipped';
+  }
+
+  return sendWithRetryPolicy(notificationId, retryPolicy);
+}
+
+type PendingNotificationsSweepState = {
+  afterId: NotificationIdType;
+  summary: PendingNotificationsSweepSummary;
+};
+
+type SendNotificationWorkflowHandle = ChildWorkflowHandle<typeof sendNotificationWorkflow>;
+
+// Null when the notification already has a send workflow running
+async function startPendingNotificationSend({
+  id,
+  idempotencyKey,
+}: PendingNotificationItem): Promise<SendNotificationWorkflowHandle | null> {
+  try {
+    return await startChild(sendNotificationWorkflow, {
+      workflowId: getSendNotificationWorkflowId(id, idempotencyKey),
+      args: [id],
+      // The send keeps going if the sweep is terminated
+      parentClosePolicy: ParentClosePolicy.ABANDON,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'WorkflowExecutionAlreadyStartedError') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function getPendingNotificationOutcome(
+  send: SendNotificationWorkflowHandle | null,
+): Promise<keyof PendingNotificationsSweepSummary> {
+  if (!send) {
+    return 'skipped';
+  }
+  try {
+    return await send.result();
+  } catch (error) {
+    // The send workflow dead-lettered the notification before failing
+    if (error instanceof ChildWorkflowFailure) {
+      return 'failed';
+    }
+    throw error;
+  }
 }
 
-export async function sendAllPendingNotificationsWorkflow(): Promise<void> {
-  const pendingNotificationIds = await getAllPendingNotifications();
+/**
+ * Safety net run by the pending notifications schedule. Each notification is sent by its own
+ * `sendNotificationWorkflow`, started in batches that respect the per-adapter rate limits;
+ * the ones that already have a workflow running are skipped. Once a page's send workflows have
+ * all been started, waits for their outcomes and continues as new to keep the workflow history
+ * small. Returns the totals of the whole sweep.
+ */
+export async function sendAllPendingNotificationsWorkflow(
+  options: Partial<PendingNotificationsSweepOptions> = {},
+  state: PendingNotificationsSweepState = {
+    afterId: 0,
+    summary: { sent: 0, failed: 0, skipped: 0 },
+  },
+): Promise<PendingNotificationsSweepSummary> {
+  const { pageSize, batchSize, sendsPerSecond } = {
+    ...defaultPendingNotificationsSweepOptions,
+    ...options,
+  };
+  const { summary } = state;
+
+  const pendingNotifications = await getDuePendingNotifications(state.afterId, pageSize);
+  const sends: (SendNotificationWorkflowHandle | null)[] = [];
+
+  for (const notificationType of Object.keys(sendsPerSecond) as NotificationType[]) {
+    const notificationsOfType = pendingNotifications.filter(
+      (notification) => notification.notificationType === notificationType,
+    );
+
+    for (let start = 0; start < notificationsOfType.length; start += batchSize) {
+      const batch = notificationsOfType.slice(start, start + batchSize);
+      // Batches only wait for their sends to start, so a send that retries doesn't slow down
+      // the ones after it
+      const [batchSends] = await Promise.all([
+        Promise.all(batch.map(startPendingNotificationSend)),
+        // Rate limit: a batch never takes less than its size divided by the adapter rate
+        sleep((batch.length / sendsPerSecond[notificationType]) * 1000),
+      ]);
+      sends.push(...batchSends);
+    }
+  }
+
+  for (const outcome of await Promise.all(sends.map(getPendingNotificationOutcome))) {
+    summary[outcome] += 1;
+  }
+
+  if (pendingNotifications.length === pageSize) {
+    await continueAsNew<typeof sendAllPendingNotificationsWorkflow>(options, {
+      afterId: pendingNotifications[pendingNotifications.length - 1].id,
+      summary,
+    });
+  }
+
+  log.info('Pending notifications sweep finished', summary);
+  return summary;
+}
+
+// Run by the expired tokens schedule, returns how many tokens were deleted
+export async function deleteExpiredTokensWorkflow(): Promise<number> {
+  return deleteExpiredTokens();
+}
+
+// Run by the expired rate limit counters schedule, returns how many counters were deleted
+export async function deleteExpiredRateLimitCountersWorkflow(): Promise<number> {
+  return deleteExpiredRateLimitCounters();
+}
+
+/**
+ * Creates the notifications of a campaign in batches, waiting between batches so the
+ * campaign stays under the channel's rate limit. The campaign row has the progress.
+ */
+export async function sendCampaignWorkflow(
+  campaignId: number,
+  options: Partial<CampaignOptions> = {},
+): Promise<CampaignSummary> {
+  const { batchSize, sendsPerSecond } = { ...defaultCampaignOptions, ...options };
+  const notificationType = await startCampaign(campaignId);
+
+  let processed = await createCampaignNotificationsBatch(campaignId, batchSize);
+  while (processed > 0) {
+    await sleep((processed / sendsPerSecond[notificationType]) * 1000);
+    processed = await createCampaignNotificationsBatch(campaignId, batchSize);
+  }
 
-  await Promise.all(
-    pendingNotificationIds
-      .filter((notificationId) => notificationId !== undefined)
-      .map((notificationId) => sendNotification(notificationId)),
-  );
+  return completeCampaign(campaignId);
 }
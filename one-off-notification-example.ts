@@ -22,20 +22,33 @@ class ProspectWelcomeContextGenerator implements ContextGenerator<{ companyName:
 
 // Example context generator for event invitation
 class EventInvitationContextGenerator
-  implements ContextGenerator<{ eventName: string; eventDate: string; eventLocation: string }>
+  implements
+    ContextGenerator<{
+      eventName: string;
+      eventDate: string;
+      eventLocation: string;
+      locale?: string;
+    }>
 {
   async generate(params: {
     eventName: string;
     eventDate: string;
     eventLocation: string;
+    // The guest's locale; the date is formatted for it instead of the server's
+    locale?: string;
   }): Promise<JsonObject> {
     const eventDate = new Date(params.eventDate);
     const now = new Date();
     const daysUntilEvent = Math.ceil((eventDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
 
+    const locale = params.locale ?? 'en';
+
     return {
+      locale,
       eventName: params.eventName,
-      eventDate: eventDate.toLocaleDateString(),
+      eventDate: new Intl.DateTimeFormat(locale, { dateStyle: 'long', timeZone: 'UTC' }).format(
+        eventDate,
+      ),
       eventLocation: params.eventLocation,
       daysUntilEvent,
     };
@@ -97,6 +110,7 @@ export async function scheduleEventInvitation(
     location: string;
   },
   sendDate: Date,
+  locale = 'en',
 ) {
   const notification = await vintaSend.createOneOffNotification({
     emailOrPhone: guestEmail,
@@ -111,6 +125,7 @@ export async function scheduleEventInvitation(
       eventName: eventDetails.name,
       eventDate: eventDetails.date.toISOString(),
       eventLocation: eventDetails.location,
+      locale,
     },
     sendAfter: sendDate, // Schedule for later
     extraParams: { eventId: 123 }, // Optional metadata
@@ -138,6 +153,10 @@ export async function updateScheduledNotification(
 
 /**
  * Example 4: Send one-off notifications to multiple recipients
+ *
+ * Fine for a handful of recipients. For real lists, use the campaigns in the Next.js example
+ * (`/admin/campaigns`), which create the notifications in rate-limited batches with per-row
+ * results and an error report.
  */
 export async function sendBulkOneOffNotifications(
   vintaSend: ReturnType<VintaSendFactory<NotificationTypeConfig>['create']>,